@@ -140,9 +140,11 @@ vec4 getColor(
 
 void main() {`,
             '#include <map_fragment>': `
-    diffuseColor.rgb = getColor(
+    vec4 billboardColor = getColor(
     ${['vUv', ...Object.keys(params.varyings).map(key => `v_${key}`)].map(name => `\t${name}`).join(',\n')}
-).rgb;
+);
+    diffuseColor.rgb = billboardColor.rgb;
+    diffuseColor.a *= billboardColor.a;
 `,
         });
     };
@@ -112,4 +112,4 @@ class InstancedBillboardBatch {
     }
 }
 
-export { InstancedBillboardBatch, type CustomAttributesDefinition };
+export { attributeSizes, InstancedBillboardBatch, type CustomAttributesDefinition };
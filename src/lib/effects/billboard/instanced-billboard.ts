@@ -59,7 +59,7 @@ class InstancedBillboard {
             transparent: params.rendering.transparent,
             uniforms: params.rendering.uniforms,
             attributes: {
-                ...params.rendering.attributes,
+                ...Object.fromEntries(Object.entries(params.rendering.attributes).map(([key, attribute]) => [`a_${key}`, attribute])),
                 aInstanceWorldPosition: { type: 'vec3' },
                 aInstanceLocalTransform: { type: 'mat2' },
             },
@@ -70,7 +70,7 @@ modelPosition = aInstanceWorldPosition;
 localTransform = aInstanceLocalTransform;
 
 ${Object.keys(params.rendering.attributes)
-    .map(key => `v_${key} = ${key};`)
+    .map(key => `${key} = a_${key};`)
     .join('\n')}
 `,
             },
@@ -1,10 +1,7 @@
 import * as THREE from '../../libs/three-usage';
-import { InstancedBillboard } from '../billboard/instanced-billboard';
 
-type Particle = {
-    initialPosition: THREE.Vector3;
-    birthTimestamp: number;
-};
+import { type ParticleEmitterDescription } from './particle-emitter-description';
+import { ParticleSystem } from './particle-system';
 
 type Parameters = {
     readonly size: THREE.Vector3Like;
@@ -13,100 +10,51 @@ type Parameters = {
     readonly texture: THREE.Texture;
 };
 
+/** Particles rising faster and faster in a box, for instance around a healed character. */
 class BuffAscendEffect {
     public readonly container: THREE.Object3D;
 
-    private readonly particles: Particle[] = [];
-
-    private readonly instancedBillboard: InstancedBillboard;
-
-    private readonly animationDuration: number = 2000;
-    private readonly maxHeight: number;
-    private recycleParticles: boolean = false;
+    private readonly particleSystem: ParticleSystem;
 
     public constructor(params: Parameters) {
-        this.animationDuration = params.animationDuration;
-        this.maxHeight = params.size.y;
-
-        const particlesCount = params.density;
-
-        this.instancedBillboard = new InstancedBillboard({
-            maxInstancesCount: particlesCount,
-            rendering: {
-                material: 'Basic',
-                shadows: {
-                    receive: false,
-                },
-                uniforms: {
-                    uTexture: {
-                        value: params.texture,
-                        type: 'sampler2D',
-                    },
-                },
-                attributes: {},
-                fragmentCode: `
-vec4 sampled = texture(uTexture,uv);
-if (sampled.a < 0.5) {
-    discard;
-}
-return vec4(sampled.rgb, 1);
-`,
+        const lifetime = params.animationDuration / 1000;
+
+        const description: ParticleEmitterDescription = {
+            maxParticles: params.density,
+            spawn: { rate: params.density / lifetime },
+            shape: { type: 'box', size: { x: params.size.x, y: 1, z: params.size.z } },
+            lifetime,
+            velocity: {
+                // negative, so that the particles reach the top of the box at the end of their life
+                gravity: (-2 * params.size.y) / (lifetime * lifetime),
             },
-        });
+            size: {
+                initial: 0.5,
+                overLife: Array.from({ length: 9 }, (_, i) => ({ t: i / 8, value: Math.sin((Math.PI * i) / 8) })),
+            },
+            rendering: { alphaTest: 0.5 },
+        };
 
-        this.container = this.instancedBillboard.container;
+        this.particleSystem = new ParticleSystem({ description, texture: params.texture });
+        // the particles spawn in the bottom unit of the box
+        this.particleSystem.container.position.set(0, 0.5, 0);
 
-        for (let i = 0; i < particlesCount; i++) {
-            const particle = {
-                initialPosition: new THREE.Vector3(
-                    params.size.x * (Math.random() - 0.5),
-                    Math.random(),
-                    params.size.z * (Math.random() - 0.5)
-                ),
-                birthTimestamp: -100000,
-            };
-            this.particles.push(particle);
-        }
-        this.instancedBillboard.setInstancesCount(this.particles.length);
+        this.container = new THREE.Group();
+        this.container.name = 'buff-ascend-effect-container';
+        this.container.add(this.particleSystem.container);
     }
 
     public start(): void {
-        for (const particle of this.particles) {
-            particle.birthTimestamp = performance.now() + this.animationDuration * Math.random();
-        }
-        this.recycleParticles = true;
+        this.particleSystem.start();
     }
 
+    /** The particles already alive end their animation. */
     public stop(): void {
-        this.recycleParticles = false;
+        this.particleSystem.stop();
     }
 
     public update(): void {
-        const now = performance.now();
-        const lifetime = this.animationDuration;
-
-        for (let iP = 0; iP < this.particles.length; iP++) {
-            const particle = this.particles[iP]!;
-
-            const age = now - particle.birthTimestamp;
-            const relativeAge = age / lifetime;
-            let size = 0;
-            if (age > 0 && age < lifetime) {
-                size = 0.5 * Math.sin(Math.PI * relativeAge);
-            }
-            if (this.recycleParticles && age > lifetime) {
-                particle.birthTimestamp += lifetime;
-            }
-
-            const position = {
-                x: particle.initialPosition.x,
-                y: particle.initialPosition.y + this.maxHeight * relativeAge * relativeAge,
-                z: particle.initialPosition.z,
-            };
-
-            this.instancedBillboard.setInstancePosition(iP, position);
-            this.instancedBillboard.setInstanceTransform(iP, 0, { x: size, y: size });
-        }
+        this.particleSystem.update();
     }
 }
 
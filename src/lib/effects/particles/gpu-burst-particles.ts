@@ -0,0 +1,387 @@
+import { nextPowerOfTwo } from '../../helpers/math';
+import * as THREE from '../../libs/three-usage';
+import { type HeightmapAtlas } from '../../terrain/heightmap/atlas/heightmap-atlas';
+import { HeightmapAtlasArea } from '../../terrain/heightmap/atlas/heightmap-atlas-area';
+import { createBillboardInstancedBufferGeometry, createBillboardMaterial, type UniformDefinition } from '../billboard/billboard-shader';
+import { GpuTexturesState } from '../billboard/gpu/gpu-textures-state';
+
+type UniformType = 'sampler2D' | 'float' | 'vec2' | 'vec3' | 'vec4';
+
+type Parameters = {
+    readonly origin?: THREE.Vector2Like;
+    readonly lockAxis?: THREE.Vector3Like;
+    readonly maxInstancesCount: number;
+    /** Size of the box centered on the container in which the particles live. Particles leaving it die. */
+    readonly positionsRange: THREE.Vector3Like;
+    /** Maximum speed of the particles along each axis, in world units per second. */
+    readonly maxSpeed: number;
+    /** Downwards acceleration, in world units per second squared. Defaults to 0. */
+    readonly gravity?: number;
+    /** Life duration of the particles, in seconds. */
+    readonly lifetime: {
+        readonly min: number;
+        readonly max: number;
+    };
+    readonly size: THREE.Vector2Like;
+    /** When provided, particles bounce on the heightmap. The box of the particles must not be wider than a root tile of the atlas. */
+    readonly collisions?: {
+        readonly heightmapAtlas: HeightmapAtlas;
+        /** Proportion of the vertical speed kept when bouncing. Defaults to 0.3. */
+        readonly restitution?: number;
+        /** Proportion of the horizontal speed lost when bouncing. Defaults to 0.5. */
+        readonly friction?: number;
+    };
+    readonly rendering: {
+        readonly material: 'Basic' | 'Phong';
+        readonly blending?: THREE.Blending;
+        readonly depthWrite?: boolean;
+        readonly transparent?: boolean;
+        readonly shadows: {
+            readonly receive: boolean;
+        };
+        readonly uniforms: Record<string, THREE.IUniform<unknown> & { readonly type: UniformType }>;
+        /** Has access to a float "life": the normalized age of the particle, in [0, 1]. */
+        readonly fragmentCode: string;
+    };
+};
+
+type GpuBurstParameters = {
+    /** Position of the center of the burst, relative to the container. */
+    readonly position: THREE.Vector3Like;
+    readonly count: number;
+    /** Particles spawn in a sphere of this radius. Defaults to 0. */
+    readonly radius?: number;
+    /** Initial speed of the particles, in world units per second. */
+    readonly speed: {
+        readonly min: number;
+        readonly max: number;
+    };
+    /** Main direction of the particles. Defaults to up. */
+    readonly direction?: THREE.Vector3Like;
+    /** Maximum angle between the direction of a particle and the main direction, in radians. Defaults to PI (all directions). */
+    readonly spreadAngle?: number;
+};
+
+/** GLSL code declaring a vec4 of pseudo-random values in [0, 1[, without relying on "sin" which lacks precision for large inputs. */
+function buildHashCode(name: string, input: string): string {
+    return `
+vec4 ${name} = fract(${input} * vec4(0.1031, 0.1030, 0.0973, 0.1099));
+${name} += dot(${name}, ${name}.wzxy + 33.33);
+${name} = fract((${name}.xxyz + ${name}.yzzw) * ${name}.zywx);`;
+}
+
+/**
+ * Particles with their own velocity, gravity and lifetime, entirely simulated on the GPU, so that bursts can count tens of thousands of particles.
+ * The state of each particle is stored in textures (packed in RGBA8, normalized in the box of the particles) updated by ping-pong rendering.
+ * The container is expected to be translated only.
+ */
+class GpuBurstParticles {
+    public readonly container: THREE.Object3D;
+
+    private readonly gpuTexturesState: GpuTexturesState;
+    private isInitialized = false;
+
+    private readonly mesh: THREE.InstancedMesh;
+
+    private readonly spawnPipeline: {
+        readonly uniforms: {
+            readonly uSpawnRange: UniformDefinition<THREE.Vector2Like>;
+            readonly uSpawnCenter: UniformDefinition<THREE.Vector3Like>;
+            readonly uSpawnRadius: UniformDefinition<number>;
+            readonly uSpawnDirection: UniformDefinition<THREE.Vector3Like>;
+            readonly uSpawnMinCosAngle: UniformDefinition<number>;
+            readonly uSpawnSpeed: UniformDefinition<THREE.Vector2Like>;
+            readonly uSpawnSeed: UniformDefinition<number>;
+        };
+    };
+
+    private readonly updatePipeline: {
+        readonly uniforms: {
+            readonly uDeltaTime: UniformDefinition<number>;
+            readonly uContainerWorldPosition: UniformDefinition<THREE.Vector3Like>;
+        };
+    };
+
+    /** Area of the heightmap the particles collide with, following the container. */
+    private readonly heightmapArea: HeightmapAtlasArea | null = null;
+
+    private readonly displayPipeline: {
+        readonly uniforms: {
+            readonly uPositionXYTexture: UniformDefinition<THREE.Texture | null>;
+            readonly uPositionZAgeTexture: UniformDefinition<THREE.Texture | null>;
+            readonly uVelocityZLifetimeTexture: UniformDefinition<THREE.Texture | null>;
+        };
+    };
+
+    private readonly maxInstancesCount: number;
+    private readonly positionsRange: THREE.Vector3;
+    private readonly maxSpeed: number;
+    private readonly maxLifetime: number;
+    private nextParticleId = 0;
+    private lastUpdateTimestamp = performance.now();
+
+    public constructor(params: Parameters) {
+        this.container = new THREE.Group();
+        this.container.name = 'gpu-burst-particles-container';
+
+        const textureSize = nextPowerOfTwo(Math.ceil(Math.sqrt(params.maxInstancesCount)));
+        if (params.lifetime.min <= 0 || params.lifetime.max < params.lifetime.min) {
+            throw new Error(`Invalid lifetime "${params.lifetime.min}-${params.lifetime.max}".`);
+        }
+
+        this.maxInstancesCount = params.maxInstancesCount;
+        this.positionsRange = new THREE.Vector3().copy(params.positionsRange);
+        this.maxSpeed = params.maxSpeed;
+        this.maxLifetime = params.lifetime.max;
+
+        this.spawnPipeline = {
+            uniforms: {
+                uSpawnRange: { value: { x: 0, y: 0 }, type: 'vec2' },
+                uSpawnCenter: { value: { x: 0, y: 0, z: 0 }, type: 'vec3' },
+                uSpawnRadius: { value: 0, type: 'float' },
+                uSpawnDirection: { value: { x: 0, y: 1, z: 0 }, type: 'vec3' },
+                uSpawnMinCosAngle: { value: -1, type: 'float' },
+                uSpawnSpeed: { value: { x: 0, y: 0 }, type: 'vec2' },
+                uSpawnSeed: { value: 0, type: 'float' },
+            },
+        };
+
+        this.updatePipeline = {
+            uniforms: {
+                uDeltaTime: { value: 0, type: 'float' },
+                uContainerWorldPosition: { value: new THREE.Vector3(), type: 'vec3' },
+            },
+        };
+
+        let collisionsUniforms: Record<string, UniformDefinition<unknown>> = {};
+        let collisionsCode = '';
+        if (params.collisions) {
+            this.heightmapArea = new HeightmapAtlasArea({
+                heightmapAtlas: params.collisions.heightmapAtlas,
+                size: Math.max(this.positionsRange.x, this.positionsRange.z),
+            });
+            collisionsUniforms = this.heightmapArea.uniforms;
+
+            const restitution = params.collisions.restitution ?? 0.3;
+            const friction = params.collisions.friction ?? 0.5;
+            collisionsCode = `
+${this.heightmapArea.buildGlslSampleCode('uContainerWorldPosition.xz + position.xz', 'groundAltitude')}
+float groundLevel = groundAltitude - uContainerWorldPosition.y;
+if (position.y < groundLevel) {
+    position.y = groundLevel;
+    if (velocity.y < 0.0) {
+        velocity.y *= -${restitution.toFixed(3)};
+        velocity.xz *= ${(1 - friction).toFixed(3)};
+    }
+}
+`;
+        }
+
+        const positionsRangeCode = `vec3(${this.positionsRange.x.toFixed(3)}, ${this.positionsRange.y.toFixed(3)}, ${this.positionsRange.z.toFixed(3)})`;
+        const maxSpeedCode = this.maxSpeed.toFixed(3);
+        const maxLifetimeCode = this.maxLifetime.toFixed(3);
+
+        const decodeStateCode = `
+vec2 positionXY = unpackRGBATo2Half(in_positionXYTexture);
+vec2 positionZAge = unpackRGBATo2Half(in_positionZAgeTexture);
+vec2 velocityXY = unpackRGBATo2Half(in_velocityXYTexture);
+vec2 velocityZLifetime = unpackRGBATo2Half(in_velocityZLifetimeTexture);
+
+vec3 position = (vec3(positionXY, positionZAge.x) - 0.5) * ${positionsRangeCode};
+vec3 velocity = (2.0 * vec3(velocityXY, velocityZLifetime.x) - 1.0) * ${maxSpeedCode};
+float age = positionZAge.y * ${maxLifetimeCode};
+float lifetime = velocityZLifetime.y * ${maxLifetimeCode};
+`;
+
+        const encodeStateCode = `
+vec3 normalizedPosition = clamp(position / ${positionsRangeCode} + 0.5, 0.0, 1.0);
+vec3 normalizedVelocity = clamp(0.5 + 0.5 * velocity / ${maxSpeedCode}, 0.0, 1.0);
+out_positionXYTexture = pack2HalfToRGBA(normalizedPosition.xy);
+out_positionZAgeTexture = pack2HalfToRGBA(vec2(normalizedPosition.z, clamp(age / ${maxLifetimeCode}, 0.0, 1.0)));
+out_velocityXYTexture = pack2HalfToRGBA(normalizedVelocity.xy);
+out_velocityZLifetimeTexture = pack2HalfToRGBA(vec2(normalizedVelocity.z, clamp(lifetime / ${maxLifetimeCode}, 0.0, 1.0)));
+`;
+
+        this.gpuTexturesState = new GpuTexturesState({
+            width: textureSize,
+            height: textureSize,
+            textureNames: ['positionXYTexture', 'positionZAgeTexture', 'velocityXYTexture', 'velocityZLifetimeTexture'],
+            pipelines: {
+                initialize: {
+                    // a null lifetime means that the particle is dead
+                    uniforms: {},
+                    requiresPreviousState: false,
+                    shaderCode: `
+out_positionXYTexture = vec4(0);
+out_positionZAgeTexture = vec4(0);
+out_velocityXYTexture = vec4(0);
+out_velocityZLifetimeTexture = vec4(0);
+`,
+                },
+                spawn: {
+                    uniforms: this.spawnPipeline.uniforms,
+                    requiresPreviousState: true,
+                    shaderCode: `
+ivec2 texelId = ivec2(uv * ${textureSize.toFixed(1)});
+float particleId = float(texelId.x + ${textureSize} * texelId.y);
+float idInBurst = mod(particleId - uSpawnRange.x, ${this.maxInstancesCount.toFixed(1)});
+if (particleId >= ${this.maxInstancesCount.toFixed(1)} || idInBurst >= uSpawnRange.y) {
+    out_positionXYTexture = in_positionXYTexture;
+    out_positionZAgeTexture = in_positionZAgeTexture;
+    out_velocityXYTexture = in_velocityXYTexture;
+    out_velocityZLifetimeTexture = in_velocityZLifetimeTexture;
+    return;
+}
+
+${buildHashCode('random1', 'vec4(particleId, 1000.0 * uSpawnSeed, 1, 2)')}
+${buildHashCode('random2', 'vec4(particleId, 1000.0 * uSpawnSeed, 3, 4)')}
+
+// uniform direction in the cone around the main direction
+float cosTheta = mix(1.0, uSpawnMinCosAngle, random1.x);
+float sinTheta = sqrt(max(0.0, 1.0 - cosTheta * cosTheta));
+float phi = ${(2 * Math.PI).toFixed(6)} * random1.y;
+vec3 tangent = normalize(abs(uSpawnDirection.y) < 0.99 ? cross(uSpawnDirection, vec3(0, 1, 0)) : cross(uSpawnDirection, vec3(1, 0, 0)));
+vec3 bitangent = cross(uSpawnDirection, tangent);
+vec3 direction = cosTheta * uSpawnDirection + sinTheta * (cos(phi) * tangent + sin(phi) * bitangent);
+
+vec3 position = uSpawnCenter + uSpawnRadius * pow(random1.z, 1.0 / 3.0) * normalize(random2.xyz - 0.5 + 1e-4);
+vec3 velocity = mix(uSpawnSpeed.x, uSpawnSpeed.y, random1.w) * direction;
+float age = 0.0;
+float lifetime = mix(${params.lifetime.min.toFixed(3)}, ${maxLifetimeCode}, random2.w);
+${encodeStateCode}
+`,
+                },
+                update: {
+                    uniforms: { ...this.updatePipeline.uniforms, ...collisionsUniforms },
+                    requiresPreviousState: true,
+                    shaderCode: `
+${decodeStateCode}
+age += uDeltaTime;
+velocity.y -= ${(params.gravity ?? 0).toFixed(3)} * uDeltaTime;
+position += velocity * uDeltaTime;
+${collisionsCode}
+// the age is stored clamped to the max lifetime, so the particles must die here rather than when displayed
+if (age >= lifetime || any(greaterThan(abs(position / ${positionsRangeCode}), vec3(0.5)))) {
+    lifetime = 0.0;
+}
+${encodeStateCode}
+`,
+                },
+            },
+        });
+
+        const displayPipelineUniforms = {
+            ...params.rendering.uniforms,
+            uPositionXYTexture: { value: null, type: 'sampler2D' } as UniformDefinition<THREE.Texture | null>,
+            uPositionZAgeTexture: { value: null, type: 'sampler2D' } as UniformDefinition<THREE.Texture | null>,
+            uVelocityZLifetimeTexture: { value: null, type: 'sampler2D' } as UniformDefinition<THREE.Texture | null>,
+        };
+        this.displayPipeline = { uniforms: displayPipelineUniforms };
+
+        const material = createBillboardMaterial({
+            origin: params.origin,
+            lockAxis: params.lockAxis,
+            material: params.rendering.material,
+            blending: params.rendering.blending,
+            depthWrite: params.rendering.depthWrite,
+            transparent: params.rendering.transparent,
+            uniforms: displayPipelineUniforms,
+            attributes: {},
+            varyings: {
+                life: { type: 'float' },
+            },
+            vertex: {
+                getBillboardAndSetVaryingsCode: `
+ivec2 texelId = ivec2(
+    int(mod(float(gl_InstanceID), ${textureSize.toFixed(1)})),
+    gl_InstanceID / ${textureSize.toFixed()}
+);
+
+vec2 positionXY = unpackRGBATo2Half(texelFetch(uPositionXYTexture, texelId, 0));
+vec2 positionZAge = unpackRGBATo2Half(texelFetch(uPositionZAgeTexture, texelId, 0));
+float normalizedLifetime = unpackRGBATo2Half(texelFetch(uVelocityZLifetimeTexture, texelId, 0)).y;
+
+modelPosition = (vec3(positionXY, positionZAge.x) - 0.5) * ${positionsRangeCode};
+life = positionZAge.y / max(normalizedLifetime, 1e-6);
+
+vec2 size = vec2(${params.size.x.toFixed(2)}, ${params.size.y.toFixed(2)}) * step(life, 1.0) * step(1e-6, normalizedLifetime);
+localTransform = mat2(size.x, 0, 0, size.y);`,
+            },
+            fragment: {
+                getColorCode: params.rendering.fragmentCode,
+            },
+        });
+
+        const billboardGeometry = createBillboardInstancedBufferGeometry();
+        this.mesh = new THREE.InstancedMesh(billboardGeometry, material, params.maxInstancesCount);
+        this.mesh.name = 'gpu-burst-particles-mesh';
+        this.mesh.count = params.maxInstancesCount;
+        this.mesh.frustumCulled = false;
+        this.mesh.receiveShadow = params.rendering.shadows.receive;
+        this.mesh.castShadow = false;
+        this.container.add(this.mesh);
+
+        this.enforceCurrentStateTextures();
+    }
+
+    /** Spawns particles, replacing the oldest ones if there are already too many. */
+    public burst(renderer: THREE.WebGLRenderer, params: GpuBurstParameters): void {
+        this.initializeIfNeeded(renderer);
+
+        const count = Math.min(params.count, this.maxInstancesCount);
+        if (count <= 0) {
+            return;
+        }
+
+        const uniforms = this.spawnPipeline.uniforms;
+        uniforms.uSpawnRange.value = { x: this.nextParticleId, y: count };
+        uniforms.uSpawnCenter.value = params.position;
+        uniforms.uSpawnRadius.value = params.radius ?? 0;
+        uniforms.uSpawnDirection.value = new THREE.Vector3().copy(params.direction ?? { x: 0, y: 1, z: 0 }).normalize();
+        uniforms.uSpawnMinCosAngle.value = Math.cos(params.spreadAngle ?? Math.PI);
+        uniforms.uSpawnSpeed.value = { x: params.speed.min, y: params.speed.max };
+        uniforms.uSpawnSeed.value = Math.random();
+        this.gpuTexturesState.runPipeline(renderer, 'spawn');
+        this.enforceCurrentStateTextures();
+
+        this.nextParticleId = (this.nextParticleId + count) % this.maxInstancesCount;
+    }
+
+    public update(renderer: THREE.WebGLRenderer): void {
+        const now = performance.now();
+        // avoid a huge step when the page was in the background
+        const deltaTime = Math.min(0.1, (now - this.lastUpdateTimestamp) / 1000);
+        this.lastUpdateTimestamp = now;
+
+        this.initializeIfNeeded(renderer);
+
+        const containerWorldPosition = this.container.getWorldPosition(new THREE.Vector3());
+        this.updatePipeline.uniforms.uDeltaTime.value = deltaTime;
+        this.updatePipeline.uniforms.uContainerWorldPosition.value = containerWorldPosition;
+        this.heightmapArea?.setCenter(containerWorldPosition);
+
+        this.gpuTexturesState.runPipeline(renderer, 'update');
+        this.enforceCurrentStateTextures();
+    }
+
+    public dispose(): void {
+        throw new Error('Not implemented');
+    }
+
+    private initializeIfNeeded(renderer: THREE.WebGLRenderer): void {
+        if (!this.isInitialized) {
+            this.gpuTexturesState.runPipeline(renderer, 'initialize');
+            this.enforceCurrentStateTextures();
+            this.isInitialized = true;
+        }
+    }
+
+    private enforceCurrentStateTextures(): void {
+        const uniforms = this.displayPipeline.uniforms;
+        uniforms.uPositionXYTexture.value = this.gpuTexturesState.getCurrentTexture('positionXYTexture');
+        uniforms.uPositionZAgeTexture.value = this.gpuTexturesState.getCurrentTexture('positionZAgeTexture');
+        uniforms.uVelocityZLifetimeTexture.value = this.gpuTexturesState.getCurrentTexture('velocityZLifetimeTexture');
+    }
+}
+
+export { GpuBurstParticles, type GpuBurstParameters };
@@ -0,0 +1,223 @@
+import * as THREE from '../../libs/three-usage';
+import { type SpritesheetAnimationMode } from '../spritesheet-animation';
+
+/*
+ * Declarative description of a particles emitter. It only contains plain data so that effects can be authored as JSON.
+ */
+
+/** Either a fixed value, or a [min, max] range in which a random value is picked for each particle. */
+type ParticleRange = number | readonly [number, number];
+
+type ParticleKeyframe<T> = {
+    /** Normalized age of the particle, in [0, 1]. */
+    readonly t: number;
+    readonly value: T;
+};
+
+/** Either a constant value, or keyframes linearly interpolated over the life of the particle. Keyframes must be sorted by "t". */
+type ParticleCurve = number | ReadonlyArray<ParticleKeyframe<number>>;
+
+/** Any CSS color, for instance "#ff3311". */
+type ParticleColor = string;
+
+type ParticleColorCurve = ParticleColor | ReadonlyArray<ParticleKeyframe<ParticleColor>>;
+
+/** Volume in which the particles spawn. It also gives the direction of their initial speed. */
+type ParticleEmitterShape =
+    | {
+          /** Particles spawn at the origin and go in a random direction. */
+          readonly type: 'point';
+      }
+    | {
+          /** Particles spawn inside of the sphere (or on its surface) and go away from its center. */
+          readonly type: 'sphere';
+          readonly radius: number;
+          readonly surface?: boolean;
+      }
+    | {
+          /** Particles spawn inside of the box centered on the origin and go in the given direction. */
+          readonly type: 'box';
+          readonly size: THREE.Vector3Like;
+          /** Defaults to upwards. */
+          readonly direction?: THREE.Vector3Like;
+          /** Random offset in [-spread, spread] added to the direction on each axis, before normalizing it. Defaults to 0. */
+          readonly spread?: THREE.Vector3Like;
+      }
+    | {
+          /** Particles spawn on a horizontal disc centered on the origin and go upwards, at most "angle" degrees away from the vertical. */
+          readonly type: 'cone';
+          readonly angle: number;
+          readonly radius?: number;
+      };
+
+type ParticleEmitterDescription = {
+    /** Maximum count of particles alive at the same time. No particle is spawned beyond. */
+    readonly maxParticles: number;
+    readonly spawn: {
+        /** Particles spawned per second. Defaults to 0. */
+        readonly rate?: number;
+        /** Particles spawned all at once, "time" seconds after the start of the emission cycle. */
+        readonly bursts?: ReadonlyArray<{ readonly time: number; readonly count: number }>;
+        /** Duration of an emission cycle in seconds, after which the emitter stops. Defaults to Infinity. */
+        readonly duration?: number;
+        /** Whether a new emission cycle starts when the previous one ends. Defaults to false. */
+        readonly loop?: boolean;
+    };
+    /** Defaults to a point. */
+    readonly shape?: ParticleEmitterShape;
+    /** Life duration of the particles, in seconds. */
+    readonly lifetime: ParticleRange;
+    readonly velocity?: {
+        /** Initial speed along the direction given by the shape, in world units per second. Defaults to 0. */
+        readonly speed?: ParticleRange;
+        /** Initial velocity added to all the particles. Defaults to 0. */
+        readonly constant?: THREE.Vector3Like;
+        /** Downwards acceleration, in world units per second squared. Defaults to 0. */
+        readonly gravity?: number;
+        /** Proportion of the velocity lost per second, in [0, 1]. Defaults to 0. */
+        readonly drag?: number;
+    };
+    readonly size?: {
+        /** Size of the particle at spawn, in world units. Defaults to 1. */
+        readonly initial?: ParticleRange;
+        /** Factor applied to the initial size over the life of the particle. Defaults to 1. */
+        readonly overLife?: ParticleCurve;
+    };
+    readonly rotation?: {
+        /** Rotation at spawn, in radians. Defaults to 0. */
+        readonly initial?: ParticleRange;
+        /** Rotation speed, in radians per second. Defaults to 0. */
+        readonly speed?: ParticleRange;
+    };
+    /** Multiplies the color of the texture. Defaults to white. */
+    readonly color?: ParticleColorCurve;
+    /** Multiplies the alpha of the texture. Defaults to 1. */
+    readonly alpha?: ParticleCurve;
+    /** Splits the texture into frames, numbered row by row starting from the top left corner. */
+    readonly spritesheet?: {
+        /** Count of frames horizontally and vertically. */
+        readonly size: THREE.Vector2Like;
+        /** When omitted, the frames are spread over the life of the particle. */
+        readonly framesPerSecond?: number;
+        /** Defaults to "once". */
+        readonly mode?: SpritesheetAnimationMode;
+        /** Whether to cross-fade between consecutive frames. Defaults to false. */
+        readonly frameBlending?: boolean;
+        /** Whether each particle starts on a random frame. Played "once", the frames then wrap around to the first one. Defaults to false. */
+        readonly randomStartFrame?: boolean;
+    };
+    readonly rendering?: {
+        /** Defaults to "normal". */
+        readonly blending?: 'normal' | 'additive';
+        /** Fragments with an alpha below this threshold are discarded. Defaults to 0.01. */
+        readonly alphaTest?: number;
+    };
+};
+
+function sampleParticleRange(range: ParticleRange): number {
+    if (typeof range === 'number') {
+        return range;
+    }
+    return range[0] + (range[1] - range[0]) * Math.random();
+}
+
+/** @returns The index of the last keyframe before "t", and the interpolation factor towards the next one. */
+function locateKeyframes(
+    keyframes: ReadonlyArray<ParticleKeyframe<unknown>>,
+    t: number
+): { readonly index: number; readonly factor: number } {
+    let index = 0;
+    while (index < keyframes.length - 1 && keyframes[index + 1]!.t <= t) {
+        index++;
+    }
+    const from = keyframes[index]!;
+    const to = keyframes[index + 1];
+    if (!to || t <= from.t) {
+        return { index, factor: 0 };
+    }
+    return { index, factor: (t - from.t) / (to.t - from.t) };
+}
+
+function evaluateParticleCurve(curve: ParticleCurve, t: number): number {
+    if (typeof curve === 'number') {
+        return curve;
+    }
+    const { index, factor } = locateKeyframes(curve, t);
+    const from = curve[index]!.value;
+    const to = curve[index + 1]?.value ?? from;
+    return from + (to - from) * factor;
+}
+
+/** Colors are parsed once, so that evaluating the curve every frame does not allocate. */
+class ParticleColorCurveEvaluator {
+    private readonly keyframes: ReadonlyArray<ParticleKeyframe<THREE.Color>>;
+
+    public constructor(curve: ParticleColorCurve) {
+        if (typeof curve === 'string') {
+            this.keyframes = [{ t: 0, value: new THREE.Color(curve) }];
+        } else {
+            this.keyframes = curve.map(keyframe => ({ t: keyframe.t, value: new THREE.Color(keyframe.value) }));
+        }
+    }
+
+    public evaluate(t: number, target: THREE.Color): THREE.Color {
+        const { index, factor } = locateKeyframes(this.keyframes, t);
+        const from = this.keyframes[index]!.value;
+        const to = this.keyframes[index + 1]?.value ?? from;
+        return target.copy(from).lerp(to, factor);
+    }
+}
+
+function validateKeyframes(name: string, keyframes: ReadonlyArray<ParticleKeyframe<unknown>>): void {
+    if (keyframes.length === 0) {
+        throw new Error(`Curve "${name}" has no keyframe.`);
+    }
+    for (let i = 1; i < keyframes.length; i++) {
+        if (keyframes[i]!.t < keyframes[i - 1]!.t) {
+            throw new Error(`Keyframes of curve "${name}" are not sorted.`);
+        }
+    }
+}
+
+function validateParticleEmitterDescription(description: ParticleEmitterDescription): void {
+    if (description.maxParticles <= 0 || !Number.isInteger(description.maxParticles)) {
+        throw new Error(`Invalid maxParticles "${description.maxParticles}".`);
+    }
+    if (typeof description.spawn.duration !== 'undefined' && description.spawn.duration <= 0) {
+        throw new Error(`Invalid spawn duration "${description.spawn.duration}".`);
+    }
+    const shape = description.shape;
+    if (shape?.type === 'box' && shape.spread && (shape.spread.x < 0 || shape.spread.y < 0 || shape.spread.z < 0)) {
+        throw new Error(`Invalid box spread "${shape.spread.x}x${shape.spread.y}x${shape.spread.z}".`);
+    }
+    const curves: Record<string, ParticleCurve | ParticleColorCurve | undefined> = {
+        size: description.size?.overLife,
+        color: description.color,
+        alpha: description.alpha,
+    };
+    for (const [name, curve] of Object.entries(curves)) {
+        if (typeof curve === 'object') {
+            validateKeyframes(name, curve);
+        }
+    }
+    if (description.spritesheet) {
+        const { size } = description.spritesheet;
+        if (size.x < 1 || size.y < 1 || !Number.isInteger(size.x) || !Number.isInteger(size.y)) {
+            throw new Error(`Invalid spritesheet size "${size.x}x${size.y}".`);
+        }
+    }
+}
+
+export {
+    evaluateParticleCurve,
+    ParticleColorCurveEvaluator,
+    sampleParticleRange,
+    validateParticleEmitterDescription,
+    type ParticleColor,
+    type ParticleColorCurve,
+    type ParticleCurve,
+    type ParticleEmitterDescription,
+    type ParticleEmitterShape,
+    type ParticleKeyframe,
+    type ParticleRange,
+};
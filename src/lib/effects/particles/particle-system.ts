@@ -0,0 +1,357 @@
+import * as THREE from '../../libs/three-usage';
+import { InstancedBillboard } from '../billboard/instanced-billboard';
+import { SpritesheetAnimator } from '../spritesheet-animation';
+
+import {
+    evaluateParticleCurve,
+    ParticleColorCurveEvaluator,
+    sampleParticleRange,
+    validateParticleEmitterDescription,
+    type ParticleEmitterDescription,
+    type ParticleEmitterShape,
+} from './particle-emitter-description';
+
+type Particle = {
+    readonly position: THREE.Vector3;
+    readonly velocity: THREE.Vector3;
+    /** In seconds. */
+    age: number;
+    /** In seconds. */
+    lifetime: number;
+    size: number;
+    rotation: number;
+    rotationSpeed: number;
+    startFrame: number;
+};
+
+type Parameters = {
+    readonly description: ParticleEmitterDescription;
+    /** When omitted, the particles are drawn as soft discs. */
+    readonly texture?: THREE.Texture;
+};
+
+/**
+ * Particles emitter driven by a "ParticleEmitterDescription".
+ * Particles are simulated on the CPU in the local space of the container, and rendered through an "InstancedBillboard".
+ */
+class ParticleSystem {
+    public readonly container: THREE.Object3D;
+
+    private readonly description: ParticleEmitterDescription;
+    private readonly bursts: ReadonlyArray<{ readonly time: number; readonly count: number }>;
+    private readonly colorCurve: ParticleColorCurveEvaluator;
+
+    private readonly instancedBillboard: InstancedBillboard;
+
+    /** The alive particles are the first "aliveCount" ones. */
+    private readonly particles: Particle[] = [];
+    private aliveCount: number = 0;
+
+    private emission: {
+        /** Time elapsed since the start of the current emission cycle, in seconds. */
+        cycleTime: number;
+        /** Fraction of particle carried over from one update to the next, so that low spawn rates still spawn particles. */
+        spawnAccumulator: number;
+        nextBurstIndex: number;
+    } | null = null;
+
+    private lastUpdateTimestamp = performance.now();
+
+    private readonly tmpColor = new THREE.Color();
+    private readonly colorAttributeValue = [0, 0, 0, 0];
+    private readonly frameAttributeValue = [0, 0, 0];
+
+    /** Plays a single animation going through all the frames of the spritesheet. */
+    private readonly spritesheetAnimator: SpritesheetAnimator | null = null;
+
+    public constructor(params: Parameters) {
+        validateParticleEmitterDescription(params.description);
+        this.description = params.description;
+        this.bursts = [...(params.description.spawn.bursts ?? [])].sort((burst1, burst2) => burst1.time - burst2.time);
+        this.colorCurve = new ParticleColorCurveEvaluator(params.description.color ?? '#ffffff');
+
+        const alphaTest = params.description.rendering?.alphaTest ?? 0.01;
+
+        let getSampledColorCode: string;
+        if (params.texture) {
+            const spritesheet = params.description.spritesheet;
+            const spritesheetSize = spritesheet?.size ?? { x: 1, y: 1 };
+            const framesCount = spritesheetSize.x * spritesheetSize.y;
+            const mode = spritesheet?.mode ?? 'once';
+            this.spritesheetAnimator = new SpritesheetAnimator({
+                spritesheet: { texture: params.texture, size: spritesheetSize },
+                animations: {
+                    particle: {
+                        firstFrame: 0,
+                        lastFrame: framesCount - 1,
+                        // when the frames are spread over the life, the animation is played with the normalized age as time
+                        framesPerSecond: spritesheet?.framesPerSecond ?? framesCount,
+                        // played once from a random frame, the frames wrap around to the first one: "computeSpritesheetTime()" stops the loop
+                        mode: mode === 'once' && spritesheet?.randomStartFrame ? 'loop' : mode,
+                    },
+                },
+                frameBlending: spritesheet?.frameBlending ?? false,
+            });
+            getSampledColorCode = `
+${this.spritesheetAnimator.glslSampleCode}
+vec4 sampled = spritesheetColor;
+`;
+        } else {
+            getSampledColorCode = `
+vec4 sampled = vec4(1, 1, 1, 1.0 - smoothstep(0.3, 0.5, length(uv - 0.5)));
+`;
+        }
+
+        this.instancedBillboard = new InstancedBillboard({
+            maxInstancesCount: params.description.maxParticles,
+            rendering: {
+                material: 'Basic',
+                blending: params.description.rendering?.blending === 'additive' ? THREE.AdditiveBlending : THREE.NormalBlending,
+                depthWrite: false,
+                transparent: true,
+                shadows: {
+                    receive: false,
+                },
+                uniforms: this.spritesheetAnimator?.uniforms ?? {},
+                attributes: {
+                    particleColor: { type: 'vec4' },
+                    ...this.spritesheetAnimator?.attributes,
+                },
+                fragmentCode: `
+${getSampledColorCode}
+vec4 color = sampled * particleColor;
+if (color.a < ${alphaTest.toFixed(3)}) {
+    discard;
+}
+return color;
+`,
+            },
+        });
+        this.container = this.instancedBillboard.container;
+
+        for (let i = 0; i < params.description.maxParticles; i++) {
+            this.particles.push({
+                position: new THREE.Vector3(),
+                velocity: new THREE.Vector3(),
+                age: 0,
+                lifetime: 0,
+                size: 0,
+                rotation: 0,
+                rotationSpeed: 0,
+                startFrame: 0,
+            });
+        }
+    }
+
+    public get aliveParticlesCount(): number {
+        return this.aliveCount;
+    }
+
+    public get isEmitting(): boolean {
+        return this.emission !== null;
+    }
+
+    /** Starts a new emission cycle. Particles already alive are kept. */
+    public start(): void {
+        this.emission = {
+            cycleTime: 0,
+            spawnAccumulator: 0,
+            nextBurstIndex: 0,
+        };
+    }
+
+    /** Stops spawning particles. Particles already alive live until the end of their lifetime. */
+    public stop(): void {
+        this.emission = null;
+    }
+
+    /**
+     * Immediately spawns particles, regardless of whether the emitter is started.
+     * @param origin Where to center the shape, in the local space of the container. Defaults to the origin.
+     */
+    public burst(count: number, origin?: THREE.Vector3Like): void {
+        for (let i = 0; i < count && this.aliveCount < this.particles.length; i++) {
+            const particle = this.particles[this.aliveCount]!;
+            this.spawnParticle(particle);
+            if (origin) {
+                particle.position.add(origin);
+            }
+            this.aliveCount++;
+        }
+    }
+
+    public update(): void {
+        const now = performance.now();
+        // avoid a huge step when the page was in the background
+        const deltaTime = Math.min(0.1, (now - this.lastUpdateTimestamp) / 1000);
+        this.lastUpdateTimestamp = now;
+
+        this.updateEmission(deltaTime);
+        this.updateParticles(deltaTime);
+        this.updateInstances();
+    }
+
+    private updateEmission(deltaTime: number): void {
+        const rate = this.description.spawn.rate ?? 0;
+        const duration = this.description.spawn.duration ?? Infinity;
+
+        let remainingTime = deltaTime;
+        while (this.emission && remainingTime > 0) {
+            const emission = this.emission;
+            const stepDuration = Math.min(remainingTime, duration - emission.cycleTime);
+            const stepEnd = emission.cycleTime + stepDuration;
+
+            emission.spawnAccumulator += rate * stepDuration;
+            const spawnedCount = Math.floor(emission.spawnAccumulator);
+            emission.spawnAccumulator -= spawnedCount;
+            this.burst(spawnedCount);
+
+            while (emission.nextBurstIndex < this.bursts.length && this.bursts[emission.nextBurstIndex]!.time < stepEnd) {
+                this.burst(this.bursts[emission.nextBurstIndex]!.count);
+                emission.nextBurstIndex++;
+            }
+
+            emission.cycleTime = stepEnd;
+            remainingTime -= stepDuration;
+
+            if (emission.cycleTime >= duration) {
+                if (this.description.spawn.loop) {
+                    emission.cycleTime = 0;
+                    emission.nextBurstIndex = 0;
+                } else {
+                    this.emission = null;
+                }
+            }
+        }
+    }
+
+    private updateParticles(deltaTime: number): void {
+        const gravity = this.description.velocity?.gravity ?? 0;
+        const dragFactor = Math.max(0, 1 - (this.description.velocity?.drag ?? 0) * deltaTime);
+
+        for (let iP = 0; iP < this.aliveCount; iP++) {
+            const particle = this.particles[iP]!;
+
+            particle.age += deltaTime;
+            if (particle.age >= particle.lifetime) {
+                // keep the alive particles contiguous
+                const lastAliveId = this.aliveCount - 1;
+                this.particles[iP] = this.particles[lastAliveId]!;
+                this.particles[lastAliveId] = particle;
+                this.aliveCount--;
+                iP--;
+                continue;
+            }
+
+            particle.velocity.y -= gravity * deltaTime;
+            particle.velocity.multiplyScalar(dragFactor);
+            particle.position.addScaledVector(particle.velocity, deltaTime);
+            particle.rotation += particle.rotationSpeed * deltaTime;
+        }
+    }
+
+    private updateInstances(): void {
+        const sizeOverLife = this.description.size?.overLife ?? 1;
+        const alphaOverLife = this.description.alpha ?? 1;
+
+        this.instancedBillboard.setInstancesCount(this.aliveCount);
+        for (let iP = 0; iP < this.aliveCount; iP++) {
+            const particle = this.particles[iP]!;
+            const life = particle.age / particle.lifetime;
+
+            const size = particle.size * evaluateParticleCurve(sizeOverLife, life);
+            this.instancedBillboard.setInstancePosition(iP, particle.position);
+            this.instancedBillboard.setInstanceTransform(iP, particle.rotation, { x: size, y: size });
+
+            const color = this.colorCurve.evaluate(life, this.tmpColor);
+            this.colorAttributeValue[0] = color.r;
+            this.colorAttributeValue[1] = color.g;
+            this.colorAttributeValue[2] = color.b;
+            this.colorAttributeValue[3] = evaluateParticleCurve(alphaOverLife, life);
+            this.instancedBillboard.setInstanceCustomAttribute(iP, 'particleColor', this.colorAttributeValue);
+
+            if (this.spritesheetAnimator) {
+                const spritesheetTime = this.computeSpritesheetTime(particle, life);
+                this.spritesheetAnimator.computeFrameAttribute('particle', spritesheetTime, this.frameAttributeValue);
+                this.instancedBillboard.setInstanceCustomAttribute(iP, this.spritesheetAnimator.attributeName, this.frameAttributeValue);
+            }
+        }
+    }
+
+    private computeSpritesheetTime(particle: Particle, life: number): number {
+        const spritesheet = this.description.spritesheet;
+        const framesCount = spritesheet ? spritesheet.size.x * spritesheet.size.y : 1;
+        const framesPerSecond = spritesheet?.framesPerSecond ?? framesCount;
+        let time = typeof spritesheet?.framesPerSecond === 'undefined' ? life : particle.age;
+        if ((spritesheet?.mode ?? 'once') === 'once') {
+            // stop on the frame before the start frame, once all the frames were played
+            time = Math.min(time, (framesCount - 1) / framesPerSecond);
+        }
+        return time + particle.startFrame / framesPerSecond;
+    }
+
+    private spawnParticle(particle: Particle): void {
+        const direction = this.sampleShape(this.description.shape ?? { type: 'point' }, particle.position);
+
+        const velocity = this.description.velocity;
+        particle.velocity.copy(direction).multiplyScalar(sampleParticleRange(velocity?.speed ?? 0));
+        if (velocity?.constant) {
+            particle.velocity.add(velocity.constant);
+        }
+
+        particle.age = 0;
+        particle.lifetime = sampleParticleRange(this.description.lifetime);
+        particle.size = sampleParticleRange(this.description.size?.initial ?? 1);
+        particle.rotation = sampleParticleRange(this.description.rotation?.initial ?? 0);
+        particle.rotationSpeed = sampleParticleRange(this.description.rotation?.speed ?? 0);
+
+        const spritesheet = this.description.spritesheet;
+        particle.startFrame = spritesheet?.randomStartFrame ? Math.floor(spritesheet.size.x * spritesheet.size.y * Math.random()) : 0;
+    }
+
+    /**
+     * @param position Set to a random position inside of the shape.
+     * @returns The normalized direction of the initial speed for a particle spawned at this position.
+     */
+    private sampleShape(shape: ParticleEmitterShape, position: THREE.Vector3): THREE.Vector3 {
+        switch (shape.type) {
+            case 'point': {
+                position.set(0, 0, 0);
+                return new THREE.Vector3().randomDirection();
+            }
+            case 'sphere': {
+                const direction = new THREE.Vector3().randomDirection();
+                const distance = shape.surface ? shape.radius : shape.radius * Math.cbrt(Math.random());
+                position.copy(direction).multiplyScalar(distance);
+                return direction;
+            }
+            case 'box': {
+                position.set(Math.random() - 0.5, Math.random() - 0.5, Math.random() - 0.5).multiply(shape.size);
+                const direction = new THREE.Vector3().copy(shape.direction ?? { x: 0, y: 1, z: 0 });
+                if (shape.spread) {
+                    direction.add({
+                        x: shape.spread.x * (2 * Math.random() - 1),
+                        y: shape.spread.y * (2 * Math.random() - 1),
+                        z: shape.spread.z * (2 * Math.random() - 1),
+                    });
+                }
+                return direction.normalize();
+            }
+            case 'cone': {
+                const radius = (shape.radius ?? 0) * Math.sqrt(Math.random());
+                const positionAngle = 2 * Math.PI * Math.random();
+                position.set(radius * Math.cos(positionAngle), 0, radius * Math.sin(positionAngle));
+
+                // uniform on the spherical cap
+                const cosTheta = 1 - Math.random() * (1 - Math.cos((shape.angle * Math.PI) / 180));
+                const sinTheta = Math.sqrt(1 - cosTheta * cosTheta);
+                const phi = 2 * Math.PI * Math.random();
+                return new THREE.Vector3(sinTheta * Math.cos(phi), cosTheta, sinTheta * Math.sin(phi));
+            }
+            default:
+                throw new Error(`Unsupported particle emitter shape "${(shape as { type: string }).type}".`);
+        }
+    }
+}
+
+export { ParticleSystem };
@@ -2,15 +2,25 @@ import { logger } from '../../helpers/logger';
 import { copyMap } from '../../helpers/misc';
 import { applyReplacements } from '../../helpers/string';
 import * as THREE from '../../libs/three-usage';
+import { attributeSizes, type CustomAttributesDefinition } from '../billboard/instanced-billboard-batch';
+import { windGustGlslCode, type Wind } from '../weather/wind';
 
 type PropsMaterial = {
     readonly material: THREE.MeshPhongMaterial;
     readonly uniforms: {
         uPlayerViewPosition: THREE.IUniform<THREE.Vector3>;
+        uInteractors: THREE.IUniform<THREE.Vector4[]>;
+        uInteractorsStrength: THREE.IUniform<number[]>;
+        uInteractorsCount: THREE.IUniform<number>;
         uViewRadius: THREE.IUniform<number>;
         uViewRadiusMargin: THREE.IUniform<number>;
         uTime: THREE.IUniform<number>;
         uWindStrength: THREE.IUniform<number>;
+        uWindDirection: THREE.IUniform<THREE.Vector2>;
+        uWindSpeed: THREE.IUniform<number>;
+        uWindGustFrequency: THREE.IUniform<number>;
+        uWindTurbulence: THREE.IUniform<number>;
+        uWindTime: THREE.IUniform<number>;
     };
 };
 
@@ -28,8 +38,31 @@ function buildNoiseTexture(resolution: number): THREE.DataTexture {
     return texture;
 }
 
-function customizeMaterial(phongMaterial: THREE.MeshPhongMaterial, playerReactive: boolean, windReactive: boolean): PropsMaterial {
-    phongMaterial.customProgramCacheKey = () => `prop_phong_material`;
+type MaterialOptions = {
+    readonly playerReactive: boolean;
+    readonly windReactive: boolean;
+    readonly billboard: boolean;
+    readonly spritesheetSize: THREE.Vector2Like | null;
+    readonly maxInteractorsCount: number;
+    readonly customAttributes: CustomAttributesDefinition;
+    readonly customFragmentCode: string | null;
+};
+
+function customizeMaterial(phongMaterial: THREE.MeshPhongMaterial, options: MaterialOptions): PropsMaterial {
+    const { playerReactive, windReactive, billboard, spritesheetSize, maxInteractorsCount, customAttributes, customFragmentCode } = options;
+    const spritesheetDimensions = spritesheetSize ?? { x: 1, y: 1 };
+    const customAttributesList = Object.entries(customAttributes);
+    const cacheKey = [
+        'prop_phong_material',
+        playerReactive,
+        windReactive,
+        billboard,
+        maxInteractorsCount,
+        spritesheetSize ? `${spritesheetSize.x}x${spritesheetSize.y}` : '',
+        JSON.stringify(customAttributes),
+        customFragmentCode ?? '',
+    ].join('_');
+    phongMaterial.customProgramCacheKey = () => cacheKey;
 
     const noiseTextureSize = 64;
     const noiseTexture = buildNoiseTexture(noiseTextureSize);
@@ -40,10 +73,18 @@ function customizeMaterial(phongMaterial: THREE.MeshPhongMaterial, playerReactiv
     const customUniforms = {
         uNoiseTexture: { value: noiseTexture },
         uPlayerViewPosition: { value: new THREE.Vector3(Infinity, Infinity, Infinity) },
+        uInteractors: { value: Array.from({ length: maxInteractorsCount }, () => new THREE.Vector4()) },
+        uInteractorsStrength: { value: new Array<number>(maxInteractorsCount).fill(0) },
+        uInteractorsCount: { value: 0 },
         uViewRadius: { value: 10 },
         uViewRadiusMargin: { value: 2 },
         uTime: { value: 0 },
         uWindStrength: { value: 0.03 },
+        uWindDirection: { value: new THREE.Vector2(1, 0) },
+        uWindSpeed: { value: 0 },
+        uWindGustFrequency: { value: 0 },
+        uWindTurbulence: { value: 0 },
+        uWindTime: { value: 0 },
     };
 
     phongMaterial.onBeforeCompile = parameters => {
@@ -61,25 +102,62 @@ function customizeMaterial(phongMaterial: THREE.MeshPhongMaterial, playerReactiv
         if (windReactive) {
             parameters.defines[windReactiveKey] = true;
         }
+        const billboardKey = 'BILLBOARD';
+        if (billboard) {
+            parameters.defines[billboardKey] = true;
+        }
+        const spritesheetKey = 'SPRITESHEET';
+        if (spritesheetSize) {
+            parameters.defines[spritesheetKey] = true;
+        }
 
         parameters.vertexShader = applyReplacements(parameters.vertexShader, {
             'void main() {': `
                 #ifdef ${playerReactiveKey}
                 uniform vec3 uPlayerViewPosition;
+                uniform vec4 uInteractors[${maxInteractorsCount}]; // world position + radius
+                uniform float uInteractorsStrength[${maxInteractorsCount}];
+                uniform int uInteractorsCount;
                 #endif
 
                 uniform float uViewRadius;
                 uniform float uViewRadiusMargin;
 
+                in vec2 aPropsSensitivity; // to the wind, to the interactions
+                in float aPropsVisibility;
+
+                ${customAttributesList.map(([name, definition]) => `in ${definition.type} a_${name};\nout ${definition.type} v_${name};`).join('\n')}
+
                 #ifdef ${windReactiveKey}
                 uniform float uTime; // in [0, 1000]
-                uniform float uWindStrength;
+                uniform float uWindStrength; // idle sway
+                uniform vec2 uWindDirection;
+                uniform float uWindSpeed;
+                uniform float uWindGustFrequency;
+                uniform float uWindTurbulence;
+                uniform float uWindTime;
+
+                ${windGustGlslCode}
                 #endif
 
                 out float vDissolveRatio;
                    
                 void main() {
             `,
+            // each instance displays a single frame of the spritesheet, picked from its position
+            '#include <uv_vertex>': `
+                #include <uv_vertex>
+
+                #if defined(${spritesheetKey}) && defined(USE_MAP) && defined(USE_INSTANCING)
+                {
+                    const vec2 spritesheetSize = vec2(${spritesheetDimensions.x.toFixed(1)}, ${spritesheetDimensions.y.toFixed(1)});
+                    float frameRandom = fract(sin(dot(instanceMatrix[3].xyz, vec3(12.9898, 78.233, 37.719))) * 43758.5453);
+                    float frameId = min(floor(frameRandom * spritesheetSize.x * spritesheetSize.y), spritesheetSize.x * spritesheetSize.y - 1.0);
+                    vec2 frameCoords = vec2(mod(frameId, spritesheetSize.x), floor(frameId / spritesheetSize.x));
+                    vMapUv = (vMapUv + frameCoords) / spritesheetSize;
+                }
+                #endif
+            `,
             // https://github.com/mrdoob/three.js/blob/dev/src/renderers/shaders/ShaderChunk/project_vertex.glsl.js
             '#include <project_vertex>': `
                 vec4 mvPosition = vec4( transformed, 1.0 );
@@ -91,17 +169,25 @@ function customizeMaterial(phongMaterial: THREE.MeshPhongMaterial, playerReactiv
                 float canBeDisplaced = step(0.2, mvPosition.y);
 
                 #ifdef ${windReactiveKey}
-                mvPosition.x += canBeDisplaced * uWindStrength * cos(
+                mvPosition.x += canBeDisplaced * aPropsSensitivity.x * uWindStrength * cos(
                     0.5 * float(gl_InstanceID % 100) + uTime / 1000.0 * ${2 * Math.PI}
                 );
                 #endif
 
-                #ifdef USE_INSTANCING
-                    mvPosition = instanceMatrix * mvPosition;
+                #if defined(USE_INSTANCING) && defined(${billboardKey})
+                    // the quad is kept vertical and faces the camera, only the scale of the instance is used
+                    vec3 billboardOffset = mvPosition.xyz * length(instanceMatrix[1].xyz);
+                    mvPosition = modelViewMatrix * instanceMatrix * vec4(0, 0, 0, 1);
+                    vec3 viewUp = normalize((viewMatrix * vec4(0, 1, 0, 0)).xyz);
+                    mvPosition.xyz += billboardOffset.x * vec3(1, 0, 0) + billboardOffset.y * viewUp;
+                #else
+                    #ifdef USE_INSTANCING
+                        mvPosition = instanceMatrix * mvPosition;
+                    #endif
+
+                    mvPosition = modelViewMatrix * mvPosition;
                 #endif
 
-                mvPosition = modelViewMatrix * mvPosition;
-
                 vec4 viewX = viewMatrix * vec4(1, 0, 0, 0);
                 vec4 viewZ = viewMatrix * vec4(0, 0, 1, 0);
 
@@ -111,14 +197,41 @@ function customizeMaterial(phongMaterial: THREE.MeshPhongMaterial, playerReactiv
                 const float playerRadius = 0.6;
                 vec3 displacementViewspace = fromPlayer / fromPlayerLength * (playerRadius - fromPlayerLength)
                     * step(fromPlayerLength, playerRadius) * canBeDisplaced;
+                for (int iInteractor = 0; iInteractor < uInteractorsCount; iInteractor++) {
+                    vec4 interactor = uInteractors[iInteractor];
+                    vec3 fromInteractor = mvPosition.xyz - (viewMatrix * vec4(interactor.xyz, 1)).xyz;
+                    float fromInteractorLength = length(fromInteractor) + 0.00001;
+                    displacementViewspace += fromInteractor / fromInteractorLength * (interactor.w - fromInteractorLength)
+                        * step(fromInteractorLength, interactor.w) * uInteractorsStrength[iInteractor] * canBeDisplaced;
+                }
+                displacementViewspace *= aPropsSensitivity.y;
                 mvPosition.xyz += 
                     viewX.xyz * dot(displacementViewspace, viewX.xyz) +
                     viewZ.xyz * dot(displacementViewspace, viewZ.xyz);
                 #endif
 
+                #ifdef ${windReactiveKey}
+                {
+                    // the props lean in the direction of the global wind, proportionally to the height of the vertex
+                    #ifdef USE_INSTANCING
+                        vec2 propWorldPositionXZ = (modelMatrix * instanceMatrix * vec4(0, 0, 0, 1)).xz;
+                    #else
+                        vec2 propWorldPositionXZ = modelMatrix[3].xz;
+                    #endif
+                    float gustFactor = computeWindGustFactor(propWorldPositionXZ, uWindDirection, uWindGustFrequency, uWindTurbulence, uWindTime);
+                    float lean = canBeDisplaced * aPropsSensitivity.x * transformed.y * min(0.02 * uWindSpeed * gustFactor, 0.8);
+                    mvPosition.xyz += lean * (viewMatrix * vec4(uWindDirection.x, 0, uWindDirection.y, 0)).xyz;
+                }
+                #endif
+
                 vDissolveRatio = smoothstep(uViewRadius - uViewRadiusMargin, uViewRadius, length(mvPosition.xyz));
 
                 gl_Position = projectionMatrix * mvPosition;
+                if (aPropsVisibility < 0.5) {
+                    gl_Position = vec4(2, 2, 2, 1); // outside of the clip volume
+                }
+
+                ${customAttributesList.map(([name]) => `v_${name} = a_${name};`).join('\n')}
                 `,
         });
 
@@ -128,12 +241,19 @@ function customizeMaterial(phongMaterial: THREE.MeshPhongMaterial, playerReactiv
 
                 in float vDissolveRatio;
 
+                ${customAttributesList.map(([name, definition]) => `in ${definition.type} v_${name};`).join('\n')}
+
                 void main() {
                     float noise = texture(uNoiseTexture, gl_FragCoord.xy / ${noiseTextureSize.toFixed(1)}).r;
                     if (noise < vDissolveRatio) {
                         discard;
                     }
                 `,
+            '#include <color_fragment>': `
+                #include <color_fragment>
+
+                ${customFragmentCode ?? ''}
+                `,
         });
     };
     return {
@@ -148,14 +268,53 @@ type PropsBatchStatistics = {
     groupsCount: number;
     boundingSphereRadius: number;
     buffersSizeInBytes: number;
+    instancesUsedByLevel: number[];
+};
+
+type LevelOfDetail = {
+    readonly bufferGeometry: THREE.BufferGeometry;
+    readonly material: THREE.MeshPhongMaterial;
+    /** Instances further than this distance from the camera use the next level. Ignored for the last level. */
+    readonly maxDistance: number;
+    readonly billboard: boolean;
+};
+
+/** Actor bending the props around it. */
+type PropsInteractor = {
+    readonly position: THREE.Vector3Like;
+    readonly radius: number;
+    /** 1 pushes the props to the border of the radius. */
+    readonly strength: number;
+};
+
+type PropsInstanceData = {
+    /** Multiplies the color of the material. Defaults to white. */
+    readonly color?: { readonly r: number; readonly g: number; readonly b: number };
+    /** Multiplies the effect of the wind. Defaults to 1. */
+    readonly windSensitivity?: number;
+    /** Multiplies the effect of the player and the interactors. Defaults to 1. */
+    readonly interactionSensitivity?: number;
+    /** Values of the custom attributes declared for the props. Missing attributes are filled with 0. */
+    readonly customAttributes?: Readonly<Record<string, ReadonlyArray<number>>>;
+};
+
+type PropsBatchRaycastHit = {
+    /** Index of the instance among the instances of the group stored in this batch. */
+    readonly instanceIndex: number;
+    readonly distance: number;
+    readonly point: THREE.Vector3;
 };
 
 type Parameters = {
     readonly maxInstancesCount: number;
+    readonly maxInteractorsCount: number;
     readonly reactToPlayer: boolean;
     readonly reactToWind: boolean;
-    readonly bufferGeometry: THREE.BufferGeometry;
-    readonly material: THREE.MeshPhongMaterial;
+    readonly spritesheetSize: THREE.Vector2Like | null;
+    readonly customAttributes: CustomAttributesDefinition;
+    readonly customFragmentCode: string | null;
+    /** Sorted by increasing max distance. */
+    readonly levels: ReadonlyArray<LevelOfDetail>;
 };
 
 type GroupDefinition = {
@@ -163,37 +322,163 @@ type GroupDefinition = {
     readonly count: number;
 };
 
-class PropsBatch {
-    public get container(): THREE.InstancedMesh {
-        return this.instancedMesh;
+type Level = {
+    readonly maxDistance: number;
+    readonly instancedMesh: THREE.InstancedMesh;
+    readonly material: PropsMaterial;
+};
+
+/** Per-instance data of all the instances, whatever their level. Shared with the only level when there is a single one. */
+type InstancesBuffer = {
+    readonly size: number;
+    readonly data: Float32Array;
+    readonly levelsAttributes: ReadonlyArray<THREE.InstancedBufferAttribute>;
+};
+
+/** Each batch needs its own geometry to hold its instanced attributes. The vertex attributes themselves are shared. */
+function createBatchGeometry(sourceGeometry: THREE.BufferGeometry): THREE.BufferGeometry {
+    const geometry = new THREE.BufferGeometry();
+    for (const [name, attribute] of Object.entries(sourceGeometry.attributes)) {
+        geometry.setAttribute(name, attribute);
+    }
+    geometry.setIndex(sourceGeometry.index);
+    for (const group of sourceGeometry.groups) {
+        geometry.addGroup(group.start, group.count, group.materialIndex);
+    }
+    if (!sourceGeometry.boundingSphere) {
+        sourceGeometry.computeBoundingSphere();
+    }
+    geometry.boundingSphere = sourceGeometry.boundingSphere!.clone();
+    return geometry;
+}
+
+/** Uploads the given instances of the attribute, in addition to the ranges already waiting to be uploaded. */
+function requestInstancesUpload(attribute: THREE.InstancedBufferAttribute, fromInstance: number, toInstance: number): void {
+    if (toInstance > fromInstance) {
+        attribute.addUpdateRange(attribute.itemSize * fromInstance, attribute.itemSize * (toInstance - fromInstance));
+        attribute.needsUpdate = true;
     }
+}
+
+class PropsBatch {
+    /** Distance the camera has to move before the levels of detail of the instances are checked again. */
+    private static readonly levelsOfDetailUpdateDistance = 1;
 
-    public readonly playerViewPosition = new THREE.Vector3();
+    public readonly container: THREE.Object3D;
+
+    public readonly playerViewPosition = new THREE.Vector3(Infinity, Infinity, Infinity);
+
+    private wind: Wind | null = null;
+
+    private readonly maxInteractorsCount: number;
+    private readonly interactorsPositions: THREE.Vector4[];
+    private readonly interactorsStrengths: number[];
 
     private readonly maxInstancesCount: number;
-    private readonly instancedMesh: THREE.InstancedMesh;
+    private instancesCount: number = 0;
+
+    private readonly levels: ReadonlyArray<Level>;
+    private readonly instancesMatrices: InstancesBuffer;
+    private readonly instancesColors: InstancesBuffer;
+    private readonly instancesSensitivities: InstancesBuffer;
+    private readonly instancesVisibilities: InstancesBuffer;
+    private readonly instancesCustomAttributes: ReadonlyMap<string, InstancesBuffer>;
+    /** Level of detail each instance was routed to, and its index among the instances of this level. */
+    private readonly instancesLevels: Uint8Array;
+    private readonly instancesSlots: Uint32Array;
+    private readonly boundingSphereOfGeometry: THREE.Sphere;
+    /** Used to raycast the instances against the geometry of the first level. Null for billboards, which are raycasted as spheres. */
+    private readonly raycastMesh: THREE.Mesh | null;
+    private boundingSphereOfInstances: THREE.Sphere | null = null;
+    private lastCameraWorldPosition: THREE.Vector3 | null = null;
 
-    private readonly material: PropsMaterial;
     private readonly groupsDefinitions: Map<string, GroupDefinition>;
 
     public constructor(params: Parameters) {
         this.maxInstancesCount = params.maxInstancesCount;
 
-        this.material = customizeMaterial(params.material, params.reactToPlayer, params.reactToWind);
-        this.playerViewPosition = this.material.uniforms.uPlayerViewPosition.value;
-        this.groupsDefinitions = new Map();
+        this.maxInteractorsCount = params.maxInteractorsCount;
+        this.interactorsPositions = Array.from({ length: this.maxInteractorsCount }, () => new THREE.Vector4());
+        this.interactorsStrengths = new Array<number>(this.maxInteractorsCount).fill(0);
+
+        this.container = new THREE.Group();
+        this.container.name = 'props-batch';
+
+        const firstLevel = params.levels[0];
+        if (!firstLevel) {
+            throw new Error(`A props batch needs at least one level of detail.`);
+        }
+
+        this.levels = params.levels.map((levelOfDetail: LevelOfDetail, index: number) => {
+            const material = customizeMaterial(levelOfDetail.material, {
+                playerReactive: params.reactToPlayer,
+                windReactive: params.reactToWind,
+                billboard: levelOfDetail.billboard,
+                spritesheetSize: params.spritesheetSize,
+                maxInteractorsCount: this.maxInteractorsCount,
+                customAttributes: params.customAttributes,
+                customFragmentCode: params.customFragmentCode,
+            });
+            material.uniforms.uPlayerViewPosition.value = this.playerViewPosition;
+            material.uniforms.uInteractors.value = this.interactorsPositions;
+            material.uniforms.uInteractorsStrength.value = this.interactorsStrengths;
+
+            const geometry = createBatchGeometry(levelOfDetail.bufferGeometry);
+            const instancedMesh = new THREE.InstancedMesh(geometry, material.material, this.maxInstancesCount);
+            instancedMesh.instanceColor = new THREE.InstancedBufferAttribute(new Float32Array(3 * this.maxInstancesCount), 3);
+            instancedMesh.receiveShadow = true;
+            instancedMesh.castShadow = false;
+            instancedMesh.name = `props-batch-level-${index}`;
+            instancedMesh.count = 0;
+            this.container.add(instancedMesh);
+
+            return { maxDistance: levelOfDetail.maxDistance, instancedMesh, material };
+        });
+
+        const createInstancesBuffer = (size: number, getLevelAttribute: (level: Level) => THREE.InstancedBufferAttribute) => {
+            const levelsAttributes = this.levels.map(getLevelAttribute);
+            const data =
+                this.levels.length === 1 ? (levelsAttributes[0]!.array as Float32Array) : new Float32Array(size * this.maxInstancesCount);
+            return { size, data, levelsAttributes };
+        };
+        const createGeometryInstancesBuffer = (name: string, size: number) => {
+            return createInstancesBuffer(size, level => {
+                const attribute = new THREE.InstancedBufferAttribute(new Float32Array(size * this.maxInstancesCount), size);
+                level.instancedMesh.geometry.setAttribute(name, attribute);
+                return attribute;
+            });
+        };
+
+        this.instancesMatrices = createInstancesBuffer(16, level => level.instancedMesh.instanceMatrix);
+        this.instancesColors = createInstancesBuffer(3, level => level.instancedMesh.instanceColor!);
+        this.instancesSensitivities = createGeometryInstancesBuffer('aPropsSensitivity', 2);
+        this.instancesVisibilities = createGeometryInstancesBuffer('aPropsVisibility', 1);
+        const instancesCustomAttributes = new Map<string, InstancesBuffer>();
+        for (const [name, definition] of Object.entries(params.customAttributes)) {
+            instancesCustomAttributes.set(name, createGeometryInstancesBuffer(`a_${name}`, attributeSizes[definition.type]));
+        }
+        this.instancesCustomAttributes = instancesCustomAttributes;
+        this.instancesLevels = new Uint8Array(this.maxInstancesCount);
+        this.instancesSlots = new Uint32Array(this.maxInstancesCount);
+
+        this.boundingSphereOfGeometry = this.levels[0]!.instancedMesh.geometry.boundingSphere!.clone();
+        this.raycastMesh = firstLevel.billboard ? null : new THREE.Mesh(firstLevel.bufferGeometry, firstLevel.material);
 
-        this.instancedMesh = new THREE.InstancedMesh(params.bufferGeometry, this.material.material, this.maxInstancesCount);
-        this.instancedMesh.receiveShadow = true;
-        this.instancedMesh.castShadow = false;
-        this.instancedMesh.name = 'props-batch';
-        this.instancedMesh.count = 0;
+        this.groupsDefinitions = new Map();
     }
 
-    public setInstancesGroup(groupName: string, matricesList: ReadonlyArray<THREE.Matrix4>): void {
+    public setInstancesGroup(
+        groupName: string,
+        matricesList: ReadonlyArray<THREE.Matrix4>,
+        instancesData?: ReadonlyArray<PropsInstanceData>
+    ): void {
+        if (instancesData && instancesData.length !== matricesList.length) {
+            throw new Error(`Got "${instancesData.length}" instances data for "${matricesList.length}" instances.`);
+        }
+
         if (this.groupsDefinitions.has(groupName)) {
             this.groupsDefinitions.delete(groupName);
-            this.reorderMatricesBuffer();
+            this.reorderInstancesBuffers();
         }
 
         if (matricesList.length > this.spareInstancesLeft) {
@@ -203,68 +488,396 @@ class PropsBatch {
         }
 
         const newGroup: GroupDefinition = {
-            startIndex: this.instancedMesh.count,
+            startIndex: this.instancesCount,
             count: matricesList.length,
         };
         this.groupsDefinitions.set(groupName, newGroup);
         matricesList.forEach((matrix: THREE.Matrix4, index: number) => {
-            this.instancedMesh.setMatrixAt(newGroup.startIndex + index, matrix);
+            const instanceIndex = newGroup.startIndex + index;
+            matrix.toArray(this.instancesMatrices.data, 16 * instanceIndex);
+            this.setInstanceData(instanceIndex, instancesData?.[index] ?? {});
         });
-        this.instancedMesh.instanceMatrix.needsUpdate = true;
-        this.instancedMesh.count += matricesList.length;
-        this.updateFrustumCulling();
+        this.instancesCount += matricesList.length;
+        this.onInstancesChange();
     }
 
     public deleteInstancesGroup(groupName: string): void {
         if (this.groupsDefinitions.has(groupName)) {
             this.groupsDefinitions.delete(groupName);
-            this.reorderMatricesBuffer();
-            this.updateFrustumCulling();
+            this.reorderInstancesBuffers();
+            this.onInstancesChange();
         } else {
             logger.warn(`Unknown props batch group "${groupName}".`);
         }
     }
 
+    public getGroupInstancesCount(groupName: string): number {
+        return this.groupsDefinitions.get(groupName)?.count ?? 0;
+    }
+
+    /** @returns The closest visible instance of the group hit by the ray, if any. */
+    public raycastGroup(groupName: string, raycaster: THREE.Raycaster): PropsBatchRaycastHit | null {
+        const groupDefinition = this.groupsDefinitions.get(groupName);
+        if (!groupDefinition) {
+            return null;
+        }
+
+        let closestHit: PropsBatchRaycastHit | null = null;
+        const instanceMatrix = new THREE.Matrix4();
+        const instanceSphere = new THREE.Sphere();
+        const intersections: THREE.Intersection[] = [];
+        for (let iInstance = 0; iInstance < groupDefinition.count; iInstance++) {
+            const instanceIndex = groupDefinition.startIndex + iInstance;
+            if (this.instancesVisibilities.data[instanceIndex] === 0) {
+                continue;
+            }
+            instanceMatrix.fromArray(this.instancesMatrices.data, 16 * instanceIndex);
+
+            intersections.length = 0;
+            if (this.raycastMesh) {
+                this.raycastMesh.matrixWorld.copy(instanceMatrix);
+                this.raycastMesh.raycast(raycaster, intersections);
+            } else {
+                instanceSphere.copy(this.boundingSphereOfGeometry).applyMatrix4(instanceMatrix);
+                const point = raycaster.ray.intersectSphere(instanceSphere, new THREE.Vector3());
+                if (point) {
+                    const distance = raycaster.ray.origin.distanceTo(point);
+                    if (raycaster.near <= distance && distance <= raycaster.far) {
+                        intersections.push({ distance, point, object: this.container });
+                    }
+                }
+            }
+
+            for (const intersection of intersections) {
+                if (!closestHit || intersection.distance < closestHit.distance) {
+                    closestHit = { instanceIndex: iInstance, distance: intersection.distance, point: intersection.point.clone() };
+                }
+            }
+        }
+        return closestHit;
+    }
+
+    public setInstanceVisibility(groupName: string, instanceIndex: number, visible: boolean): void {
+        const index = this.getInstanceIndex(groupName, instanceIndex);
+        const visibility = visible ? 1 : 0;
+        this.instancesVisibilities.data[index] = visibility;
+
+        // only the visibility of the instance is uploaded: it stays in the same level, at the same place
+        let levelIndex = 0;
+        let slot = index;
+        if (this.levels.length > 1) {
+            levelIndex = this.instancesLevels[index]!;
+            slot = this.instancesSlots[index]!;
+        }
+        const attribute = this.instancesVisibilities.levelsAttributes[levelIndex]!;
+        attribute.array[slot] = visibility;
+        requestInstancesUpload(attribute, slot, slot + 1);
+    }
+
+    public replaceInstance(groupName: string, instanceIndex: number, matrix: THREE.Matrix4, instanceData?: PropsInstanceData): void {
+        const index = this.getInstanceIndex(groupName, instanceIndex);
+        matrix.toArray(this.instancesMatrices.data, 16 * index);
+        this.setInstanceData(index, instanceData ?? {});
+        this.onInstancesChange();
+    }
+
+    /** The following instances of the group are shifted: their index decreases by one. */
+    public removeInstance(groupName: string, instanceIndex: number): void {
+        const index = this.getInstanceIndex(groupName, instanceIndex);
+        for (const { size, data } of this.listInstancesBuffers()) {
+            data.copyWithin(size * index, size * (index + 1), size * this.instancesCount);
+        }
+        this.instancesCount--;
+
+        const newGroupDefinitions = new Map<string, GroupDefinition>();
+        for (const [name, groupDefinition] of this.groupsDefinitions.entries()) {
+            if (name === groupName) {
+                newGroupDefinitions.set(name, { startIndex: groupDefinition.startIndex, count: groupDefinition.count - 1 });
+            } else if (groupDefinition.startIndex > index) {
+                newGroupDefinitions.set(name, { startIndex: groupDefinition.startIndex - 1, count: groupDefinition.count });
+            } else {
+                newGroupDefinitions.set(name, groupDefinition);
+            }
+        }
+        copyMap(newGroupDefinitions, this.groupsDefinitions);
+
+        this.onInstancesChange();
+    }
+
     public setViewDistance(distance: number): void {
-        this.material.uniforms.uViewRadius.value = distance;
+        for (const level of this.levels) {
+            level.material.uniforms.uViewRadius.value = distance;
+        }
     }
 
     public setViewDistanceMargin(margin: number): void {
-        this.material.uniforms.uViewRadiusMargin.value = margin;
+        for (const level of this.levels) {
+            level.material.uniforms.uViewRadiusMargin.value = margin;
+        }
+    }
+
+    public setInteractors(interactors: ReadonlyArray<PropsInteractor>): void {
+        if (interactors.length > this.maxInteractorsCount) {
+            throw new Error(`Too many interactors "${interactors.length}" (max is "${this.maxInteractorsCount}").`);
+        }
+        interactors.forEach((interactor: PropsInteractor, index: number) => {
+            this.interactorsPositions[index]!.set(interactor.position.x, interactor.position.y, interactor.position.z, interactor.radius);
+            this.interactorsStrengths[index] = interactor.strength;
+        });
+        for (const level of this.levels) {
+            level.material.uniforms.uInteractorsCount.value = interactors.length;
+        }
+    }
+
+    public setWind(wind: Wind | null): void {
+        this.wind = wind;
+    }
+
+    /**
+     * Routes each instance to the level of detail matching its distance to the camera.
+     * Nothing is done until the camera moves far enough, and only the instances after the first one that changed level are uploaded.
+     */
+    public updateLevelsOfDetail(cameraWorldPosition: THREE.Vector3Like): void {
+        if (this.lastCameraWorldPosition) {
+            if (this.lastCameraWorldPosition.distanceTo(cameraWorldPosition) < PropsBatch.levelsOfDetailUpdateDistance) {
+                return;
+            }
+        } else {
+            this.lastCameraWorldPosition = new THREE.Vector3();
+        }
+        this.lastCameraWorldPosition.copy(cameraWorldPosition);
+
+        if (this.levels.length > 1) {
+            this.rerouteInstancesChangingLevel();
+        }
     }
 
     public get spareInstancesLeft(): number {
-        return this.maxInstancesCount - this.instancedMesh.count;
+        return this.maxInstancesCount - this.instancesCount;
+    }
+
+    public get boundingSphere(): THREE.Sphere | null {
+        return this.boundingSphereOfInstances;
     }
 
     public dispose(): void {
-        this.instancedMesh.geometry.dispose();
+        for (const level of this.levels) {
+            level.instancedMesh.geometry.dispose();
+        }
     }
 
     public getStatistics(): PropsBatchStatistics {
         let buffersSizeInBytes = 0;
-        for (const attributeBuffer of Object.values(this.instancedMesh.geometry.attributes)) {
-            buffersSizeInBytes += attributeBuffer.array.byteLength;
+        for (const level of this.levels) {
+            for (const attributeBuffer of Object.values(level.instancedMesh.geometry.attributes)) {
+                buffersSizeInBytes += attributeBuffer.array.byteLength;
+            }
+            buffersSizeInBytes += level.instancedMesh.instanceColor?.array.byteLength ?? 0;
+            buffersSizeInBytes += level.instancedMesh.instanceMatrix?.array.byteLength ?? 0;
+        }
+        if (this.levels.length > 1) {
+            for (const instancesBuffer of this.listInstancesBuffers()) {
+                buffersSizeInBytes += instancesBuffer.data.byteLength;
+            }
         }
-        buffersSizeInBytes += this.instancedMesh.instanceColor?.array.byteLength ?? 0;
-        buffersSizeInBytes += this.instancedMesh.instanceMatrix?.array.byteLength ?? 0;
 
         return {
             instancesCapacity: this.maxInstancesCount,
-            instancesUsed: this.instancedMesh.count,
+            instancesUsed: this.instancesCount,
             groupsCount: this.groupsDefinitions.size,
-            boundingSphereRadius: this.instancedMesh.boundingSphere?.radius ?? Infinity,
+            boundingSphereRadius: this.boundingSphereOfInstances?.radius ?? Infinity,
             buffersSizeInBytes,
+            instancesUsedByLevel: this.levels.map(level => level.instancedMesh.count),
         };
     }
 
     public update(deltaMilliseconds: number): void {
-        this.material.uniforms.uTime.value += deltaMilliseconds / 4;
-        this.material.uniforms.uTime.value %= 1000;
+        for (const level of this.levels) {
+            level.material.uniforms.uTime.value += deltaMilliseconds / 4;
+            level.material.uniforms.uTime.value %= 1000;
+
+            const uniforms = level.material.uniforms;
+            if (this.wind) {
+                uniforms.uWindDirection.value.copy(this.wind.direction);
+                uniforms.uWindSpeed.value = this.wind.strength;
+                uniforms.uWindGustFrequency.value = this.wind.gustFrequency;
+                uniforms.uWindTurbulence.value = this.wind.turbulence;
+                uniforms.uWindTime.value = this.wind.time;
+            } else {
+                uniforms.uWindSpeed.value = 0;
+            }
+        }
+    }
+
+    private setInstanceData(instanceIndex: number, instanceData: PropsInstanceData): void {
+        for (const name of Object.keys(instanceData.customAttributes ?? {})) {
+            if (!this.instancesCustomAttributes.has(name)) {
+                throw new Error(`Unknown attribute "${name}".`);
+            }
+        }
+
+        const color = instanceData.color ?? { r: 1, g: 1, b: 1 };
+        this.instancesColors.data.set([color.r, color.g, color.b], 3 * instanceIndex);
+
+        this.instancesSensitivities.data.set(
+            [instanceData.windSensitivity ?? 1, instanceData.interactionSensitivity ?? 1],
+            2 * instanceIndex
+        );
+
+        this.instancesVisibilities.data[instanceIndex] = 1;
+
+        for (const [name, instancesBuffer] of this.instancesCustomAttributes) {
+            const value = instanceData.customAttributes?.[name];
+            if (value && value.length !== instancesBuffer.size) {
+                throw new Error(`Invalid value size for "${name}": "${value.length}", expected "${instancesBuffer.size}".`);
+            }
+            instancesBuffer.data.fill(0, instancesBuffer.size * instanceIndex, instancesBuffer.size * (instanceIndex + 1));
+            if (value) {
+                instancesBuffer.data.set(value, instancesBuffer.size * instanceIndex);
+            }
+        }
+    }
+
+    private getInstanceIndex(groupName: string, instanceIndex: number): number {
+        const groupDefinition = this.groupsDefinitions.get(groupName);
+        if (!groupDefinition) {
+            throw new Error(`Unknown props batch group "${groupName}".`);
+        }
+        if (!Number.isInteger(instanceIndex) || instanceIndex < 0 || instanceIndex >= groupDefinition.count) {
+            throw new Error(`Invalid instance index "${instanceIndex}" for group "${groupName}" of "${groupDefinition.count}" instances.`);
+        }
+        return groupDefinition.startIndex + instanceIndex;
+    }
+
+    private listInstancesBuffers(): InstancesBuffer[] {
+        return [
+            this.instancesMatrices,
+            this.instancesColors,
+            this.instancesSensitivities,
+            this.instancesVisibilities,
+            ...this.instancesCustomAttributes.values(),
+        ];
+    }
+
+    private onInstancesChange(): void {
+        this.routeInstances();
+        this.updateBoundingSphere();
+    }
+
+    /** Routes all the instances again and uploads them entirely, because their data changed. */
+    private routeInstances(): void {
+        const instancesBuffers = this.listInstancesBuffers();
+
+        if (this.levels.length === 1) {
+            // the only level directly uses the instances buffers
+            const instancedMesh = this.levels[0]!.instancedMesh;
+            instancedMesh.count = this.instancesCount;
+            for (const instancesBuffer of instancesBuffers) {
+                const attribute = instancesBuffer.levelsAttributes[0]!;
+                attribute.clearUpdateRanges();
+                requestInstancesUpload(attribute, 0, this.instancesCount);
+            }
+            this.updateFrustumCulling(instancedMesh);
+            return;
+        }
+
+        for (const level of this.levels) {
+            level.instancedMesh.count = 0;
+        }
+
+        for (let iInstance = 0; iInstance < this.instancesCount; iInstance++) {
+            const levelIndex = this.computeInstanceLevel(iInstance);
+            const slot = this.levels[levelIndex]!.instancedMesh.count++;
+            this.instancesLevels[iInstance] = levelIndex;
+            this.instancesSlots[iInstance] = slot;
+            this.copyInstanceToLevel(instancesBuffers, iInstance, levelIndex, slot);
+        }
+
+        this.levels.forEach((level: Level, levelIndex: number) => {
+            for (const instancesBuffer of instancesBuffers) {
+                const attribute = instancesBuffer.levelsAttributes[levelIndex]!;
+                attribute.clearUpdateRanges();
+                requestInstancesUpload(attribute, 0, level.instancedMesh.count);
+            }
+            this.updateFrustumCulling(level.instancedMesh);
+        });
+    }
+
+    /**
+     * The instances of each level are stored in the same order as in the instances buffers, so in a level,
+     * only the instances after the first one that entered or left the level need to be copied and uploaded.
+     */
+    private rerouteInstancesChangingLevel(): void {
+        const instancesBuffers = this.listInstancesBuffers();
+        const levelsCounts = this.levels.map(() => 0);
+        const levelsFirstChangedSlots = this.levels.map(() => Infinity);
+        for (let iInstance = 0; iInstance < this.instancesCount; iInstance++) {
+            const previousLevelIndex = this.instancesLevels[iInstance]!;
+            const levelIndex = this.computeInstanceLevel(iInstance);
+            if (levelIndex !== previousLevelIndex) {
+                // up to this instance, both levels contain the same instances as before
+                levelsFirstChangedSlots[previousLevelIndex] = Math.min(
+                    levelsFirstChangedSlots[previousLevelIndex]!,
+                    levelsCounts[previousLevelIndex]!
+                );
+                levelsFirstChangedSlots[levelIndex] = Math.min(levelsFirstChangedSlots[levelIndex]!, levelsCounts[levelIndex]!);
+                this.instancesLevels[iInstance] = levelIndex;
+            }
+
+            const slot = levelsCounts[levelIndex]!++;
+            this.instancesSlots[iInstance] = slot;
+            if (slot >= levelsFirstChangedSlots[levelIndex]!) {
+                this.copyInstanceToLevel(instancesBuffers, iInstance, levelIndex, slot);
+            }
+        }
+
+        this.levels.forEach((level: Level, levelIndex: number) => {
+            const firstChangedSlot = levelsFirstChangedSlots[levelIndex]!;
+            if (firstChangedSlot === Infinity) {
+                return;
+            }
+            level.instancedMesh.count = levelsCounts[levelIndex]!;
+            for (const instancesBuffer of instancesBuffers) {
+                requestInstancesUpload(instancesBuffer.levelsAttributes[levelIndex]!, firstChangedSlot, level.instancedMesh.count);
+            }
+            this.updateFrustumCulling(level.instancedMesh);
+        });
+    }
+
+    private computeInstanceLevel(instanceIndex: number): number {
+        if (!this.lastCameraWorldPosition) {
+            return 0;
+        }
+
+        const offset = 16 * instanceIndex;
+        const matrices = this.instancesMatrices.data;
+        const distance = Math.sqrt(
+            (matrices[offset + 12]! - this.lastCameraWorldPosition.x) ** 2 +
+                (matrices[offset + 13]! - this.lastCameraWorldPosition.y) ** 2 +
+                (matrices[offset + 14]! - this.lastCameraWorldPosition.z) ** 2
+        );
+        const lastLevelIndex = this.levels.length - 1;
+        let levelIndex = 0;
+        while (levelIndex < lastLevelIndex && distance > this.levels[levelIndex]!.maxDistance) {
+            levelIndex++;
+        }
+        return levelIndex;
+    }
+
+    private copyInstanceToLevel(
+        instancesBuffers: ReadonlyArray<InstancesBuffer>,
+        instanceIndex: number,
+        levelIndex: number,
+        slot: number
+    ): void {
+        for (const { size, data, levelsAttributes } of instancesBuffers) {
+            levelsAttributes[levelIndex]!.array.set(data.subarray(size * instanceIndex, size * (instanceIndex + 1)), size * slot);
+        }
     }
 
-    private reorderMatricesBuffer(): void {
-        const reorderedMatrices = new Float32Array(this.instancedMesh.instanceMatrix.array.length);
+    private reorderInstancesBuffers(): void {
+        const instancesBuffers = this.listInstancesBuffers();
+        const reorderedBuffers = instancesBuffers.map(instancesBuffer => new Float32Array(instancesBuffer.data.length));
 
         let instancesCount = 0;
         const newGroupDefinitions = new Map<string, GroupDefinition>();
@@ -276,23 +889,43 @@ class PropsBatch {
             newGroupDefinitions.set(groupName, newGroupDefinition);
             instancesCount += groupDefinition.count;
 
-            const groupMatrices = this.instancedMesh.instanceMatrix.array.subarray(
-                16 * groupDefinition.startIndex,
-                16 * (groupDefinition.startIndex + groupDefinition.count)
-            );
-            reorderedMatrices.set(groupMatrices, 16 * newGroupDefinition.startIndex);
+            instancesBuffers.forEach(({ size, data }, index: number) => {
+                const groupData = data.subarray(
+                    size * groupDefinition.startIndex,
+                    size * (groupDefinition.startIndex + groupDefinition.count)
+                );
+                reorderedBuffers[index]!.set(groupData, size * newGroupDefinition.startIndex);
+            });
         }
         copyMap(newGroupDefinitions, this.groupsDefinitions);
 
-        this.instancedMesh.instanceMatrix.array.set(reorderedMatrices.subarray(0, 16 * instancesCount), 0);
-        this.instancedMesh.instanceMatrix.needsUpdate = true;
-        this.instancedMesh.count = instancesCount;
+        instancesBuffers.forEach(({ size, data }, index: number) => {
+            data.set(reorderedBuffers[index]!.subarray(0, size * instancesCount), 0);
+        });
+        this.instancesCount = instancesCount;
+    }
+
+    private updateBoundingSphere(): void {
+        if (this.levels.length === 1) {
+            this.boundingSphereOfInstances = this.levels[0]!.instancedMesh.boundingSphere;
+            return;
+        }
+
+        const boundingSphere = new THREE.Sphere();
+        const instanceMatrix = new THREE.Matrix4();
+        const instanceSphere = new THREE.Sphere();
+        for (let iInstance = 0; iInstance < this.instancesCount; iInstance++) {
+            instanceMatrix.fromArray(this.instancesMatrices.data, 16 * iInstance);
+            instanceSphere.copy(this.boundingSphereOfGeometry).applyMatrix4(instanceMatrix);
+            boundingSphere.union(instanceSphere);
+        }
+        this.boundingSphereOfInstances = boundingSphere;
     }
 
-    private updateFrustumCulling(): void {
-        this.instancedMesh.computeBoundingBox();
-        this.instancedMesh.computeBoundingSphere();
+    private updateFrustumCulling(instancedMesh: THREE.InstancedMesh): void {
+        instancedMesh.computeBoundingBox();
+        instancedMesh.computeBoundingSphere();
     }
 }
 
-export { PropsBatch };
+export { PropsBatch, type LevelOfDetail, type PropsBatchRaycastHit, type PropsInstanceData, type PropsInteractor };
@@ -1,7 +1,9 @@
 import { logger } from '../../helpers/logger';
 import * as THREE from '../../libs/three-usage';
+import { type CustomAttributesDefinition } from '../billboard/instanced-billboard-batch';
+import { type Wind } from '../weather/wind';
 
-import { PropsBatch } from './props-batch';
+import { PropsBatch, type LevelOfDetail, type PropsInstanceData, type PropsInteractor } from './props-batch';
 
 type PropsHandlerStatistics = {
     batchesSize: number;
@@ -15,17 +17,69 @@ type PropsHandlerStatistics = {
 type PropsGroupProperties = {
     readonly batches: Set<PropsBatch>;
     readonly boundingSphere: THREE.Sphere;
-    readonly instancesCount: number;
+    instancesCount: number;
     invisibleSince: number | null;
 };
 
+type PropsRaycastResult = {
+    readonly groupName: string;
+    /** Index of the instance in the group, in the order of "setGroup". */
+    readonly instanceIndex: number;
+    readonly distance: number;
+    readonly point: THREE.Vector3;
+};
+
+type PropsLevelOfDetail = {
+    readonly bufferGeometry: THREE.BufferGeometry;
+    readonly material: THREE.MeshPhongMaterial;
+    /** Instances further than this distance from the camera use the next level of detail. */
+    readonly maxDistance: number;
+};
+
+/** Camera-facing quad used as the last level of detail. */
+type PropsImpostor = {
+    readonly material: THREE.MeshPhongMaterial;
+    readonly width: number;
+    readonly height: number;
+};
+
+/** Vertical quad standing on the origin, in the XY plane. */
+function buildBillboardGeometry(width: number, height: number): THREE.BufferGeometry {
+    const bufferGeometry = new THREE.BufferGeometry();
+    bufferGeometry.setAttribute(
+        'position',
+        new THREE.Float32BufferAttribute([-0.5 * width, 0, 0, 0.5 * width, 0, 0, 0.5 * width, height, 0, -0.5 * width, height, 0], 3)
+    );
+    bufferGeometry.setAttribute('uv', new THREE.Float32BufferAttribute([0, 0, 1, 0, 1, 1, 0, 1], 2));
+    // the quad always faces the camera, so it is lit like the ground it stands on
+    bufferGeometry.setAttribute('normal', new THREE.Float32BufferAttribute([0, 1, 0, 0, 1, 0, 0, 1, 0, 0, 1, 0], 3));
+    bufferGeometry.setIndex([0, 1, 2, 0, 2, 3]);
+    return bufferGeometry;
+}
+
 type Parameters = {
     readonly batchSize?: number;
     readonly minGroupPartSize?: number;
     readonly reactToPlayer?: boolean;
     readonly reactToWind?: boolean;
+    /** If true, the geometry is rendered as a vertical quad facing the camera. Its X and Y coordinates are used as screen offsets. */
+    readonly billboard?: boolean;
+    /** If provided, each instance only displays a single frame of the material map, considered as a spritesheet of this size. */
+    readonly spritesheetSize?: THREE.Vector2Like;
     readonly bufferGeometry: THREE.BufferGeometry;
     readonly material: THREE.MeshPhongMaterial;
+    /** Instances further than this distance from the camera use the lower levels of detail, if any. Defaults to Infinity. */
+    readonly maxDistance?: number;
+    /** Sorted by increasing max distance. */
+    readonly lowerLevelsOfDetail?: ReadonlyArray<PropsLevelOfDetail>;
+    /** If provided, used for the instances further than all the levels of detail. */
+    readonly impostor?: PropsImpostor;
+    /** Max number of interactors bending the props, on top of the player. Defaults to 8. */
+    readonly maxInteractorsCount?: number;
+    /** Per-instance attributes, exposed in the fragment shader as "v_<name>" varyings. */
+    readonly customAttributes?: CustomAttributesDefinition;
+    /** GLSL code run in the fragment shader once the color is computed. It can read the custom attributes and modify "diffuseColor". */
+    readonly customFragmentCode?: string;
     readonly garbageCollect?: {
         readonly interval?: number;
         readonly invisibleGroupsCacheSize?: number;
@@ -40,14 +94,20 @@ class PropsHandler {
 
     private readonly reactToPlayer: boolean;
     private readonly reactToWind: boolean;
-    private readonly bufferGeometry: THREE.BufferGeometry;
-    private readonly material: THREE.MeshPhongMaterial;
+    private readonly billboard: boolean;
+    private readonly spritesheetSize: THREE.Vector2Like | null;
+    private readonly levelsOfDetail: ReadonlyArray<LevelOfDetail>;
 
     private readonly bufferGeometryBoundingSphere: THREE.Sphere;
 
     private viewDistance: number = 20;
     private viewDistanceMargin: number = 2;
     private playerViewPosition = new THREE.Vector3(Infinity, Infinity, Infinity);
+    private readonly maxInteractorsCount: number;
+    private readonly customAttributes: CustomAttributesDefinition;
+    private readonly customFragmentCode: string | null;
+    private interactors: ReadonlyArray<PropsInteractor> = [];
+    private wind: Wind | null = null;
 
     private readonly groups: Map<string, PropsGroupProperties>;
     private batches: PropsBatch[];
@@ -66,13 +126,47 @@ class PropsHandler {
 
         this.reactToPlayer = params.reactToPlayer ?? false;
         this.reactToWind = params.reactToWind ?? false;
-        this.bufferGeometry = params.bufferGeometry;
-        this.material = params.material;
+        this.billboard = params.billboard ?? false;
+        this.spritesheetSize = params.spritesheetSize ?? null;
+        this.maxInteractorsCount = params.maxInteractorsCount ?? 8;
+        this.customAttributes = params.customAttributes ?? {};
+        this.customFragmentCode = params.customFragmentCode ?? null;
+        if (!Number.isInteger(this.maxInteractorsCount) || this.maxInteractorsCount < 1) {
+            throw new Error(`Invalid max interactors count "${this.maxInteractorsCount}".`);
+        }
+
+        const levelsOfDetail: LevelOfDetail[] = [
+            {
+                bufferGeometry: params.bufferGeometry,
+                material: params.material,
+                maxDistance: params.maxDistance ?? Infinity,
+                billboard: this.billboard,
+            },
+        ];
+        for (const levelOfDetail of params.lowerLevelsOfDetail ?? []) {
+            levelsOfDetail.push({ ...levelOfDetail, billboard: false });
+        }
+        if (params.impostor) {
+            levelsOfDetail.push({
+                bufferGeometry: buildBillboardGeometry(params.impostor.width, params.impostor.height),
+                material: params.impostor.material,
+                maxDistance: Infinity,
+                billboard: true,
+            });
+        }
+        for (let iLevel = 1; iLevel < levelsOfDetail.length; iLevel++) {
+            // the max distance of the last level is ignored
+            const maxDistance = iLevel === levelsOfDetail.length - 1 ? Infinity : levelsOfDetail[iLevel]!.maxDistance;
+            if (!(levelsOfDetail[iLevel - 1]!.maxDistance < maxDistance)) {
+                throw new Error(`Levels of detail must be sorted by increasing max distance (level "${iLevel}").`);
+            }
+        }
+        this.levelsOfDetail = levelsOfDetail;
 
-        if (!this.bufferGeometry.boundingSphere) {
-            this.bufferGeometry.computeBoundingSphere();
+        if (!params.bufferGeometry.boundingSphere) {
+            params.bufferGeometry.computeBoundingSphere();
         }
-        this.bufferGeometryBoundingSphere = this.bufferGeometry.boundingSphere!.clone();
+        this.bufferGeometryBoundingSphere = params.bufferGeometry.boundingSphere!.clone();
 
         if (this.batchSize === 0 || this.minGroupPartSize >= this.batchSize) {
             throw new Error(`Invalid parameters: minGroupPartSize="${this.minGroupPartSize}", batchSize="${this.batchSize}"`);
@@ -95,7 +189,13 @@ class PropsHandler {
         }
     }
 
-    public setGroup(groupName: string, matricesList: ReadonlyArray<THREE.Matrix4>): void {
+    /**
+     * @param instancesData Optional per-instance data (color, sensitivities, custom attributes), in the same order as the matrices.
+     */
+    public setGroup(groupName: string, matricesList: ReadonlyArray<THREE.Matrix4>, instancesData?: ReadonlyArray<PropsInstanceData>): void {
+        if (instancesData && instancesData.length !== matricesList.length) {
+            throw new Error(`Got "${instancesData.length}" instances data for "${matricesList.length}" instances.`);
+        }
         if (this.hasGroup(groupName)) {
             this.deleteGroup(groupName);
         }
@@ -114,6 +214,7 @@ class PropsHandler {
         this.groups.set(groupName, groupProperties);
 
         let remainingMatricesList = matricesList.slice(0);
+        let remainingInstancesData = instancesData?.slice(0);
 
         const addInstancesToBatch = (batch: PropsBatch, instancesCount: number): void => {
             if (instancesCount <= 0) {
@@ -122,8 +223,10 @@ class PropsHandler {
 
             const batchMatrices = remainingMatricesList.slice(0, instancesCount);
             remainingMatricesList = remainingMatricesList.slice(instancesCount);
+            const batchInstancesData = remainingInstancesData?.slice(0, instancesCount);
+            remainingInstancesData = remainingInstancesData?.slice(instancesCount);
 
-            batch.setInstancesGroup(groupName, batchMatrices);
+            batch.setInstancesGroup(groupName, batchMatrices, batchInstancesData);
             this.updateBatchVisibility(batch);
 
             const batches = this.groups.get(groupName);
@@ -156,14 +259,22 @@ class PropsHandler {
         while (remainingMatricesList.length > 0) {
             const newBatch = new PropsBatch({
                 maxInstancesCount: this.batchSize,
+                maxInteractorsCount: this.maxInteractorsCount,
+                customAttributes: this.customAttributes,
+                customFragmentCode: this.customFragmentCode,
                 reactToPlayer: this.reactToPlayer,
                 reactToWind: this.reactToWind,
-                bufferGeometry: this.bufferGeometry,
-                material: this.material,
+                spritesheetSize: this.spritesheetSize,
+                levels: this.levelsOfDetail,
             });
+            if (this.lastCameraPositionWorld) {
+                newBatch.updateLevelsOfDetail(this.lastCameraPositionWorld);
+            }
             newBatch.setViewDistance(this.viewDistance);
             newBatch.setViewDistanceMargin(this.viewDistanceMargin);
             newBatch.playerViewPosition.copy(this.playerViewPosition);
+            newBatch.setInteractors(this.interactors);
+            newBatch.setWind(this.wind);
             this.container.add(newBatch.container);
             countOfCreatedBatches++;
 
@@ -260,6 +371,84 @@ class PropsHandler {
         }
     }
 
+    /**
+     * Sets the actors bending the props (characters, projectiles...), in world space. Meant to be called every frame.
+     * If there are more interactors than the max count, the ones closest to the camera are kept.
+     */
+    public setInteractors(interactors: ReadonlyArray<PropsInteractor>): void {
+        let keptInteractors = interactors;
+        if (interactors.length > this.maxInteractorsCount) {
+            const cameraPosition = this.lastCameraPositionWorld;
+            if (cameraPosition) {
+                keptInteractors = interactors
+                    .map(interactor => ({ interactor, distance: cameraPosition.distanceToSquared(interactor.position) }))
+                    .sort((a, b) => a.distance - b.distance)
+                    .map(entry => entry.interactor);
+            }
+            keptInteractors = keptInteractors.slice(0, this.maxInteractorsCount);
+        }
+
+        this.interactors = keptInteractors;
+        for (const batch of this.batches) {
+            batch.setInteractors(this.interactors);
+        }
+    }
+
+    /** Only used if the props react to the wind. */
+    public setWind(wind: Wind | null): void {
+        this.wind = wind;
+        for (const batch of this.batches) {
+            batch.setWind(this.wind);
+        }
+    }
+
+    /** @returns The closest visible instance hit by the ray, if any. */
+    public raycast(raycaster: THREE.Raycaster): PropsRaycastResult | null {
+        let closestHit: PropsRaycastResult | null = null;
+        for (const [groupName, groupProperties] of this.groups.entries()) {
+            if (!raycaster.ray.intersectsSphere(groupProperties.boundingSphere)) {
+                continue;
+            }
+
+            let instanceIndexOffset = 0;
+            for (const batch of groupProperties.batches) {
+                const hit = batch.raycastGroup(groupName, raycaster);
+                if (hit && (!closestHit || hit.distance < closestHit.distance)) {
+                    closestHit = {
+                        groupName,
+                        instanceIndex: instanceIndexOffset + hit.instanceIndex,
+                        distance: hit.distance,
+                        point: hit.point,
+                    };
+                }
+                instanceIndexOffset += batch.getGroupInstancesCount(groupName);
+            }
+        }
+        return closestHit;
+    }
+
+    public setInstanceVisibility(groupName: string, instanceIndex: number, visible: boolean): void {
+        const { batch, batchInstanceIndex } = this.locateInstance(groupName, instanceIndex);
+        batch.setInstanceVisibility(groupName, batchInstanceIndex, visible);
+    }
+
+    public replaceInstance(groupName: string, instanceIndex: number, matrix: THREE.Matrix4, instanceData?: PropsInstanceData): void {
+        const { groupProperties, batch, batchInstanceIndex } = this.locateInstance(groupName, instanceIndex);
+        batch.replaceInstance(groupName, batchInstanceIndex, matrix, instanceData);
+
+        const instanceSphere = this.bufferGeometryBoundingSphere.clone().applyMatrix4(matrix);
+        groupProperties.boundingSphere.union(instanceSphere);
+        this.updateBatchVisibility(batch);
+    }
+
+    /** The following instances of the group are shifted: their index decreases by one. */
+    public removeInstance(groupName: string, instanceIndex: number): void {
+        const { groupProperties, batch, batchInstanceIndex } = this.locateInstance(groupName, instanceIndex);
+        batch.removeInstance(groupName, batchInstanceIndex);
+        groupProperties.instancesCount--;
+        this.updateBatchVisibility(batch);
+    }
+
     public updateVisibilities(cameraWorldPosition: THREE.Vector3Like): void {
         if (!this.lastCameraPositionWorld) {
             this.lastCameraPositionWorld = new THREE.Vector3();
@@ -268,6 +457,9 @@ class PropsHandler {
 
         for (const batch of this.batches) {
             this.updateBatchVisibility(batch);
+            if (batch.container.visible) {
+                batch.updateLevelsOfDetail(this.lastCameraPositionWorld);
+            }
         }
 
         this.updateGroupsVisibilities();
@@ -279,6 +471,26 @@ class PropsHandler {
         }
     }
 
+    private locateInstance(
+        groupName: string,
+        instanceIndex: number
+    ): { readonly groupProperties: PropsGroupProperties; readonly batch: PropsBatch; readonly batchInstanceIndex: number } {
+        const groupProperties = this.groups.get(groupName);
+        if (!groupProperties) {
+            throw new Error(`Unknown props group "${groupName}".`);
+        }
+
+        let instanceIndexOffset = 0;
+        for (const batch of groupProperties.batches) {
+            const batchInstancesCount = batch.getGroupInstancesCount(groupName);
+            if (instanceIndex >= instanceIndexOffset && instanceIndex < instanceIndexOffset + batchInstancesCount) {
+                return { groupProperties, batch, batchInstanceIndex: instanceIndex - instanceIndexOffset };
+            }
+            instanceIndexOffset += batchInstancesCount;
+        }
+        throw new Error(`Invalid instance index "${instanceIndex}" for props group "${groupName}" of "${instanceIndexOffset}" instances.`);
+    }
+
     private garbageCollectGroups(): void {
         const invisibleGroups: [string, number][] = [];
         for (const [name, properties] of this.groups.entries()) {
@@ -330,8 +542,8 @@ class PropsHandler {
     private updateBatchVisibility(batch: PropsBatch): void {
         let distanceFromCamera = 0;
         if (this.lastCameraPositionWorld) {
-            if (batch.container.boundingSphere) {
-                distanceFromCamera = batch.container.boundingSphere.distanceToPoint(this.lastCameraPositionWorld);
+            if (batch.boundingSphere) {
+                distanceFromCamera = batch.boundingSphere.distanceToPoint(this.lastCameraPositionWorld);
             } else {
                 logger.warn(`Batch does not have a bounding sphere.`);
             }
@@ -357,4 +569,14 @@ class PropsHandler {
     }
 }
 
-export { PropsHandler, type Parameters, type PropsHandlerStatistics };
+export {
+    buildBillboardGeometry,
+    PropsHandler,
+    type Parameters,
+    type PropsHandlerStatistics,
+    type PropsImpostor,
+    type PropsInstanceData,
+    type PropsInteractor,
+    type PropsLevelOfDetail,
+    type PropsRaycastResult,
+};
@@ -1,6 +1,6 @@
 import * as THREE from '../../libs/three-usage';
 
-import { PropsHandler, type Parameters as PropsHandlerParameters } from './props-handler';
+import { PropsHandler, type Parameters as PropsHandlerParameters, type PropsInstanceData } from './props-handler';
 
 type Parameters = PropsHandlerParameters & {
     readonly chunkSize: THREE.Vector3Like;
@@ -21,18 +21,26 @@ class PropsViewer extends PropsHandler {
         this.chunkSize = new THREE.Vector3().copy(params.chunkSize);
     }
 
-    public setChunkPropsFromLocalMatrices(chunkId: THREE.Vector3Like, localMatricesList: ReadonlyArray<THREE.Matrix4>): void {
+    public setChunkPropsFromLocalMatrices(
+        chunkId: THREE.Vector3Like,
+        localMatricesList: ReadonlyArray<THREE.Matrix4>,
+        instancesData?: ReadonlyArray<PropsInstanceData>
+    ): void {
         const chunkWorldOrigin = new THREE.Vector3().multiplyVectors(chunkId, this.chunkSize);
         const chunkTransformMatrix = new THREE.Matrix4().makeTranslation(chunkWorldOrigin);
         const worldMatricesList = localMatricesList.map(localMatrix =>
             new THREE.Matrix4().multiplyMatrices(chunkTransformMatrix, localMatrix)
         );
-        this.setChunkPropsFromWorldMatrices(chunkId, worldMatricesList);
+        this.setChunkPropsFromWorldMatrices(chunkId, worldMatricesList, instancesData);
     }
 
-    public setChunkPropsFromWorldMatrices(chunkId: THREE.Vector3Like, worldMatricesList: ReadonlyArray<THREE.Matrix4>): void {
+    public setChunkPropsFromWorldMatrices(
+        chunkId: THREE.Vector3Like,
+        worldMatricesList: ReadonlyArray<THREE.Matrix4>,
+        instancesData?: ReadonlyArray<PropsInstanceData>
+    ): void {
         const chunkIdString = buildChunkIdString(chunkId);
-        this.setGroup(chunkIdString, worldMatricesList);
+        this.setGroup(chunkIdString, worldMatricesList, instancesData);
     }
 
     public deleteChunkProps(chunkId: THREE.Vector3Like): void {
@@ -0,0 +1,165 @@
+import { type UniformDefinition } from './billboard/billboard-shader';
+import { type CustomAttributesDefinition } from './billboard/instanced-billboard-batch';
+import { type Spritesheet } from './spritesheet';
+
+type SpritesheetAnimationMode = 'loop' | 'ping-pong' | 'once';
+
+/** Range of frames played one after the other. Frames are numbered row by row, starting from the top left corner of the spritesheet. */
+type SpritesheetAnimation = {
+    readonly firstFrame: number;
+    /** Inclusive. */
+    readonly lastFrame: number;
+    readonly framesPerSecond: number;
+    /** Defaults to "loop". */
+    readonly mode?: SpritesheetAnimationMode;
+};
+
+type Parameters = {
+    readonly spritesheet: Spritesheet;
+    readonly animations: Record<string, SpritesheetAnimation>;
+    /** Whether to cross-fade between consecutive frames. Defaults to false. */
+    readonly frameBlending?: boolean;
+    /** Prefix of the GLSL names, so that several spritesheets can be used in the same shader. Defaults to "spritesheet". */
+    readonly glslName?: string;
+};
+
+/**
+ * Computes which frames of a spritesheet to display, and provides what an "InstancedBillboard" needs to display them:
+ * - "uniforms" and "attributes" to add to the rendering parameters;
+ * - "glslSampleCode" to include in the fragment code: it declares a vec4 "<glslName>Color" sampled from the current frame;
+ * - "computeFrameAttribute()" whose result is the value of the custom attribute of each instance.
+ */
+class SpritesheetAnimator {
+    public readonly spritesheet: Spritesheet;
+    public readonly frameBlending: boolean;
+
+    public readonly uniforms: Record<string, UniformDefinition<unknown>>;
+    public readonly attributes: CustomAttributesDefinition;
+    /** Name of the attribute to pass to "setInstanceCustomAttribute()". */
+    public readonly attributeName: string;
+    public readonly glslSampleCode: string;
+
+    private readonly animations: Record<string, SpritesheetAnimation>;
+
+    public constructor(params: Parameters) {
+        this.spritesheet = params.spritesheet;
+        this.frameBlending = params.frameBlending ?? false;
+
+        const { size } = params.spritesheet;
+        if (size.x < 1 || size.y < 1 || !Number.isInteger(size.x) || !Number.isInteger(size.y)) {
+            throw new Error(`Invalid spritesheet size "${size.x}x${size.y}".`);
+        }
+        const framesCount = size.x * size.y;
+        for (const [name, animation] of Object.entries(params.animations)) {
+            if (
+                !Number.isInteger(animation.firstFrame) ||
+                !Number.isInteger(animation.lastFrame) ||
+                animation.firstFrame < 0 ||
+                animation.lastFrame < animation.firstFrame ||
+                animation.lastFrame >= framesCount
+            ) {
+                throw new Error(`Invalid frames range "${animation.firstFrame}-${animation.lastFrame}" for animation "${name}".`);
+            }
+            if (animation.framesPerSecond <= 0) {
+                throw new Error(`Invalid framesPerSecond "${animation.framesPerSecond}" for animation "${name}".`);
+            }
+        }
+        this.animations = params.animations;
+
+        const glslName = params.glslName ?? 'spritesheet';
+        const textureUniformName = `u${glslName.charAt(0).toUpperCase()}${glslName.slice(1)}Texture`;
+        this.attributeName = `${glslName}Frame`;
+        this.uniforms = {
+            [textureUniformName]: { value: params.spritesheet.texture, type: 'sampler2D' },
+        };
+        // current frame, next frame, and blending factor between them
+        this.attributes = {
+            [this.attributeName]: { type: 'vec3' },
+        };
+
+        const sizeCode = `vec2(${size.x.toFixed(1)}, ${size.y.toFixed(1)})`;
+        const computeFrameUvCode = (frame: string): string =>
+            `(vec2(mod(${frame}, ${size.x.toFixed(1)}), ${(size.y - 1).toFixed(1)} - floor(${frame} / ${size.x.toFixed(1)})) + uv) / ${sizeCode}`;
+        this.glslSampleCode = `
+vec2 ${glslName}Frames = floor(${this.attributeName}.xy + 0.5);
+vec4 ${glslName}Color = texture(${textureUniformName}, ${computeFrameUvCode(`${glslName}Frames.x`)});
+${
+    this.frameBlending
+        ? `${glslName}Color = mix(${glslName}Color, texture(${textureUniformName}, ${computeFrameUvCode(`${glslName}Frames.y`)}), ${this.attributeName}.z);`
+        : ''
+}
+`;
+    }
+
+    public getAnimation(name: string): SpritesheetAnimation {
+        const animation = this.animations[name];
+        if (!animation) {
+            throw new Error(`Unknown spritesheet animation "${name}".`);
+        }
+        return animation;
+    }
+
+    /** @returns The duration of one playback of the animation, in seconds. */
+    public getDuration(name: string): number {
+        const animation = this.getAnimation(name);
+        const framesCount = animation.lastFrame - animation.firstFrame + 1;
+        if (animation.mode === 'ping-pong') {
+            return Math.max(1, 2 * (framesCount - 1)) / animation.framesPerSecond;
+        }
+        return framesCount / animation.framesPerSecond;
+    }
+
+    /** @returns Whether an animation played once reached its last frame. Looping animations never end. */
+    public isFinished(name: string, time: number): boolean {
+        const animation = this.getAnimation(name);
+        return animation.mode === 'once' && time >= this.getDuration(name);
+    }
+
+    /**
+     * @param time Time elapsed since the start of the animation, in seconds.
+     * @returns The value of the custom attribute: [current frame, next frame, blending factor between them].
+     */
+    public computeFrameAttribute(name: string, time: number, target: number[] = [0, 0, 0]): number[] {
+        const animation = this.getAnimation(name);
+        const framesCount = animation.lastFrame - animation.firstFrame + 1;
+        const position = Math.max(0, time) * animation.framesPerSecond;
+
+        let frame: number;
+        let nextFrame: number;
+        let blending: number;
+        const mode = animation.mode ?? 'loop';
+        if (mode === 'loop') {
+            const loopPosition = position % framesCount;
+            frame = Math.floor(loopPosition);
+            nextFrame = (frame + 1) % framesCount;
+            blending = loopPosition - frame;
+        } else if (mode === 'ping-pong') {
+            const lastIndex = framesCount - 1;
+            const cyclePosition = lastIndex > 0 ? position % (2 * lastIndex) : 0;
+            if (cyclePosition < lastIndex) {
+                frame = Math.floor(cyclePosition);
+                nextFrame = frame + 1;
+                blending = cyclePosition - frame;
+            } else {
+                const backwardsPosition = cyclePosition - lastIndex;
+                frame = lastIndex - Math.floor(backwardsPosition);
+                nextFrame = Math.max(0, frame - 1);
+                blending = backwardsPosition - Math.floor(backwardsPosition);
+            }
+        } else if (mode === 'once') {
+            const clampedPosition = Math.min(position, framesCount - 1);
+            frame = Math.floor(clampedPosition);
+            nextFrame = Math.min(frame + 1, framesCount - 1);
+            blending = clampedPosition - frame;
+        } else {
+            throw new Error(`Unsupported spritesheet animation mode "${mode}".`);
+        }
+
+        target[0] = animation.firstFrame + frame;
+        target[1] = animation.firstFrame + nextFrame;
+        target[2] = this.frameBlending ? blending : 0;
+        return target;
+    }
+}
+
+export { SpritesheetAnimator, type SpritesheetAnimation, type SpritesheetAnimationMode };
@@ -0,0 +1,220 @@
+import { safeModulo } from '../../helpers/math';
+import * as THREE from '../../libs/three-usage';
+import { EVoxelStatus, type IVoxelmapCollider } from '../../physics/i-voxelmap-collider';
+import { type HeightmapAtlas } from '../../terrain/heightmap/atlas/heightmap-atlas';
+import { HeightmapAtlasArea } from '../../terrain/heightmap/atlas/heightmap-atlas-area';
+import { type UniformDefinition } from '../billboard/billboard-shader';
+
+type Parameters = {
+    /** Side of the square area around the camera covered by the map, in voxels. Defaults to 128. */
+    readonly size?: number;
+    /** Loaded voxels. Their columns are scanned from the top to find the first solid or liquid voxel. */
+    readonly voxelmapCollider?: IVoxelmapCollider;
+    /** Vertical range in which the voxels columns are scanned. */
+    readonly altitude: {
+        readonly min: number;
+        readonly max: number;
+    };
+    /** Used where the voxels are not loaded. */
+    readonly heightmapAtlas?: HeightmapAtlas;
+    /** Count of voxels columns scanned per update. Defaults to 256. */
+    readonly columnsPerUpdate?: number;
+};
+
+/** Altitude stored for the columns scanned without finding any solid voxel: precipitation falls down to the bottom of the map. */
+const noOcclusion = -1e9;
+/** Altitude stored for the columns not scanned yet, or not loaded: the heightmap is used for them. */
+const unknownOcclusion = -2e9;
+
+/**
+ * Top-down map of the altitude under which precipitation cannot fall, around the camera: the top of the first solid voxel of each column,
+ * or the altitude of the heightmap where no voxel is loaded. Rain and snow sample it to stop under roofs and in caves.
+ *
+ * The voxels columns are stored in a texture indexed by world coordinates modulo its size, so that moving the map only requires to scan
+ * the new columns. Columns are scanned progressively, a few each update, and the whole map is refreshed continuously to catch edits.
+ * The heightmap is only used for the columns not scanned yet, and for the columns whose voxels are not loaded.
+ *
+ * It is not updated by the precipitation layers sampling it: its owner calls "update()" once per frame.
+ */
+class PrecipitationOcclusionMap {
+    public readonly uniforms: Record<string, UniformDefinition<unknown>>;
+
+    private readonly size: number;
+    private readonly voxelmapCollider: IVoxelmapCollider | null;
+    private readonly altitude: { readonly min: number; readonly max: number };
+    private readonly columnsPerUpdate: number;
+
+    private readonly texture: THREE.DataTexture;
+    private readonly altitudes: Float32Array;
+    /** World coordinates of the column stored in each texel. */
+    private readonly columnsX: Int32Array;
+    private readonly columnsZ: Int32Array;
+    private refreshCursor = 0;
+
+    /** World voxel coordinates of the corner of the area. */
+    private readonly origin = new THREE.Vector2(0, 0);
+    private readonly uArea: UniformDefinition<THREE.Vector4>;
+
+    private readonly heightmapArea: HeightmapAtlasArea | null = null;
+
+    public constructor(params: Parameters) {
+        this.size = params.size ?? 128;
+        this.voxelmapCollider = params.voxelmapCollider ?? null;
+        this.altitude = { ...params.altitude };
+        this.columnsPerUpdate = params.columnsPerUpdate ?? 256;
+
+        const texelsCount = this.size * this.size;
+        this.altitudes = new Float32Array(texelsCount).fill(unknownOcclusion);
+        this.columnsX = new Int32Array(texelsCount).fill(-0x7fffffff);
+        this.columnsZ = new Int32Array(texelsCount).fill(-0x7fffffff);
+
+        this.texture = new THREE.DataTexture(this.altitudes, this.size, this.size, THREE.RedFormat, THREE.FloatType);
+        this.texture.wrapS = THREE.RepeatWrapping;
+        this.texture.wrapT = THREE.RepeatWrapping;
+        this.texture.minFilter = THREE.NearestFilter;
+        this.texture.magFilter = THREE.NearestFilter;
+        this.texture.needsUpdate = true;
+
+        // world origin (x, z) and size of the area covered by the voxels
+        this.uArea = { value: new THREE.Vector4(0, 0, 0, 0), type: 'vec4' };
+        this.uniforms = {
+            uPrecipitationOcclusionTexture: { value: this.texture, type: 'sampler2D' },
+            uPrecipitationOcclusionArea: this.uArea,
+        };
+
+        if (params.heightmapAtlas) {
+            this.heightmapArea = new HeightmapAtlasArea({
+                heightmapAtlas: params.heightmapAtlas,
+                size: Math.min(this.size, params.heightmapAtlas.rootTileSizeInWorld),
+                glslName: 'uPrecipitationOcclusionHeightmap',
+            });
+            Object.assign(this.uniforms, this.heightmapArea.uniforms);
+        }
+    }
+
+    /** Centers the map on the given position, and scans some of the voxels columns. */
+    public update(cameraPosition: THREE.Vector3Like): void {
+        const previousOrigin = this.origin.clone();
+        this.origin.set(Math.floor(cameraPosition.x) - this.size / 2, Math.floor(cameraPosition.z) - this.size / 2);
+        this.heightmapArea?.setCenter(cameraPosition);
+
+        if (!this.voxelmapCollider) {
+            return;
+        }
+
+        if (!this.origin.equals(previousOrigin)) {
+            // the texels of the columns that entered the area still hold the columns that left it
+            for (let iTexel = 0; iTexel < this.altitudes.length; iTexel++) {
+                if (this.columnsX[iTexel] !== this.getColumnWorldX(iTexel) || this.columnsZ[iTexel] !== this.getColumnWorldZ(iTexel)) {
+                    this.altitudes[iTexel] = unknownOcclusion;
+                }
+            }
+        }
+
+        let budget = this.columnsPerUpdate;
+
+        // first, the columns that entered the area
+        for (let iTexel = 0; iTexel < this.altitudes.length && budget > 0; iTexel++) {
+            const worldX = this.getColumnWorldX(iTexel);
+            const worldZ = this.getColumnWorldZ(iTexel);
+            if (this.columnsX[iTexel] !== worldX || this.columnsZ[iTexel] !== worldZ) {
+                this.scanColumn(iTexel, worldX, worldZ);
+                budget--;
+            }
+        }
+
+        // then, refresh the other ones
+        for (; budget > 0; budget--) {
+            const iTexel = this.refreshCursor;
+            this.refreshCursor = (this.refreshCursor + 1) % this.altitudes.length;
+            this.scanColumn(iTexel, this.getColumnWorldX(iTexel), this.getColumnWorldZ(iTexel));
+        }
+
+        this.texture.needsUpdate = true;
+        this.uArea.value.set(this.origin.x, this.origin.y, this.size, 1);
+    }
+
+    /**
+     * Only takes the voxels into account: the heightmap is only available on the GPU.
+     * @returns The altitude under which precipitation cannot fall, or null if unknown.
+     */
+    public getOcclusionAltitude(worldX: number, worldZ: number): number | null {
+        const voxelX = Math.floor(worldX);
+        const voxelZ = Math.floor(worldZ);
+        const iTexel = safeModulo(voxelX, this.size) + this.size * safeModulo(voxelZ, this.size);
+        if (this.columnsX[iTexel] !== voxelX || this.columnsZ[iTexel] !== voxelZ) {
+            return null;
+        }
+        const altitude = this.altitudes[iTexel]!;
+        return altitude === noOcclusion || altitude === unknownOcclusion ? null : altitude;
+    }
+
+    /**
+     * @param worldPosition GLSL expression of a vec3.
+     * @param output Name of the float declared by the code: the altitude under which precipitation cannot fall at the given position.
+     */
+    public buildGlslSampleCode(worldPosition: string, output: string): string {
+        return `
+float ${output} = ${unknownOcclusion.toExponential()};
+vec2 ${output}AreaCoords = floor(${worldPosition}.xz) - uPrecipitationOcclusionArea.xy;
+if (all(greaterThanEqual(${output}AreaCoords, vec2(0))) && all(lessThan(${output}AreaCoords, uPrecipitationOcclusionArea.zz))) {
+    ${output} = textureLod(uPrecipitationOcclusionTexture, (floor(${worldPosition}.xz) + 0.5) / ${this.size.toFixed(1)}, 0.0).r;
+}
+// the voxels of the column are unknown: fall back to the heightmap
+if (${output} < ${((noOcclusion + unknownOcclusion) / 2).toExponential()}) {
+    ${output} = ${noOcclusion.toExponential()};
+    ${
+        this.heightmapArea
+            ? `
+    ${this.heightmapArea.buildGlslSampleCode(`${worldPosition}.xz`, `${output}Heightmap`)}
+    ${output} = ${output}Heightmap;`
+            : ''
+    }
+}
+`;
+    }
+
+    public dispose(): void {
+        this.texture.dispose();
+        this.heightmapArea?.dispose();
+    }
+
+    private getColumnWorldX(iTexel: number): number {
+        return this.origin.x + safeModulo((iTexel % this.size) - this.origin.x, this.size);
+    }
+
+    private getColumnWorldZ(iTexel: number): number {
+        return this.origin.y + safeModulo(Math.floor(iTexel / this.size) - this.origin.y, this.size);
+    }
+
+    private scanColumn(iTexel: number, worldX: number, worldZ: number): void {
+        let altitude = noOcclusion;
+        const voxel = { x: worldX, y: 0, z: worldZ };
+        for (voxel.y = this.altitude.max - 1; voxel.y >= this.altitude.min; voxel.y--) {
+            const status = this.getOcclusionStatus(voxel);
+            if (status === EVoxelStatus.FULL) {
+                altitude = voxel.y + 1;
+                break;
+            } else if (status === EVoxelStatus.NOT_LOADED) {
+                altitude = unknownOcclusion;
+                break;
+            }
+        }
+
+        this.altitudes[iTexel] = altitude;
+        this.columnsX[iTexel] = worldX;
+        this.columnsZ[iTexel] = worldZ;
+    }
+
+    /** FULL for the voxels precipitation stops on: they include liquids, even though entities go through them. */
+    private getOcclusionStatus(voxel: THREE.Vector3Like): EVoxelStatus {
+        const voxelmapCollider = this.voxelmapCollider!;
+        if (voxelmapCollider.getVoxelPhysics) {
+            const voxelPhysics = voxelmapCollider.getVoxelPhysics(voxel);
+            return voxelPhysics.physicsClass !== null ? EVoxelStatus.FULL : voxelPhysics.status;
+        }
+        return voxelmapCollider.getVoxel(voxel);
+    }
+}
+
+export { PrecipitationOcclusionMap };
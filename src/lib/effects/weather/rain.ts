@@ -1,55 +1,125 @@
 import * as THREE from '../../libs/three-usage';
+import { ParticleSystem } from '../particles/particle-system';
 
+import { type PrecipitationOcclusionMap } from './precipitation-occlusion-map';
 import { GpuInstancedBillboard } from './weather-particles-base';
+import { type Wind } from './wind';
+
+type Parameters = {
+    /** Defaults to light blue. */
+    readonly color?: THREE.Color;
+    /** Size of the drops, in world units. Defaults to 0.4. */
+    readonly size?: number;
+    /** Falling speed. Defaults to 7. */
+    readonly speed?: number;
+    /** When provided, drops stop on the ground, on roofs, and do not fall in caves. It is not updated by the rain. */
+    readonly occlusionMap?: PrecipitationOcclusionMap;
+    /** Whether to display small splashes where drops hit the ground. Requires an occlusion map. Defaults to false. */
+    readonly splashes?: boolean;
+};
 
 class Rain {
     public readonly container: THREE.Object3D;
 
     private readonly instancedBillboard: GpuInstancedBillboard;
+    /** Follows the camera. */
+    private readonly dropsContainer: THREE.Object3D;
     private readonly uClippingPlaneLevel: THREE.IUniform<number> & { type: 'float' };
+    private readonly uColor: THREE.IUniform<THREE.Color> & { type: 'vec3' };
+
+    private readonly occlusionMap: PrecipitationOcclusionMap | null;
+    private readonly splashes: {
+        readonly particleSystem: ParticleSystem;
+        accumulator: number;
+    } | null = null;
 
     private lastCameraPosition: THREE.Vector3 | null = null;
+    private wind: Wind | null = null;
+    private particlesCount = 20000;
 
     private lastUpdateTimestamp = performance.now();
 
-    public constructor(renderer: THREE.WebGLRenderer) {
-        const particlesCount = 20000;
-
+    public constructor(renderer: THREE.WebGLRenderer, params: Parameters = {}) {
         this.uClippingPlaneLevel = {
             value: -Infinity,
             type: 'float',
         };
+        this.uColor = {
+            value: params.color?.clone() ?? new THREE.Color(0.5, 0.5, 1),
+            type: 'vec3',
+        };
+
+        this.occlusionMap = params.occlusionMap ?? null;
 
-        const size = 0.4;
+        const size = params.size ?? 0.4;
         this.instancedBillboard = new GpuInstancedBillboard({
             maxInstancesCount: 65000,
             lockAxis: { x: 0, y: 1, z: 0 },
             size: { x: 0.1 * size, y: 1.5 * size },
-            speed: 7,
+            speed: params.speed ?? 7,
             rendering: {
                 material: 'Basic',
                 shadows: {
                     receive: false,
                 },
                 uniforms: {
+                    ...this.occlusionMap?.uniforms,
                     uClippingPlaneLevel: this.uClippingPlaneLevel,
+                    uColor: this.uColor,
                 },
                 fragmentCode: `
 if (vFragWorldPosition.y < uClippingPlaneLevel) {
     discard;
 }
-return vec4(0.5, 0.5, 1, 1);
+${
+    this.occlusionMap
+        ? `
+${this.occlusionMap.buildGlslSampleCode('vFragWorldPosition', 'occlusionAltitude')}
+if (vFragWorldPosition.y < occlusionAltitude) {
+    discard;
+}`
+        : ''
+}
+return vec4(uColor, 1);
 `,
             },
         });
         this.instancedBillboard.positionsRange.set(100, 100, 100);
-        this.instancedBillboard.setInstancesCount(particlesCount);
+        this.instancedBillboard.setInstancesCount(this.particlesCount);
         this.instancedBillboard.initializePositions(renderer);
 
         this.container = new THREE.Group();
         this.container.name = 'rain-container';
+        this.dropsContainer = new THREE.Group();
+        this.dropsContainer.name = 'rain-drops-container';
         this.instancedBillboard.container.position.copy(this.instancedBillboard.positionsRange.clone().multiplyScalar(-0.5));
-        this.container.add(this.instancedBillboard.container);
+        this.dropsContainer.add(this.instancedBillboard.container);
+        this.container.add(this.dropsContainer);
+
+        if (params.splashes) {
+            if (!this.occlusionMap) {
+                throw new Error('Rain splashes require an occlusion map.');
+            }
+
+            const particleSystem = new ParticleSystem({
+                description: {
+                    maxParticles: 1000,
+                    spawn: {},
+                    shape: { type: 'cone', angle: 35, radius: 0.05 },
+                    lifetime: [0.2, 0.35],
+                    velocity: { speed: [1.5, 2.5], gravity: 12 },
+                    size: { initial: [0.04, 0.07] },
+                    color: '#8080ff',
+                    alpha: [
+                        { t: 0, value: 0.8 },
+                        { t: 1, value: 0 },
+                    ],
+                },
+            });
+            particleSystem.container.name = 'rain-splashes';
+            this.container.add(particleSystem.container);
+            this.splashes = { particleSystem, accumulator: 0 };
+        }
     }
 
     public update(renderer: THREE.WebGLRenderer, camera: THREE.Object3D): void {
@@ -58,7 +128,7 @@ return vec4(0.5, 0.5, 1, 1);
         this.lastUpdateTimestamp = now;
 
         const cameraPosition = camera.getWorldPosition(new THREE.Vector3());
-        this.container.position.set(cameraPosition.x, cameraPosition.y, cameraPosition.z);
+        this.dropsContainer.position.set(cameraPosition.x, cameraPosition.y, cameraPosition.z);
 
         const movement = new THREE.Vector3(0, 0, 0);
         if (this.lastCameraPosition) {
@@ -66,6 +136,11 @@ return vec4(0.5, 0.5, 1, 1);
         }
         this.lastCameraPosition = cameraPosition;
 
+        if (this.wind) {
+            // the particles are carried by the air
+            movement.addScaledVector(this.wind.computeVelocity(cameraPosition), deltaTime);
+        }
+
         // limit movement length to avoid floating-point precision issues
         const maxMovementLength = 100;
         const movementLength = movement.length();
@@ -78,12 +153,39 @@ return vec4(0.5, 0.5, 1, 1);
             y: movement.y / this.instancedBillboard.positionsRange.y,
             z: movement.z / this.instancedBillboard.positionsRange.z,
         });
+
+        this.updateSplashes(cameraPosition, deltaTime);
+    }
+
+    /** Forgets the previous update, so that the time elapsed and the camera movement since then are not applied at once by the next one. */
+    public resetUpdate(): void {
+        this.lastUpdateTimestamp = performance.now();
+        this.lastCameraPosition = null;
+    }
+
+    /** Global wind carrying the particles. */
+    public setWind(wind: Wind | null): void {
+        this.wind = wind;
     }
 
     public setParticlesCount(value: number): void {
+        this.particlesCount = value;
         this.instancedBillboard.setInstancesCount(value);
     }
 
+    /** Can be modified. */
+    public get color(): THREE.Color {
+        return this.uColor.value;
+    }
+
+    public get speed(): number {
+        return this.instancedBillboard.speed;
+    }
+
+    public set speed(value: number) {
+        this.instancedBillboard.speed = value;
+    }
+
     public get clippingPlaneLevel(): number {
         return this.uClippingPlaneLevel.value;
     }
@@ -91,6 +193,44 @@ return vec4(0.5, 0.5, 1, 1);
     public set clippingPlaneLevel(value: number) {
         this.uClippingPlaneLevel.value = value;
     }
+
+    private updateSplashes(cameraPosition: THREE.Vector3, deltaTime: number): void {
+        if (!this.splashes || !this.occlusionMap) {
+            return;
+        }
+
+        // splashes are only spawned close to the camera, where they can be seen
+        const radius = 20;
+        const splashesPerSecond = 0.01 * this.particlesCount;
+        const particlesPerSplash = 3;
+
+        this.splashes.accumulator += splashesPerSecond * Math.min(0.1, deltaTime);
+        const splashesCount = Math.floor(this.splashes.accumulator);
+        this.splashes.accumulator -= splashesCount;
+
+        const splashPosition = new THREE.Vector3();
+        for (let i = 0; i < splashesCount; i++) {
+            const angle = 2 * Math.PI * Math.random();
+            const distance = radius * Math.sqrt(Math.random());
+            splashPosition.x = cameraPosition.x + distance * Math.cos(angle);
+            splashPosition.z = cameraPosition.z + distance * Math.sin(angle);
+
+            const groundAltitude = this.occlusionMap.getOcclusionAltitude(splashPosition.x, splashPosition.z);
+            const dropsRange = 0.5 * this.instancedBillboard.positionsRange.y;
+            if (
+                groundAltitude === null ||
+                groundAltitude < this.clippingPlaneLevel ||
+                Math.abs(groundAltitude - cameraPosition.y) > dropsRange
+            ) {
+                continue;
+            }
+            splashPosition.y = groundAltitude;
+
+            this.splashes.particleSystem.burst(particlesPerSplash, this.container.worldToLocal(splashPosition));
+        }
+
+        this.splashes.particleSystem.update();
+    }
 }
 
 export { Rain };
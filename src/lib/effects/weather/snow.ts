@@ -1,48 +1,85 @@
 import * as THREE from '../../libs/three-usage';
 
+import { type PrecipitationOcclusionMap } from './precipitation-occlusion-map';
 import { GpuInstancedBillboard } from './weather-particles-base';
+import { type Wind } from './wind';
+
+type Parameters = {
+    /** Defaults to white. */
+    readonly color?: THREE.Color;
+    /** Size of the flakes, in world units. Defaults to 0.2. */
+    readonly size?: number;
+    /** Falling speed. Defaults to 1. */
+    readonly speed?: number;
+    /** When provided, flakes stop on the ground, on roofs, and do not fall in caves. It is not updated by the snow. */
+    readonly occlusionMap?: PrecipitationOcclusionMap;
+};
 
 class Snow {
     public readonly container: THREE.Object3D;
 
     private readonly instancedBillboard: GpuInstancedBillboard;
+    /** Follows the camera. */
+    private readonly flakesContainer: THREE.Object3D;
 
     private readonly uClippingPlaneLevel: THREE.IUniform<number> & { type: 'float' };
+    private readonly uColor: THREE.IUniform<THREE.Color> & { type: 'vec3' };
+
+    private readonly occlusionMap: PrecipitationOcclusionMap | null;
 
     private lastCameraPosition: THREE.Vector3 | null = null;
+    private wind: Wind | null = null;
 
     private lastUpdateTimestamp = performance.now();
 
-    public constructor(renderer: THREE.WebGLRenderer) {
+    public constructor(renderer: THREE.WebGLRenderer, params: Parameters = {}) {
         const particlesCount = 20000;
 
         this.uClippingPlaneLevel = {
             value: -Infinity,
             type: 'float',
         };
+        this.uColor = {
+            value: params.color?.clone() ?? new THREE.Color(0.9, 0.9, 1),
+            type: 'vec3',
+        };
+
+        this.occlusionMap = params.occlusionMap ?? null;
 
+        const size = params.size ?? 0.2;
         this.instancedBillboard = new GpuInstancedBillboard({
             maxInstancesCount: 65000,
-            size: { x: 0.2, y: 0.2 },
-            speed: 1,
+            size: { x: size, y: size },
+            speed: params.speed ?? 1,
             rendering: {
                 material: 'Basic',
                 shadows: {
                     receive: false,
                 },
                 uniforms: {
+                    ...this.occlusionMap?.uniforms,
                     uClippingPlaneLevel: this.uClippingPlaneLevel,
+                    uColor: this.uColor,
                 },
                 fragmentCode: `
 if (vFragWorldPosition.y < uClippingPlaneLevel) {
     discard;
 }
+${
+    this.occlusionMap
+        ? `
+${this.occlusionMap.buildGlslSampleCode('vFragWorldPosition', 'occlusionAltitude')}
+if (vFragWorldPosition.y < occlusionAltitude) {
+    discard;
+}`
+        : ''
+}
 vec2 fromCenter = uv - 0.5;
 float distSq = dot(fromCenter, fromCenter);
 if (distSq > 0.24) {
     discard;
 }
-return vec4(0.9, 0.9, 1, 1);
+return vec4(uColor, 1);
 `,
             },
         });
@@ -52,8 +89,11 @@ return vec4(0.9, 0.9, 1, 1);
 
         this.container = new THREE.Group();
         this.container.name = 'snow-container';
+        this.flakesContainer = new THREE.Group();
+        this.flakesContainer.name = 'snow-flakes-container';
         this.instancedBillboard.container.position.copy(this.instancedBillboard.positionsRange.clone().multiplyScalar(-0.5));
-        this.container.add(this.instancedBillboard.container);
+        this.flakesContainer.add(this.instancedBillboard.container);
+        this.container.add(this.flakesContainer);
     }
 
     public update(renderer: THREE.WebGLRenderer, camera: THREE.Object3D): void {
@@ -62,7 +102,7 @@ return vec4(0.9, 0.9, 1, 1);
         this.lastUpdateTimestamp = now;
 
         const cameraPosition = camera.getWorldPosition(new THREE.Vector3());
-        this.container.position.set(cameraPosition.x, cameraPosition.y, cameraPosition.z);
+        this.flakesContainer.position.set(cameraPosition.x, cameraPosition.y, cameraPosition.z);
 
         const movement = new THREE.Vector3(0, 0, 0);
         if (this.lastCameraPosition) {
@@ -70,6 +110,11 @@ return vec4(0.9, 0.9, 1, 1);
         }
         this.lastCameraPosition = cameraPosition;
 
+        if (this.wind) {
+            // the particles are carried by the air
+            movement.addScaledVector(this.wind.computeVelocity(cameraPosition), deltaTime);
+        }
+
         // limit movement length to avoid floating-point precision issues
         const maxMovementLength = 100;
         const movementLength = movement.length();
@@ -84,10 +129,34 @@ return vec4(0.9, 0.9, 1, 1);
         });
     }
 
+    /** Forgets the previous update, so that the time elapsed and the camera movement since then are not applied at once by the next one. */
+    public resetUpdate(): void {
+        this.lastUpdateTimestamp = performance.now();
+        this.lastCameraPosition = null;
+    }
+
+    /** Global wind carrying the particles. */
+    public setWind(wind: Wind | null): void {
+        this.wind = wind;
+    }
+
     public setParticlesCount(value: number): void {
         this.instancedBillboard.setInstancesCount(value);
     }
 
+    /** Can be modified. */
+    public get color(): THREE.Color {
+        return this.uColor.value;
+    }
+
+    public get speed(): number {
+        return this.instancedBillboard.speed;
+    }
+
+    public set speed(value: number) {
+        this.instancedBillboard.speed = value;
+    }
+
     public get clippingPlaneLevel(): number {
         return this.uClippingPlaneLevel.value;
     }
@@ -0,0 +1,349 @@
+import * as THREE from '../../libs/three-usage';
+
+import { type PrecipitationOcclusionMap } from './precipitation-occlusion-map';
+import { Rain } from './rain';
+import { Snow } from './snow';
+import { Wind } from './wind';
+
+type WeatherType = 'clear' | 'drizzle' | 'storm' | 'snowfall' | 'blizzard' | 'sandstorm' | 'falling-leaves';
+
+/** Plain data, so that it can be sent by a server. */
+type WeatherState = {
+    readonly type: WeatherType;
+    /** In [0, 1]. Defaults to 1. */
+    readonly intensity?: number;
+};
+
+/** Coordinates of a square region of the world, in regions. */
+type WeatherRegionId = {
+    readonly x: number;
+    readonly z: number;
+};
+
+type Parameters = {
+    /** Defaults to clear weather. */
+    readonly weather?: WeatherState;
+    /** Duration of the transitions between two weathers, in seconds. Defaults to 10. */
+    readonly transitionDuration?: number;
+    /** Width of the regions, in world units. Defaults to 512. */
+    readonly regionSize?: number;
+    /** When provided, its strength is driven by the weather. Otherwise the controller creates its own. */
+    readonly wind?: Wind;
+    /** Shared by all the precipitation layers. The controller updates it. */
+    readonly occlusionMap?: PrecipitationOcclusionMap;
+    /** Whether rain splashes on the ground. Requires an occlusion map. Defaults to false. */
+    readonly splashes?: boolean;
+};
+
+/** Everything that is blended during a transition. */
+type WeatherConditions = {
+    readonly particlesCounts: Record<PrecipitationLayerName, number>;
+    windStrength: number;
+    readonly fogColor: THREE.Color;
+    fogDensity: number;
+    readonly ambientLightColor: THREE.Color;
+    ambientLightIntensity: number;
+};
+
+type PrecipitationLayerName = 'rain' | 'snow' | 'sand' | 'leaves';
+
+function createConditions(params: {
+    readonly particlesCounts?: Partial<Record<PrecipitationLayerName, number>>;
+    readonly windStrength: number;
+    readonly fog: { readonly color: string; readonly density: number };
+    readonly ambientLight: { readonly color: string; readonly intensity: number };
+}): WeatherConditions {
+    return {
+        particlesCounts: { rain: 0, snow: 0, sand: 0, leaves: 0, ...params.particlesCounts },
+        windStrength: params.windStrength,
+        fogColor: new THREE.Color(params.fog.color),
+        fogDensity: params.fog.density,
+        ambientLightColor: new THREE.Color(params.ambientLight.color),
+        ambientLightIntensity: params.ambientLight.intensity,
+    };
+}
+
+function lerpConditions(from: WeatherConditions, to: WeatherConditions, t: number, target: WeatherConditions): void {
+    const lerp = (a: number, b: number) => a + (b - a) * t;
+    for (const name of Object.keys(target.particlesCounts) as PrecipitationLayerName[]) {
+        target.particlesCounts[name] = lerp(from.particlesCounts[name], to.particlesCounts[name]);
+    }
+    target.windStrength = lerp(from.windStrength, to.windStrength);
+    target.fogColor.lerpColors(from.fogColor, to.fogColor, t);
+    target.fogDensity = lerp(from.fogDensity, to.fogDensity);
+    target.ambientLightColor.lerpColors(from.ambientLightColor, to.ambientLightColor, t);
+    target.ambientLightIntensity = lerp(from.ambientLightIntensity, to.ambientLightIntensity);
+}
+
+function cloneConditions(conditions: WeatherConditions): WeatherConditions {
+    return {
+        ...conditions,
+        particlesCounts: { ...conditions.particlesCounts },
+        fogColor: conditions.fogColor.clone(),
+        ambientLightColor: conditions.ambientLightColor.clone(),
+    };
+}
+
+const weatherConditions: Record<WeatherType, WeatherConditions> = {
+    clear: createConditions({
+        windStrength: 1,
+        fog: { color: '#c0d0e0', density: 0 },
+        ambientLight: { color: '#ffffff', intensity: 1 },
+    }),
+    drizzle: createConditions({
+        particlesCounts: { rain: 8000 },
+        windStrength: 2,
+        fog: { color: '#a0a8b0', density: 0.004 },
+        ambientLight: { color: '#d0d8e0', intensity: 0.8 },
+    }),
+    storm: createConditions({
+        particlesCounts: { rain: 60000 },
+        windStrength: 12,
+        fog: { color: '#5a6068', density: 0.015 },
+        ambientLight: { color: '#8890a0', intensity: 0.45 },
+    }),
+    snowfall: createConditions({
+        particlesCounts: { snow: 15000 },
+        windStrength: 1.5,
+        fog: { color: '#d8dde4', density: 0.006 },
+        ambientLight: { color: '#e8eef8', intensity: 0.9 },
+    }),
+    blizzard: createConditions({
+        particlesCounts: { snow: 60000 },
+        windStrength: 15,
+        fog: { color: '#e0e4ea', density: 0.03 },
+        ambientLight: { color: '#c8d0dc', intensity: 0.7 },
+    }),
+    sandstorm: createConditions({
+        particlesCounts: { sand: 50000 },
+        windStrength: 18,
+        fog: { color: '#b8945a', density: 0.035 },
+        ambientLight: { color: '#d0a870', intensity: 0.7 },
+    }),
+    'falling-leaves': createConditions({
+        particlesCounts: { leaves: 1500 },
+        windStrength: 3,
+        fog: { color: '#c0d0e0', density: 0.002 },
+        ambientLight: { color: '#fff0d8', intensity: 1 },
+    }),
+};
+
+/**
+ * Displays the weather around the camera, and smoothly blends it when it changes.
+ *
+ * The weather is either set globally with "setWeather()", or per region with "setRegionWeather()" (for instance when received from a server):
+ * the weather of the region the camera is in takes precedence.
+ *
+ * The controller drives the precipitation and the wind, and computes the "fog" and "ambientLight" the host scene should use.
+ */
+class WeatherController {
+    public readonly container: THREE.Object3D;
+    public readonly wind: Wind;
+
+    /** Fog the host scene should use, for instance through a "THREE.FogExp2". Updated by "update()". */
+    public readonly fog = {
+        color: new THREE.Color(),
+        density: 0,
+    };
+
+    /** Ambient light the host scene should use. Updated by "update()". */
+    public readonly ambientLight = {
+        color: new THREE.Color(),
+        intensity: 1,
+    };
+
+    /** Duration of the transitions between two weathers, in seconds. */
+    public transitionDuration: number;
+
+    private readonly regionSize: number;
+    private readonly renderer: THREE.WebGLRenderer;
+    /** Created when first needed. */
+    private readonly precipitationLayers: Partial<Record<PrecipitationLayerName, Rain | Snow>> = {};
+    private readonly occlusionMap: PrecipitationOcclusionMap | null;
+    private readonly splashes: boolean;
+    private currentClippingPlaneLevel = -Infinity;
+
+    private globalWeather: WeatherState;
+    private readonly regionsWeather = new Map<string, WeatherState>();
+
+    private currentWeather: WeatherState;
+    private readonly currentConditions: WeatherConditions;
+    private transition: {
+        readonly from: WeatherConditions;
+        readonly to: WeatherConditions;
+        elapsedTime: number;
+    } | null = null;
+
+    private lastUpdateTimestamp = performance.now();
+
+    public constructor(renderer: THREE.WebGLRenderer, params: Parameters = {}) {
+        this.transitionDuration = params.transitionDuration ?? 10;
+        this.regionSize = params.regionSize ?? 512;
+        if (this.regionSize <= 0) {
+            throw new Error(`Invalid region size "${this.regionSize}".`);
+        }
+
+        this.wind = params.wind ?? new Wind({ direction: { x: 1, y: 0.3 } });
+
+        this.renderer = renderer;
+        this.occlusionMap = params.occlusionMap ?? null;
+        this.splashes = params.splashes ?? false;
+        if (this.splashes && !this.occlusionMap) {
+            throw new Error('Rain splashes require an occlusion map.');
+        }
+
+        this.container = new THREE.Group();
+        this.container.name = 'weather-container';
+
+        this.globalWeather = params.weather ?? { type: 'clear' };
+        this.validateState(this.globalWeather);
+        this.currentWeather = this.globalWeather;
+        this.currentConditions = cloneConditions(this.computeConditions(this.currentWeather));
+        this.applyConditions();
+    }
+
+    /** Weather currently displayed, or being transitioned to. */
+    public get weather(): WeatherState {
+        return this.currentWeather;
+    }
+
+    /** Weather used outside of the regions that have their own. */
+    public setWeather(state: WeatherState): void {
+        this.validateState(state);
+        this.globalWeather = state;
+    }
+
+    /** @param state When null, the region uses the global weather again. */
+    public setRegionWeather(regionId: WeatherRegionId, state: WeatherState | null): void {
+        const key = `${regionId.x}_${regionId.z}`;
+        if (state) {
+            this.validateState(state);
+            this.regionsWeather.set(key, state);
+        } else {
+            this.regionsWeather.delete(key);
+        }
+    }
+
+    public clearRegionsWeather(): void {
+        this.regionsWeather.clear();
+    }
+
+    public getRegionId(worldPosition: THREE.Vector3Like): WeatherRegionId {
+        return {
+            x: Math.floor(worldPosition.x / this.regionSize),
+            z: Math.floor(worldPosition.z / this.regionSize),
+        };
+    }
+
+    public get clippingPlaneLevel(): number {
+        return this.currentClippingPlaneLevel;
+    }
+
+    public set clippingPlaneLevel(value: number) {
+        this.currentClippingPlaneLevel = value;
+        for (const layer of Object.values(this.precipitationLayers)) {
+            layer.clippingPlaneLevel = value;
+        }
+    }
+
+    public update(renderer: THREE.WebGLRenderer, camera: THREE.Object3D): void {
+        const now = performance.now();
+        const deltaTime = (now - this.lastUpdateTimestamp) / 1000;
+        this.lastUpdateTimestamp = now;
+
+        const cameraPosition = camera.getWorldPosition(new THREE.Vector3());
+        const regionId = this.getRegionId(cameraPosition);
+        const targetWeather = this.regionsWeather.get(`${regionId.x}_${regionId.z}`) ?? this.globalWeather;
+        if (targetWeather.type !== this.currentWeather.type || targetWeather.intensity !== this.currentWeather.intensity) {
+            // when the weather changes during a transition, the new transition starts from what is currently displayed
+            this.transition = {
+                from: cloneConditions(this.currentConditions),
+                to: this.computeConditions(targetWeather),
+                elapsedTime: 0,
+            };
+            this.currentWeather = targetWeather;
+        }
+
+        if (this.transition) {
+            this.transition.elapsedTime += deltaTime;
+            const progress = this.transitionDuration > 0 ? Math.min(1, this.transition.elapsedTime / this.transitionDuration) : 1;
+            const t = progress * progress * (3 - 2 * progress);
+            lerpConditions(this.transition.from, this.transition.to, t, this.currentConditions);
+            if (progress >= 1) {
+                this.transition = null;
+            }
+            this.applyConditions();
+        }
+
+        const visibleLayers = Object.values(this.precipitationLayers).filter(layer => layer.container.visible);
+        if (visibleLayers.length > 0) {
+            // once for all the layers sharing it
+            this.occlusionMap?.update(cameraPosition);
+        }
+        for (const layer of visibleLayers) {
+            layer.update(renderer, camera);
+        }
+    }
+
+    private computeConditions(state: WeatherState): WeatherConditions {
+        const conditions = cloneConditions(weatherConditions.clear);
+        lerpConditions(weatherConditions.clear, weatherConditions[state.type], state.intensity ?? 1, conditions);
+        return conditions;
+    }
+
+    private applyConditions(): void {
+        const conditions = this.currentConditions;
+        for (const name of Object.keys(conditions.particlesCounts) as PrecipitationLayerName[]) {
+            const particlesCount = Math.round(conditions.particlesCounts[name]);
+            let layer = this.precipitationLayers[name];
+            if (!layer) {
+                if (particlesCount <= 0) {
+                    continue;
+                }
+                layer = this.createPrecipitationLayer(name);
+            } else if (particlesCount > 0 && !layer.container.visible) {
+                // hidden layers are not updated
+                layer.resetUpdate();
+            }
+            layer.setParticlesCount(particlesCount);
+            layer.container.visible = particlesCount > 0;
+        }
+        this.wind.strength = conditions.windStrength;
+        this.fog.color.copy(conditions.fogColor);
+        this.fog.density = conditions.fogDensity;
+        this.ambientLight.color.copy(conditions.ambientLightColor);
+        this.ambientLight.intensity = conditions.ambientLightIntensity;
+    }
+
+    private createPrecipitationLayer(name: PrecipitationLayerName): Rain | Snow {
+        const occlusion = this.occlusionMap ? { occlusionMap: this.occlusionMap } : {};
+        let layer: Rain | Snow;
+        if (name === 'rain') {
+            layer = new Rain(this.renderer, { ...occlusion, splashes: this.splashes });
+        } else if (name === 'snow') {
+            layer = new Snow(this.renderer, { ...occlusion });
+        } else if (name === 'sand') {
+            layer = new Snow(this.renderer, { ...occlusion, color: new THREE.Color('#c2a36b'), size: 0.06, speed: 0.15 });
+        } else {
+            layer = new Snow(this.renderer, { ...occlusion, color: new THREE.Color('#c8641e'), size: 0.35, speed: 0.4 });
+        }
+
+        layer.setWind(this.wind);
+        layer.clippingPlaneLevel = this.currentClippingPlaneLevel;
+        this.container.add(layer.container);
+        this.precipitationLayers[name] = layer;
+        return layer;
+    }
+
+    private validateState(state: WeatherState): void {
+        if (!(state.type in weatherConditions)) {
+            throw new Error(`Unknown weather type "${state.type}".`);
+        }
+        const intensity = state.intensity ?? 1;
+        if (intensity < 0 || intensity > 1) {
+            throw new Error(`Invalid weather intensity "${intensity}".`);
+        }
+    }
+}
+
+export { WeatherController, type WeatherRegionId, type WeatherState, type WeatherType };
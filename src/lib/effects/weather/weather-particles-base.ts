@@ -21,6 +21,7 @@ type Parameters = {
         readonly fragmentCode: string;
     };
     readonly size: THREE.Vector2Like;
+    /** Falling speed. Can be changed later. */
     readonly speed: number;
 };
 
@@ -37,6 +38,7 @@ class GpuInstancedBillboard {
         readonly uniforms: {
             readonly uUniformMovement: THREE.IUniform<THREE.Vector3Like> & { type: 'vec3' };
             readonly uDeltaTime: THREE.IUniform<number> & { type: 'float' };
+            readonly uSpeed: THREE.IUniform<number> & { type: 'float' };
         };
     };
 
@@ -78,6 +80,7 @@ class GpuInstancedBillboard {
             uniforms: {
                 uUniformMovement: { value: { x: 0, y: 0, z: 0 }, type: 'vec3' },
                 uDeltaTime: { value: 0, type: 'float' },
+                uSpeed: { value: params.speed, type: 'float' },
             },
         };
 
@@ -106,7 +109,7 @@ vec3 previousPosition = vec3(
     unpackRGBATo2Half(in_positionsTexture2).x
 );
 
-vec3 newPosition = previousPosition + vec3(0, -${params.speed}, 0) * uDeltaTime + uUniformMovement;
+vec3 newPosition = previousPosition + vec3(0, -uSpeed, 0) * uDeltaTime + uUniformMovement;
 newPosition = mod(newPosition, vec3(1,1,1));
 
 out_positionsTexture1 = pack2HalfToRGBA(newPosition.xy);
@@ -187,6 +190,14 @@ localTransform = mat2(size.x, 0, 0, size.y);`,
         this.mesh.count = instancesCount;
     }
 
+    public get speed(): number {
+        return this.updatePipeline.uniforms.uSpeed.value;
+    }
+
+    public set speed(value: number) {
+        this.updatePipeline.uniforms.uSpeed.value = value;
+    }
+
     public dispose(): void {
         throw new Error('Not implemented');
     }
@@ -0,0 +1,71 @@
+import * as THREE from '../../libs/three-usage';
+
+type Parameters = {
+    /** Horizontal direction the wind blows towards, in the XZ plane. Does not need to be normalized. */
+    readonly direction?: THREE.Vector2Like;
+    /** Base speed of the wind, in world units per second. Defaults to 0. */
+    readonly strength?: number;
+    /** Number of gusts per second. Defaults to 0.1. */
+    readonly gustFrequency?: number;
+    /** Amplitude of the gusts relative to the strength, in [0, 1]. Defaults to 0.3. */
+    readonly turbulence?: number;
+};
+
+/**
+ * GLSL version of "Wind.computeGustFactor", so that the effects running on the GPU see the same gusts as the CPU.
+ * Gusts travel downwind, so that neighbouring props bend one after the other.
+ */
+const windGustGlslCode = `
+float computeWindGustFactor(const vec2 worldPositionXZ, const vec2 windDirection, const float gustFrequency, const float turbulence, const float time) {
+    float phase = ${(2 * Math.PI).toFixed(6)} * gustFrequency * time - 0.05 * dot(worldPositionXZ, windDirection);
+    return 1.0 + turbulence * (0.6 * sin(phase) + 0.4 * sin(2.3 * phase + 1.7));
+}
+`;
+
+/**
+ * Global wind, meant to be shared by all the effects reacting to it (props, clutter, rain, snow...)
+ * so that they all lean the same way and respond to the same gusts.
+ */
+class Wind {
+    /** Normalized horizontal direction, in the XZ plane. */
+    public readonly direction = new THREE.Vector2(1, 0);
+    public strength: number;
+    public gustFrequency: number;
+    public turbulence: number;
+
+    private readonly creationTimestamp = performance.now();
+
+    public constructor(params: Parameters = {}) {
+        this.setDirection(params.direction ?? { x: 1, y: 0 });
+        this.strength = params.strength ?? 0;
+        this.gustFrequency = params.gustFrequency ?? 0.1;
+        this.turbulence = params.turbulence ?? 0.3;
+    }
+
+    public setDirection(direction: THREE.Vector2Like): void {
+        if (direction.x === 0 && direction.y === 0) {
+            throw new Error('Wind direction cannot be null.');
+        }
+        this.direction.copy(direction).normalize();
+    }
+
+    /** Time in seconds used to animate the gusts. */
+    public get time(): number {
+        return (performance.now() - this.creationTimestamp) / 1000;
+    }
+
+    /** @returns The factor applied to the strength at the given world position, in [1 - turbulence, 1 + turbulence]. */
+    public computeGustFactor(worldPosition: THREE.Vector3Like): number {
+        const phase =
+            2 * Math.PI * this.gustFrequency * this.time - 0.05 * (worldPosition.x * this.direction.x + worldPosition.z * this.direction.y);
+        return 1 + this.turbulence * (0.6 * Math.sin(phase) + 0.4 * Math.sin(2.3 * phase + 1.7));
+    }
+
+    /** @returns The horizontal velocity of the air at the given world position, gusts included. */
+    public computeVelocity(worldPosition: THREE.Vector3Like, target = new THREE.Vector3()): THREE.Vector3 {
+        const speed = this.strength * this.computeGustFactor(worldPosition);
+        return target.set(this.direction.x * speed, 0, this.direction.y * speed);
+    }
+}
+
+export { Wind, windGustGlslCode };
@@ -8,13 +8,39 @@ export type { HeightmapSamples, IHeightmap } from './terrain/heightmap/i-heightm
 export { type IHeightmapViewer } from './terrain/heightmap/i-heightmap-viewer';
 export { MaterialsStore } from './terrain/materials-store';
 export { TerrainViewer } from './terrain/terrain-viewer';
-export { computeBoard, EBoardSquareType, type Board, type BoardSquare } from './terrain/voxelmap/board/board';
+export {
+    computeBoard,
+    EBoardSquareType,
+    updateBoard,
+    type Board,
+    type BoardColumnClassification,
+    type BoardFootprint,
+    type BoardGenerationOptions,
+    type BoardSquare,
+    type BoardSquareChange,
+    type BoardUpdate,
+} from './terrain/voxelmap/board/board';
+export {
+    BoardLineOfSight,
+    ESquareVisibility,
+    type BoardVisibility,
+    type LineOfSightResult,
+    type SquareVisibility,
+} from './terrain/voxelmap/board/board-line-of-sight';
+export { deserializeBoard, serializeBoard } from './terrain/voxelmap/board/board-serialization';
+export { BoardPathFinder, type BoardPath, type ReachableSquare } from './terrain/voxelmap/board/board-path-finder';
 export { BoardRenderableFactory, type BoardRenderable } from './terrain/voxelmap/board/board-renderable-factory';
 export { BoardOverlaysHandler } from './terrain/voxelmap/board/overlay/board-overlays-handler';
 export { VoxelmapWrapper } from './terrain/voxelmap/board/voxelmap-wrapper';
 export { ClutterViewer, type ClutterViewerStatistics } from './terrain/voxelmap/clutter/clutter-viewer';
 export {
     voxelEncoder,
+    EVoxelShape,
+    type IClutterCrossedQuadsDefinition,
+    type IClutterDefinition,
+    type IClutterGrass2dDefinition,
+    type IClutterMeshDefinition,
+    type IClutterSpriteDefinition,
     type IVoxelMap,
     type IVoxelMaterial,
     type LocalMapData,
@@ -37,18 +63,61 @@ export { WaterData } from './terrain/water/water-data';
 
 export { Minimap } from './terrain/heightmap/minimap/minimap';
 
-export { EVoxelStatus, type IVoxelmapCollider } from './physics/i-voxelmap-collider';
+export { EVoxelPhysicsClass, EVoxelStatus, type IVoxelmapCollider, type VoxelPhysics } from './physics/i-voxelmap-collider';
 export { VoxelmapCollider } from './physics/voxelmap-collider';
-export { VoxelmapCollisions } from './physics/voxelmap-collisions';
+export {
+    VoxelmapCollisions,
+    type BlockedDirections,
+    type ComputationStatus,
+    type EntityCollider,
+    type EntityCollisionOptions,
+    type EntityCollisionOutput,
+    type EntityPhysicsOptions,
+    type RaycastOptions,
+    type RaycastOutput,
+    type ShapeCastOptions,
+    type SphereIntersection,
+    type VerticalCylinder,
+} from './physics/voxelmap-collisions';
+export {
+    EWorldEntityType,
+    WorldCollisions,
+    type WorldCollisionsOptions,
+    type WorldEntity,
+    type WorldEntityOutput,
+} from './physics/world-collisions';
 
 export { InstancedBillboard } from './effects/billboard/instanced-billboard';
 export { BuffAscendEffect } from './effects/particles/buff-ascend-effect';
+export { GpuBurstParticles, type GpuBurstParameters } from './effects/particles/gpu-burst-particles';
+export {
+    type ParticleColor,
+    type ParticleColorCurve,
+    type ParticleCurve,
+    type ParticleEmitterDescription,
+    type ParticleEmitterShape,
+    type ParticleKeyframe,
+    type ParticleRange,
+} from './effects/particles/particle-emitter-description';
+export { ParticleSystem } from './effects/particles/particle-system';
 export { type Spritesheet } from './effects/spritesheet';
+export { SpritesheetAnimator, type SpritesheetAnimation, type SpritesheetAnimationMode } from './effects/spritesheet-animation';
+export { PrecipitationOcclusionMap } from './effects/weather/precipitation-occlusion-map';
 export { Rain } from './effects/weather/rain';
 export { Snow } from './effects/weather/snow';
 export { GpuInstancedBillboard } from './effects/weather/weather-particles-base';
+export { WeatherController, type WeatherRegionId, type WeatherState, type WeatherType } from './effects/weather/weather-controller';
+export { Wind } from './effects/weather/wind';
 
 export { CustomizableTexture } from './helpers/customizable-texture';
 
-export { PropsHandler, type PropsHandlerStatistics } from './effects/props/props-handler';
+export {
+    PropsHandler,
+    type PropsHandlerStatistics,
+    type PropsImpostor,
+    type PropsInstanceData,
+    type PropsInteractor,
+    type PropsLevelOfDetail,
+    type PropsRaycastResult,
+} from './effects/props/props-handler';
 export { PropsViewer } from './effects/props/props-viewer';
@@ -1,4 +1,5 @@
 export {
+    AdditiveBlending,
     AmbientLight,
     BackSide,
     Box2,
@@ -62,10 +63,12 @@ export {
 export type {
     Blending,
     Frustum,
+    Intersection,
     IUniform,
     Material,
     Object3D,
     Ray,
+    Raycaster,
     TypedArray,
     Vector2Like,
     Vector3Like,
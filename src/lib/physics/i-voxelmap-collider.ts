@@ -1,4 +1,5 @@
 import type * as THREE from '../libs/three-usage';
+import { type EVoxelShape } from '../terrain/voxelmap/i-voxelmap';
 
 enum EVoxelStatus {
     EMPTY,
@@ -6,8 +7,35 @@ enum EVoxelStatus {
     NOT_LOADED,
 }
 
+/** How a voxel behaves with entities. */
+enum EVoxelPhysicsClass {
+    /** Regular blocking voxel. */
+    SOLID,
+    /** Non-blocking voxel, in which entities float and are slowed down. */
+    LIQUID,
+    /** Blocking voxel that entities climb when walking into it (ladders, vines). */
+    CLIMBABLE,
+    /** Blocking voxel with a low friction (ice). */
+    SLIPPERY,
+    /** Blocking voxel that hurts the entities touching it. */
+    DAMAGING,
+}
+
+type VoxelPhysics = {
+    /** Same as the result of "getVoxel": liquid voxels are EMPTY since they don't block entities. */
+    readonly status: EVoxelStatus;
+    /** Material of the voxel, if known. */
+    readonly materialId: number | null;
+    /** Null for empty and not loaded voxels. */
+    readonly physicsClass: EVoxelPhysicsClass | null;
+};
+
 interface IVoxelmapCollider {
     getVoxel(worldVoxelCoords: THREE.Vector3Like): EVoxelStatus;
+    /** Richer version of "getVoxel". When not implemented, full voxels are considered SOLID and there are no liquids. */
+    getVoxelPhysics?(worldVoxelCoords: THREE.Vector3Like): VoxelPhysics;
+    /** Shape of a full voxel, FULL for the other voxels. When not implemented, all voxels are considered FULL. */
+    getVoxelShape?(worldVoxelCoords: THREE.Vector3Like): EVoxelShape;
 }
 
-export { EVoxelStatus, type IVoxelmapCollider };
+export { EVoxelPhysicsClass, EVoxelStatus, type IVoxelmapCollider, type VoxelPhysics };
@@ -0,0 +1,157 @@
+import type * as THREE from '../libs/three-usage';
+
+/*
+ * Helpers to compute when a point moving along a ray is inside simple convex shapes.
+ * Sweeping a shape against a voxel is equivalent to moving a point against the Minkowski sum of the shape and the voxel,
+ * which is built here as a union of boxes, cylinders and spheres.
+ */
+
+type Axis = 'x' | 'y' | 'z';
+
+/** Range of ray parameters for which the moving point is strictly inside a shape. */
+type Interval = {
+    readonly enter: number;
+    readonly exit: number;
+};
+
+type Ray = {
+    readonly origin: THREE.Vector3Like;
+    readonly direction: THREE.Vector3Like;
+};
+
+const axes: ReadonlyArray<Axis> = ['x', 'y', 'z'];
+
+function otherAxes(axis: Axis): [Axis, Axis] {
+    if (axis === 'x') {
+        return ['y', 'z'];
+    } else if (axis === 'y') {
+        return ['z', 'x'];
+    }
+    return ['x', 'y'];
+}
+
+function intersectIntervals(a: Interval | null, b: Interval | null): Interval | null {
+    if (!a || !b) {
+        return null;
+    }
+    const enter = Math.max(a.enter, b.enter);
+    const exit = Math.min(a.exit, b.exit);
+    return enter < exit ? { enter, exit } : null;
+}
+
+/** Merges intervals of overlapping convex pieces of the same convex shape. */
+function mergeIntervals(intervals: Iterable<Interval | null>): Interval | null {
+    let result: Interval | null = null;
+    for (const interval of intervals) {
+        if (interval) {
+            result = result ? { enter: Math.min(result.enter, interval.enter), exit: Math.max(result.exit, interval.exit) } : interval;
+        }
+    }
+    return result;
+}
+
+function slabInterval(origin: number, direction: number, min: number, max: number): Interval | null {
+    if (direction === 0) {
+        return origin > min && origin < max ? { enter: -Infinity, exit: Infinity } : null;
+    }
+    const t1 = (min - origin) / direction;
+    const t2 = (max - origin) / direction;
+    return { enter: Math.min(t1, t2), exit: Math.max(t1, t2) };
+}
+
+function boxInterval(ray: Ray, min: THREE.Vector3Like, max: THREE.Vector3Like): Interval | null {
+    let result: Interval | null = { enter: -Infinity, exit: Infinity };
+    for (const axis of axes) {
+        result = intersectIntervals(result, slabInterval(ray.origin[axis], ray.direction[axis], min[axis], max[axis]));
+    }
+    return result;
+}
+
+/** Interval for an infinite cylinder of the given radius, along the given axis. */
+function cylinderInterval(ray: Ray, axis: Axis, center: THREE.Vector3Like, radius: number): Interval | null {
+    const [u, v] = otherAxes(axis);
+    const fromCenterU = ray.origin[u] - center[u];
+    const fromCenterV = ray.origin[v] - center[v];
+    const a = ray.direction[u] ** 2 + ray.direction[v] ** 2;
+    const c = fromCenterU ** 2 + fromCenterV ** 2 - radius ** 2;
+    if (a === 0) {
+        return c < 0 ? { enter: -Infinity, exit: Infinity } : null;
+    }
+    const b = 2 * (fromCenterU * ray.direction[u] + fromCenterV * ray.direction[v]);
+    const discriminant = b * b - 4 * a * c;
+    if (discriminant <= 0) {
+        return null;
+    }
+    const sqrtDiscriminant = Math.sqrt(discriminant);
+    return { enter: (-b - sqrtDiscriminant) / (2 * a), exit: (-b + sqrtDiscriminant) / (2 * a) };
+}
+
+function sphereInterval(ray: Ray, center: THREE.Vector3Like, radius: number): Interval | null {
+    let a = 0;
+    let b = 0;
+    let c = -(radius ** 2);
+    for (const axis of axes) {
+        const fromCenter = ray.origin[axis] - center[axis];
+        a += ray.direction[axis] ** 2;
+        b += 2 * fromCenter * ray.direction[axis];
+        c += fromCenter ** 2;
+    }
+    if (a === 0) {
+        return c < 0 ? { enter: -Infinity, exit: Infinity } : null;
+    }
+    const discriminant = b * b - 4 * a * c;
+    if (discriminant <= 0) {
+        return null;
+    }
+    const sqrtDiscriminant = Math.sqrt(discriminant);
+    return { enter: (-b - sqrtDiscriminant) / (2 * a), exit: (-b + sqrtDiscriminant) / (2 * a) };
+}
+
+/** Interval for a box whose edges and corners are rounded by the given radius (box swept by a sphere). */
+function roundedBoxInterval(ray: Ray, min: THREE.Vector3Like, max: THREE.Vector3Like, radius: number): Interval | null {
+    const pieces: (Interval | null)[] = [];
+    for (const axis of axes) {
+        // box expanded along a single axis
+        const expandedMin = { ...min, [axis]: min[axis] - radius };
+        const expandedMax = { ...max, [axis]: max[axis] + radius };
+        pieces.push(boxInterval(ray, expandedMin, expandedMax));
+
+        // the 4 edges parallel to this axis
+        const [u, v] = otherAxes(axis);
+        const edgeSlab = slabInterval(ray.origin[axis], ray.direction[axis], min[axis], max[axis]);
+        for (const edgeU of [min[u], max[u]]) {
+            for (const edgeV of [min[v], max[v]]) {
+                const edgeCenter = { x: 0, y: 0, z: 0, [u]: edgeU, [v]: edgeV };
+                pieces.push(intersectIntervals(edgeSlab, cylinderInterval(ray, axis, edgeCenter, radius)));
+            }
+        }
+    }
+    for (const cornerX of [min.x, max.x]) {
+        for (const cornerY of [min.y, max.y]) {
+            for (const cornerZ of [min.z, max.z]) {
+                pieces.push(sphereInterval(ray, { x: cornerX, y: cornerY, z: cornerZ }, radius));
+            }
+        }
+    }
+    return mergeIntervals(pieces);
+}
+
+/**
+ * Interval for a box whose vertical edges are rounded by the given radius (box swept by a vertical cylinder).
+ * Only the horizontal components of the ray are considered.
+ */
+function roundedRectangleInterval(ray: Ray, min: THREE.Vector3Like, max: THREE.Vector3Like, radius: number): Interval | null {
+    const horizontalRay: Ray = { origin: ray.origin, direction: { x: ray.direction.x, y: 0, z: ray.direction.z } };
+    const pieces: (Interval | null)[] = [
+        boxInterval(horizontalRay, { x: min.x - radius, y: -Infinity, z: min.z }, { x: max.x + radius, y: Infinity, z: max.z }),
+        boxInterval(horizontalRay, { x: min.x, y: -Infinity, z: min.z - radius }, { x: max.x, y: Infinity, z: max.z + radius }),
+    ];
+    for (const cornerX of [min.x, max.x]) {
+        for (const cornerZ of [min.z, max.z]) {
+            pieces.push(cylinderInterval(horizontalRay, 'y', { x: cornerX, y: 0, z: cornerZ }, radius));
+        }
+    }
+    return mergeIntervals(pieces);
+}
+
+export { boxInterval, intersectIntervals, roundedBoxInterval, roundedRectangleInterval, slabInterval, type Axis, type Interval, type Ray };
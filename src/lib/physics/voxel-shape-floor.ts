@@ -0,0 +1,116 @@
+import { clamp } from '../helpers/math';
+import * as THREE from '../libs/three-usage';
+import { EVoxelShape } from '../terrain/voxelmap/i-voxelmap';
+
+/** Horizontal direction towards which a stairs or slope rises, or null for the other shapes. */
+function getRisingDirection(shape: EVoxelShape): THREE.Vector2Like | null {
+    switch (shape) {
+        case EVoxelShape.STAIRS_POSITIVE_X:
+        case EVoxelShape.SLOPE_POSITIVE_X:
+            return { x: 1, y: 0 };
+        case EVoxelShape.STAIRS_NEGATIVE_X:
+        case EVoxelShape.SLOPE_NEGATIVE_X:
+            return { x: -1, y: 0 };
+        case EVoxelShape.STAIRS_POSITIVE_Z:
+        case EVoxelShape.SLOPE_POSITIVE_Z:
+            return { x: 0, y: 1 };
+        case EVoxelShape.STAIRS_NEGATIVE_Z:
+        case EVoxelShape.SLOPE_NEGATIVE_Z:
+            return { x: 0, y: -1 };
+        default:
+            return null;
+    }
+}
+
+function isSlope(shape: EVoxelShape): boolean {
+    return shape >= EVoxelShape.SLOPE_POSITIVE_X && shape <= EVoxelShape.SLOPE_NEGATIVE_Z;
+}
+
+type ShapeBox = {
+    readonly min: THREE.Vector3Like;
+    readonly max: THREE.Vector3Like;
+};
+
+/** Count of steps used to approximate a slope with boxes. */
+const slopeStepsCount = 4;
+
+/**
+ * Decomposes a shape into axis-aligned boxes, used for the collisions. Slopes are approximated by stairs of "slopeStepsCount" steps,
+ * that contain the slope.
+ * @returns Boxes in [0, 1]³, relatively to the voxel.
+ */
+function computeShapeBoxes(shape: EVoxelShape): ShapeBox[] {
+    if (shape === EVoxelShape.SLAB_BOTTOM) {
+        return [{ min: { x: 0, y: 0, z: 0 }, max: { x: 1, y: 0.5, z: 1 } }];
+    }
+    if (shape === EVoxelShape.SLAB_TOP) {
+        return [{ min: { x: 0, y: 0.5, z: 0 }, max: { x: 1, y: 1, z: 1 } }];
+    }
+    const risingDirection = getRisingDirection(shape);
+    if (!risingDirection) {
+        return [{ min: { x: 0, y: 0, z: 0 }, max: { x: 1, y: 1, z: 1 } }];
+    }
+
+    // box covering the given range of progress along the rising direction, up to the given height
+    const buildBox = (progressFrom: number, progressTo: number, yFrom: number, yTo: number): ShapeBox => {
+        const buildRange = (direction: number) => {
+            if (direction > 0) {
+                return { from: progressFrom, to: progressTo };
+            } else if (direction < 0) {
+                return { from: 1 - progressTo, to: 1 - progressFrom };
+            }
+            return { from: 0, to: 1 };
+        };
+        const rangeX = buildRange(risingDirection.x);
+        const rangeZ = buildRange(risingDirection.y);
+        return {
+            min: { x: rangeX.from, y: yFrom, z: rangeZ.from },
+            max: { x: rangeX.to, y: yTo, z: rangeZ.to },
+        };
+    };
+
+    if (isSlope(shape)) {
+        const boxes: ShapeBox[] = [];
+        for (let iStep = 0; iStep < slopeStepsCount; iStep++) {
+            boxes.push(buildBox(iStep / slopeStepsCount, (iStep + 1) / slopeStepsCount, 0, (iStep + 1) / slopeStepsCount));
+        }
+        return boxes;
+    }
+    return [buildBox(0, 1, 0, 0.5), buildBox(0.5, 1, 0.5, 1)];
+}
+
+/**
+ * @param localX Position inside of the voxel, in [0, 1].
+ * @param localZ Position inside of the voxel, in [0, 1].
+ * @returns The height of the top of the shape at the given position, in [0, 1] relatively to the bottom of the voxel.
+ */
+function computeShapeFloorHeight(shape: EVoxelShape, localX: number, localZ: number): number {
+    if (shape === EVoxelShape.SLAB_BOTTOM) {
+        return 0.5;
+    }
+    const risingDirection = getRisingDirection(shape);
+    if (!risingDirection) {
+        return 1;
+    }
+
+    // how far along the rising direction the position is, in [0, 1]
+    const progress = clamp(
+        risingDirection.x > 0 ? localX : risingDirection.x < 0 ? 1 - localX : risingDirection.y > 0 ? localZ : 1 - localZ,
+        0,
+        1
+    );
+    if (isSlope(shape)) {
+        return progress;
+    }
+    return progress < 0.5 ? 0.5 : 1;
+}
+
+function computeShapeFloorNormal(shape: EVoxelShape, target = new THREE.Vector3()): THREE.Vector3 {
+    const risingDirection = getRisingDirection(shape);
+    if (!risingDirection || !isSlope(shape)) {
+        return target.set(0, 1, 0);
+    }
+    return target.set(-risingDirection.x, 1, -risingDirection.y).normalize();
+}
+
+export { computeShapeBoxes, computeShapeFloorHeight, computeShapeFloorNormal, isSlope, type ShapeBox };
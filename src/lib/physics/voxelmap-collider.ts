@@ -4,10 +4,10 @@ import { logger } from '../helpers/logger';
 import type * as THREE from '../libs/three-usage';
 import { ChunkId } from '../terrain/voxelmap/chunk/chunk-id';
 import { VoxelEncoder } from '../terrain/voxelmap/encoding/voxel-encoder';
-import { type VoxelsChunkOrdering } from '../terrain/voxelmap/i-voxelmap';
+import { EVoxelShape, type VoxelsChunkOrdering } from '../terrain/voxelmap/i-voxelmap';
 import { type VoxelsChunkData } from '../terrain/voxelmap/voxelsRenderable/voxelsRenderableFactory/voxels-renderable-factory-base';
 
-import { EVoxelStatus, type IVoxelmapCollider } from './i-voxelmap-collider';
+import { EVoxelPhysicsClass, EVoxelStatus, type IVoxelmapCollider, type VoxelPhysics } from './i-voxelmap-collider';
 
 type ChunkCollider =
     | {
@@ -24,16 +24,25 @@ type ChunkCollider =
           readonly type: 'raw';
           readonly data: Uint16Array; // one uint16 per voxel
       }
-    | {
+    | ({
           readonly isEmpty: false;
           readonly isFull: false;
           readonly type: 'compacted';
-          readonly data: Uint8Array; // one bit per voxel
-      };
+      } & CompactedChunkData);
+
+type CompactedChunkData = {
+    readonly palette: Uint16Array; // blocking voxels present in the chunk, as solid voxels without their checkerboard flag
+    readonly bitsPerVoxel: number; // 1, 2, 4 or 8
+    readonly data: Uint8Array; // for each voxel, 0 if empty, otherwise 1 + index in the palette
+};
 
 type Parameters = {
     readonly chunkSize: THREE.Vector3Like;
     readonly voxelsChunkOrdering: VoxelsChunkOrdering;
+    /** Physics class of each material ID. Materials not listed are SOLID. */
+    readonly materialsPhysicsClasses?: Readonly<Record<number, EVoxelPhysicsClass>>;
+    /** If provided, empty voxels below this altitude are LIQUID. */
+    readonly waterLevel?: number;
 };
 
 type VoxelmapColliderStatistics = {
@@ -57,9 +66,15 @@ type VoxelsChunkDataForCollisions =
       };
 
 class VoxelmapCollider implements IVoxelmapCollider {
+    private static readonly empty = -1;
+    private static readonly notLoaded = -2;
+    private static readonly fullUnknownMaterial = -3;
+
     private readonly chunkSize: THREE.Vector3Like;
     private readonly voxelsChunkOrdering: VoxelsChunkOrdering;
     private readonly indexFactors: THREE.Vector3Like;
+    private readonly materialsPhysicsClasses: Readonly<Record<number, EVoxelPhysicsClass>>;
+    private readonly waterLevel: number | null;
 
     private readonly voxelEncoder = new VoxelEncoder();
 
@@ -70,23 +85,66 @@ class VoxelmapCollider implements IVoxelmapCollider {
     private readonly compactor = {
         voxelEncoder: this.voxelEncoder,
 
-        compactChunk(rawData: Uint16Array): Uint8Array {
-            const compactedData = new Uint8Array(Math.ceil(rawData.length / 8));
+        /* Returns null if the chunk has too many different materials to be compacted. */
+        compactChunk(rawData: Uint16Array): CompactedChunkData | null {
+            const paletteList: number[] = [];
+            const paletteIndices = new Map<number, number>();
+            for (let iVoxelIndex = 0; iVoxelIndex < rawData.length; iVoxelIndex++) {
+                const paletteValue = this.getCollisionVoxel(rawData[iVoxelIndex]!);
+                if (paletteValue !== null) {
+                    if (!paletteIndices.has(paletteValue)) {
+                        paletteList.push(paletteValue);
+                        paletteIndices.set(paletteValue, paletteList.length);
+                    }
+                }
+            }
+
+            let bitsPerVoxel = 1;
+            while (paletteList.length >= 1 << bitsPerVoxel) {
+                bitsPerVoxel *= 2;
+                if (bitsPerVoxel > 8) {
+                    return null;
+                }
+            }
+
+            const voxelsPerUint8 = 8 / bitsPerVoxel;
+            const data = new Uint8Array(Math.ceil(rawData.length / voxelsPerUint8));
             for (let iVoxelIndex = 0; iVoxelIndex < rawData.length; iVoxelIndex++) {
-                const voxelData = rawData[iVoxelIndex]!;
-                if (this.voxelEncoder.solidVoxel.isOfType(voxelData)) {
-                    const uint8Index = Math.floor(iVoxelIndex / 8);
-                    const bitIndex = iVoxelIndex - 8 * uint8Index;
-                    compactedData[uint8Index]! |= 1 << bitIndex;
+                const paletteValue = this.getCollisionVoxel(rawData[iVoxelIndex]!);
+                if (paletteValue !== null) {
+                    const paletteIndex = paletteIndices.get(paletteValue)!;
+                    const uint8Index = Math.floor(iVoxelIndex / voxelsPerUint8);
+                    const bitIndex = bitsPerVoxel * (iVoxelIndex - voxelsPerUint8 * uint8Index);
+                    data[uint8Index]! |= paletteIndex << bitIndex;
                 }
             }
-            return compactedData;
+            return { palette: new Uint16Array(paletteList), bitsPerVoxel, data };
+        },
+
+        /**
+         * Returns the solid voxel that represents the given voxel for collisions, without its checkerboard flag, or null if it is not blocking.
+         * Translucent voxels (glass, ice, water...) block like full cubes of their material, whatever their fill level.
+         */
+        getCollisionVoxel(voxelData: number): number | null {
+            if (this.voxelEncoder.solidVoxel.isOfType(voxelData)) {
+                return this.voxelEncoder.solidVoxel.encode(
+                    false,
+                    this.voxelEncoder.solidVoxel.getMaterialId(voxelData),
+                    this.voxelEncoder.solidVoxel.getShape(voxelData)
+                );
+            }
+            if (this.voxelEncoder.translucentVoxel.isOfType(voxelData)) {
+                return this.voxelEncoder.solidVoxel.encode(false, this.voxelEncoder.translucentVoxel.getMaterialId(voxelData));
+            }
+            return null;
         },
     };
 
     public constructor(params: Parameters) {
         this.chunkSize = params.chunkSize;
         this.voxelsChunkOrdering = params.voxelsChunkOrdering;
+        this.materialsPhysicsClasses = params.materialsPhysicsClasses ?? {};
+        this.waterLevel = params.waterLevel ?? null;
 
         const margins = 2;
         type Component = 'x' | 'y' | 'z';
@@ -124,6 +182,7 @@ class VoxelmapCollider implements IVoxelmapCollider {
                 commonCode: `self.compactor = {
                 voxelEncoder: ${this.compactor.voxelEncoder.serialize()},
                 ${this.compactor.compactChunk},
+                ${this.compactor.getCollisionVoxel},
             };`,
                 tasks: {
                     compactChunk: (rawData: Uint16Array) => {
@@ -132,10 +191,10 @@ class VoxelmapCollider implements IVoxelmapCollider {
                         };
 
                         const compactor = (self as unknown as WorkerGlobalScope).compactor;
-                        const buffer = compactor.compactChunk(rawData);
+                        const compactedData = compactor.compactChunk(rawData);
                         return {
-                            taskResult: buffer,
-                            taskResultTransferablesList: [buffer.buffer],
+                            taskResult: compactedData,
+                            taskResultTransferablesList: compactedData ? [compactedData.palette.buffer, compactedData.data.buffer] : [],
                         };
                     },
                 },
@@ -163,78 +222,66 @@ class VoxelmapCollider implements IVoxelmapCollider {
             if (this.compactionWorkersPool) {
                 const rawChunkCollider: ChunkCollider = { isEmpty: false, isFull: false, type: 'raw', data: chunk.data };
                 this.chunkCollidersMap.set(chunkIdString, rawChunkCollider);
-                this.compactionWorkersPool.submitTask<Uint8Array>('compactChunk', chunk.data).then(data => {
+                this.compactionWorkersPool.submitTask<CompactedChunkData | null>('compactChunk', chunk.data).then(compactedData => {
                     if (this.chunkCollidersMap.get(chunkIdString) === rawChunkCollider) {
-                        this.chunkCollidersMap.set(chunkIdString, {
-                            isEmpty: false,
-                            isFull: false,
-                            type: 'compacted',
-                            data,
-                        });
+                        if (compactedData) {
+                            this.chunkCollidersMap.set(chunkIdString, {
+                                isEmpty: false,
+                                isFull: false,
+                                type: 'compacted',
+                                ...compactedData,
+                            });
+                        }
                     } else {
                         logger.warn(`Chunk collider "${chunkIdString}" changed unexpectedly.`);
                     }
                 });
             } else {
-                this.chunkCollidersMap.set(chunkIdString, {
-                    isEmpty: false,
-                    isFull: false,
-                    type: 'compacted',
-                    data: this.compactor.compactChunk(chunk.data),
-                });
+                const compactedData = this.compactor.compactChunk(chunk.data);
+                if (compactedData) {
+                    this.chunkCollidersMap.set(chunkIdString, { isEmpty: false, isFull: false, type: 'compacted', ...compactedData });
+                } else {
+                    this.chunkCollidersMap.set(chunkIdString, { isEmpty: false, isFull: false, type: 'raw', data: chunk.data });
+                }
             }
         }
     }
 
     public getVoxel(worldVoxelCoords: THREE.Vector3Like): EVoxelStatus {
-        const chunkId = new ChunkId({
-            x: Math.floor(worldVoxelCoords.x / this.chunkSize.x),
-            y: Math.floor(worldVoxelCoords.y / this.chunkSize.y),
-            z: Math.floor(worldVoxelCoords.z / this.chunkSize.z),
-        });
-        const chunk = this.chunkCollidersMap.get(chunkId.asString);
-        if (!chunk) {
+        const voxel = this.getSolidVoxel(worldVoxelCoords);
+        if (voxel === VoxelmapCollider.notLoaded) {
             return EVoxelStatus.NOT_LOADED;
-        }
-
-        if (chunk.isEmpty) {
+        } else if (voxel === VoxelmapCollider.empty || this.getSolidVoxelPhysicsClass(voxel) === EVoxelPhysicsClass.LIQUID) {
             return EVoxelStatus.EMPTY;
-        } else if (chunk.isFull) {
-            return EVoxelStatus.FULL;
         }
+        return EVoxelStatus.FULL;
+    }
 
-        const localVoxelCoords = {
-            x: worldVoxelCoords.x - chunkId.x * this.chunkSize.x + 1,
-            y: worldVoxelCoords.y - chunkId.y * this.chunkSize.y + 1,
-            z: worldVoxelCoords.z - chunkId.z * this.chunkSize.z + 1,
+    public getVoxelPhysics(worldVoxelCoords: THREE.Vector3Like): VoxelPhysics {
+        const voxel = this.getSolidVoxel(worldVoxelCoords);
+        if (voxel === VoxelmapCollider.notLoaded) {
+            return { status: EVoxelStatus.NOT_LOADED, materialId: null, physicsClass: null };
+        } else if (voxel === VoxelmapCollider.empty) {
+            const isUnderwater = this.waterLevel !== null && worldVoxelCoords.y < this.waterLevel;
+            return { status: EVoxelStatus.EMPTY, materialId: null, physicsClass: isUnderwater ? EVoxelPhysicsClass.LIQUID : null };
+        } else if (voxel === VoxelmapCollider.fullUnknownMaterial) {
+            return { status: EVoxelStatus.FULL, materialId: null, physicsClass: EVoxelPhysicsClass.SOLID };
+        }
+        const physicsClass = this.getSolidVoxelPhysicsClass(voxel);
+        return {
+            // liquid voxels don't block entities
+            status: physicsClass === EVoxelPhysicsClass.LIQUID ? EVoxelStatus.EMPTY : EVoxelStatus.FULL,
+            materialId: this.voxelEncoder.solidVoxel.getMaterialId(voxel),
+            physicsClass,
         };
+    }
 
-        const voxelIndex =
-            localVoxelCoords.x * this.indexFactors.x + localVoxelCoords.y * this.indexFactors.y + localVoxelCoords.z * this.indexFactors.z;
-
-        if (chunk.type === 'compacted') {
-            const uint8Index = Math.floor(voxelIndex / 8);
-            const uint8 = chunk.data[uint8Index];
-            if (typeof uint8 === 'undefined') {
-                throw new Error();
-            }
-
-            const bitIndex = voxelIndex - 8 * uint8Index;
-            if (uint8 & (1 << bitIndex)) {
-                return EVoxelStatus.FULL;
-            }
-            return EVoxelStatus.EMPTY;
-        } else {
-            const voxel = chunk.data[voxelIndex];
-            if (typeof voxel === 'undefined') {
-                throw new Error();
-            }
-
-            if (this.voxelEncoder.solidVoxel.isOfType(voxel)) {
-                return EVoxelStatus.FULL;
-            }
-            return EVoxelStatus.EMPTY;
+    public getVoxelShape(worldVoxelCoords: THREE.Vector3Like): EVoxelShape {
+        const voxel = this.getSolidVoxel(worldVoxelCoords);
+        if (voxel < 0 || this.getSolidVoxelPhysicsClass(voxel) === EVoxelPhysicsClass.LIQUID) {
+            return EVoxelShape.FULL;
         }
+        return this.voxelEncoder.solidVoxel.getShape(voxel);
     }
 
     public getStatistics(): VoxelmapColliderStatistics {
@@ -256,17 +303,78 @@ class VoxelmapCollider implements IVoxelmapCollider {
 
             if (!chunk.isEmpty && !chunk.isFull) {
                 if (chunk.type === 'compacted') {
+                    const memoryBytes = chunk.data.byteLength + chunk.palette.byteLength;
                     statistics.compactedChunks.count++;
-                    statistics.compactedChunks.totalMemoryBytes += chunk.data.byteLength;
+                    statistics.compactedChunks.totalMemoryBytes += memoryBytes;
+                    statistics.totalMemoryBytes += memoryBytes;
                 } else {
                     statistics.rawChunks.count++;
                     statistics.rawChunks.totalMemoryBytes += chunk.data.byteLength;
+                    statistics.totalMemoryBytes += chunk.data.byteLength;
                 }
-                statistics.totalMemoryBytes += chunk.data.byteLength;
             }
         }
         return statistics;
     }
+
+    /** @param voxel Data returned by "getSolidVoxel", other than the special negative values. */
+    private getSolidVoxelPhysicsClass(voxel: number): EVoxelPhysicsClass {
+        if (voxel === VoxelmapCollider.fullUnknownMaterial) {
+            return EVoxelPhysicsClass.SOLID;
+        }
+        return this.materialsPhysicsClasses[this.voxelEncoder.solidVoxel.getMaterialId(voxel)] ?? EVoxelPhysicsClass.SOLID;
+    }
+
+    /** @returns The data of the solid voxel, without its checkerboard flag, or one of the special negative values. */
+    private getSolidVoxel(worldVoxelCoords: THREE.Vector3Like): number {
+        const chunkId = new ChunkId({
+            x: Math.floor(worldVoxelCoords.x / this.chunkSize.x),
+            y: Math.floor(worldVoxelCoords.y / this.chunkSize.y),
+            z: Math.floor(worldVoxelCoords.z / this.chunkSize.z),
+        });
+        const chunk = this.chunkCollidersMap.get(chunkId.asString);
+        if (!chunk) {
+            return VoxelmapCollider.notLoaded;
+        }
+
+        if (chunk.isEmpty) {
+            return VoxelmapCollider.empty;
+        } else if (chunk.isFull) {
+            return VoxelmapCollider.fullUnknownMaterial;
+        }
+
+        const localVoxelCoords = {
+            x: worldVoxelCoords.x - chunkId.x * this.chunkSize.x + 1,
+            y: worldVoxelCoords.y - chunkId.y * this.chunkSize.y + 1,
+            z: worldVoxelCoords.z - chunkId.z * this.chunkSize.z + 1,
+        };
+
+        const voxelIndex =
+            localVoxelCoords.x * this.indexFactors.x + localVoxelCoords.y * this.indexFactors.y + localVoxelCoords.z * this.indexFactors.z;
+
+        if (chunk.type === 'compacted') {
+            const voxelsPerUint8 = 8 / chunk.bitsPerVoxel;
+            const uint8Index = Math.floor(voxelIndex / voxelsPerUint8);
+            const uint8 = chunk.data[uint8Index];
+            if (typeof uint8 === 'undefined') {
+                throw new Error();
+            }
+
+            const bitIndex = chunk.bitsPerVoxel * (voxelIndex - voxelsPerUint8 * uint8Index);
+            const paletteIndex = (uint8 >> bitIndex) & ((1 << chunk.bitsPerVoxel) - 1);
+            if (paletteIndex === 0) {
+                return VoxelmapCollider.empty;
+            }
+            return chunk.palette[paletteIndex - 1]!;
+        } else {
+            const voxel = chunk.data[voxelIndex];
+            if (typeof voxel === 'undefined') {
+                throw new Error();
+            }
+
+            return this.compactor.getCollisionVoxel(voxel) ?? VoxelmapCollider.empty;
+        }
+    }
 }
 
 export { VoxelmapCollider };
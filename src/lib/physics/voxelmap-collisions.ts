@@ -1,8 +1,20 @@
 import { EVoxelStatus } from '..';
 import { clamp } from '../helpers/math';
 import * as THREE from '../libs/three-usage';
-
-import { type IVoxelmapCollider } from './i-voxelmap-collider';
+import { EVoxelShape } from '../terrain/voxelmap/i-voxelmap';
+
+import { EVoxelPhysicsClass, type IVoxelmapCollider } from './i-voxelmap-collider';
+import { computeShapeBoxes, computeShapeFloorHeight, computeShapeFloorNormal, isSlope } from './voxel-shape-floor';
+import {
+    boxInterval,
+    intersectIntervals,
+    roundedBoxInterval,
+    roundedRectangleInterval,
+    slabInterval,
+    type Axis,
+    type Interval,
+    type Ray,
+} from './swept-intersections';
 
 type Parameters = {
     readonly voxelmapCollider: IVoxelmapCollider;
@@ -47,20 +59,98 @@ type EntityCollisionOptions = {
     readonly deltaTime: number;
     readonly gravity: number;
     readonly ascendSpeed: number;
+    /** Highest ledge (in voxels) the entity automatically climbs when walking into it. Defaults to 1. */
+    readonly maxStepHeight?: number;
+    /** "smooth": ledges are climbed at "ascendSpeed". "instant": the entity is teleported on top of the ledge. Defaults to "smooth". */
+    readonly stepMode?: 'smooth' | 'instant';
+    /**
+     * New height for the entity (for instance when crouching or standing up).
+     * Shrinking is always accepted, growing is refused if there is not enough headroom. The resulting height is in the output.
+     */
+    readonly requestedHeight?: number;
+    /** Only relevant if the voxelmap collider provides physics classes. */
+    readonly physics?: EntityPhysicsOptions;
     readonly missingVoxels: {
         readonly considerAsBlocking: boolean;
         readonly exportAsList: boolean;
     };
 };
 
+type EntityPhysicsOptions = {
+    /** Damping (per second) of the horizontal velocity when on ground. Defaults to 0: the velocity is kept. */
+    readonly groundFriction?: number;
+    /** Factor applied to "groundFriction" on SLIPPERY voxels. Defaults to 0.1. */
+    readonly slipperyFrictionFactor?: number;
+    /** Upward acceleration when fully immersed in a liquid, relative to gravity. Above 1, entities float. Defaults to 1.2. */
+    readonly liquidBuoyancy?: number;
+    /** Damping (per second) of the velocity when fully immersed in a liquid. Defaults to 3. */
+    readonly liquidDrag?: number;
+    /** Vertical speed when walking into a CLIMBABLE voxel. Defaults to 3. */
+    readonly climbSpeed?: number;
+};
+
+type BlockedDirections = {
+    positiveX: boolean;
+    negativeX: boolean;
+    positiveZ: boolean;
+    negativeZ: boolean;
+};
+
 type EntityCollisionOutput = {
     computationStatus: ComputationStatus;
     position: THREE.Vector3;
     velocity: THREE.Vector3;
+    /** Height of the entity after the movement. Differs from the input height if a height change was accepted. */
+    height: number;
     isOnGround: boolean;
+    /** Normal of the surface the entity stands on, or null when not on ground. */
+    groundNormal: THREE.Vector3 | null;
+    /** Whether the head of the entity bumped into the voxelmap during the movement. */
+    hitCeiling: boolean;
+    /** Horizontal directions in which walls stopped the entity during the movement. */
+    blockedDirections: BlockedDirections;
+    /** Physics class of the voxel the entity stands on, or null when not on ground. */
+    groundPhysicsClass: EVoxelPhysicsClass | null;
+    /** Part of the entity height that is in a liquid, from 0 to 1. */
+    liquidImmersion: number;
+    /** Whether the entity climbed a CLIMBABLE voxel during the movement. */
+    isClimbing: boolean;
+    /** Whether the entity touched a DAMAGING voxel during the movement. */
+    isTouchingDamaging: boolean;
     missingVoxels?: THREE.Vector3Like[];
 };
 
+/** Vertical cylinder standing on its base, as used by EntityCollider. */
+type VerticalCylinder = {
+    readonly radius: number;
+    readonly height: number;
+    readonly position: THREE.Vector3Like;
+};
+
+type ShapeCastOptions = {
+    readonly maxDistance: number;
+    readonly missingVoxels: {
+        readonly considerAsBlocking: boolean;
+        readonly exportAsList: boolean;
+    };
+};
+
+type ShapeCastSweep = {
+    /** Normalized cast direction. */
+    readonly direction: THREE.Vector3;
+    /** World bounds of the shape once moved by the given distance along the direction. */
+    readonly getBounds: (distance: number) => THREE.Box3;
+    /** Range of distances along the direction for which the shape overlaps the given world box. */
+    readonly intersectBox: (box: THREE.Box3) => Interval | null;
+    /** Contact point and normal, for a hit that does not start inside the box. */
+    readonly buildContact: (distance: number, box: THREE.Box3, interval: Interval) => ShapeCastContact;
+};
+
+type ShapeCastContact = {
+    readonly point: THREE.Vector3Like;
+    readonly normal: THREE.Vector3Like;
+};
+
 function removeVoxelIdDuplicates(list: Iterable<THREE.Vector3Like>): THREE.Vector3Like[] {
     const map = new Map<string, THREE.Vector3Like>();
     for (const voxelId of list) {
@@ -69,6 +159,10 @@ function removeVoxelIdDuplicates(list: Iterable<THREE.Vector3Like>): THREE.Vecto
     return Array.from(map.values());
 }
 
+function voxelBox(voxel: THREE.Vector3Like): THREE.Box3 {
+    return new THREE.Box3(new THREE.Vector3().copy(voxel), new THREE.Vector3(voxel.x + 1, voxel.y + 1, voxel.z + 1));
+}
+
 class VoxelmapCollisions {
     private readonly voxelmapCollider: IVoxelmapCollider;
 
@@ -305,17 +399,185 @@ class VoxelmapCollisions {
         return null;
     }
 
+    /**
+     * Moves a sphere along a direction, and returns the first contact with the voxelmap.
+     * If the sphere already overlaps the voxelmap at its starting position, the intersection distance is 0 and the normal is opposed to the direction.
+     */
+    public sphereCast(sphere: THREE.Sphere, direction: THREE.Vector3Like, options: ShapeCastOptions): RaycastOutput | null {
+        const sweepDirection = this.normalizeCastDirection(direction);
+        const ray: Ray = { origin: sphere.center, direction: sweepDirection };
+
+        return this.shapeCast(
+            {
+                direction: sweepDirection,
+                getBounds: (distance: number) => {
+                    const center = sphere.center.clone().addScaledVector(sweepDirection, distance);
+                    return new THREE.Box3().setFromCenterAndSize(center, new THREE.Vector3().setScalar(2 * sphere.radius));
+                },
+                intersectBox: (box: THREE.Box3) => roundedBoxInterval(ray, box.min, box.max, sphere.radius),
+                buildContact: (distance: number, box: THREE.Box3) => {
+                    const center = sphere.center.clone().addScaledVector(sweepDirection, distance);
+                    const point = center.clone().clamp(box.min, box.max);
+                    const normal = center.sub(point);
+                    if (normal.lengthSq() === 0) {
+                        normal.copy(sweepDirection).multiplyScalar(-1);
+                    }
+                    return { point, normal: normal.normalize() };
+                },
+            },
+            options
+        );
+    }
+
+    /**
+     * Moves an axis-aligned box along a direction, and returns the first contact with the voxelmap.
+     * If the box already overlaps the voxelmap at its starting position, the intersection distance is 0 and the normal is opposed to the direction.
+     */
+    public boxCast(box: THREE.Box3, direction: THREE.Vector3Like, options: ShapeCastOptions): RaycastOutput | null {
+        if (box.isEmpty()) {
+            throw new Error(`Cannot cast an empty box.`);
+        }
+
+        const sweepDirection = this.normalizeCastDirection(direction);
+        const center = box.getCenter(new THREE.Vector3());
+        const halfSize = box.getSize(new THREE.Vector3()).multiplyScalar(0.5);
+        const ray: Ray = { origin: center, direction: sweepDirection };
+
+        return this.shapeCast(
+            {
+                direction: sweepDirection,
+                getBounds: (distance: number) => box.clone().translate(sweepDirection.clone().multiplyScalar(distance)),
+                intersectBox: (otherBox: THREE.Box3) =>
+                    boxInterval(ray, otherBox.min.clone().sub(halfSize), otherBox.max.clone().add(halfSize)),
+                buildContact: (distance: number, otherBox: THREE.Box3) => {
+                    const movedBox = box.clone().translate(sweepDirection.clone().multiplyScalar(distance));
+
+                    // the contact face is the one along the axis that was entered last
+                    let contactAxis: Axis = 'x';
+                    let contactAxisEnter = -Infinity;
+                    for (const axis of ['x', 'y', 'z'] as const) {
+                        const slab = slabInterval(
+                            center[axis],
+                            sweepDirection[axis],
+                            otherBox.min[axis] - halfSize[axis],
+                            otherBox.max[axis] + halfSize[axis]
+                        );
+                        if (slab && sweepDirection[axis] !== 0 && slab.enter > contactAxisEnter) {
+                            contactAxis = axis;
+                            contactAxisEnter = slab.enter;
+                        }
+                    }
+
+                    const point = new THREE.Vector3();
+                    const normal = new THREE.Vector3();
+                    for (const axis of ['x', 'y', 'z'] as const) {
+                        if (axis === contactAxis) {
+                            const isMovingForward = sweepDirection[axis] > 0;
+                            point[axis] = isMovingForward ? otherBox.min[axis] : otherBox.max[axis];
+                            normal[axis] = isMovingForward ? -1 : 1;
+                        } else {
+                            const overlapFrom = Math.max(movedBox.min[axis], otherBox.min[axis]);
+                            const overlapTo = Math.min(movedBox.max[axis], otherBox.max[axis]);
+                            point[axis] = 0.5 * (overlapFrom + overlapTo);
+                        }
+                    }
+                    return { point, normal };
+                },
+            },
+            options
+        );
+    }
+
+    /**
+     * Moves a vertical cylinder (for instance an entity collider) along a direction, and returns the first contact with the voxelmap.
+     * If the cylinder already overlaps the voxelmap at its starting position, the intersection distance is 0 and the normal is opposed to the direction.
+     */
+    public cylinderCast(cylinder: VerticalCylinder, direction: THREE.Vector3Like, options: ShapeCastOptions): RaycastOutput | null {
+        const sweepDirection = this.normalizeCastDirection(direction);
+        const ray: Ray = { origin: cylinder.position, direction: sweepDirection };
+        const getVerticalInterval = (box: THREE.Box3) =>
+            slabInterval(cylinder.position.y, sweepDirection.y, box.min.y - cylinder.height, box.max.y);
+
+        return this.shapeCast(
+            {
+                direction: sweepDirection,
+                getBounds: (distance: number) => {
+                    const base = new THREE.Vector3().copy(cylinder.position).addScaledVector(sweepDirection, distance);
+                    return new THREE.Box3(
+                        new THREE.Vector3(base.x - cylinder.radius, base.y, base.z - cylinder.radius),
+                        new THREE.Vector3(base.x + cylinder.radius, base.y + cylinder.height, base.z + cylinder.radius)
+                    );
+                },
+                intersectBox: (box: THREE.Box3) =>
+                    intersectIntervals(getVerticalInterval(box), roundedRectangleInterval(ray, box.min, box.max, cylinder.radius)),
+                buildContact: (distance: number, box: THREE.Box3, interval: Interval) => {
+                    const base = new THREE.Vector3().copy(cylinder.position).addScaledVector(sweepDirection, distance);
+                    const point = new THREE.Vector3(clamp(base.x, box.min.x, box.max.x), 0, clamp(base.z, box.min.z, box.max.z));
+
+                    const verticalInterval = getVerticalInterval(box);
+                    if (verticalInterval && sweepDirection.y !== 0 && verticalInterval.enter >= interval.enter) {
+                        // the cylinder hit the top or the bottom of the voxel
+                        const isMovingUp = sweepDirection.y > 0;
+                        point.y = isMovingUp ? box.min.y : box.max.y;
+                        return { point, normal: new THREE.Vector3(0, isMovingUp ? -1 : 1, 0) };
+                    }
+
+                    const overlapFrom = Math.max(base.y, box.min.y);
+                    const overlapTo = Math.min(base.y + cylinder.height, box.max.y);
+                    point.y = 0.5 * (overlapFrom + overlapTo);
+                    const normal = new THREE.Vector3(base.x - point.x, 0, base.z - point.z);
+                    if (normal.lengthSq() === 0) {
+                        normal.set(-sweepDirection.x, 0, -sweepDirection.z);
+                    }
+                    return { point, normal: normal.normalize() };
+                },
+            },
+            options
+        );
+    }
+
     public entityMovement(entityCollider: EntityCollider, options: EntityCollisionOptions): EntityCollisionOutput {
         const missingVoxels: THREE.Vector3Like[] | null = options.missingVoxels.exportAsList ? [] : null;
 
-        let currentState = entityCollider;
         const output: EntityCollisionOutput = {
             computationStatus: 'ok',
             position: new THREE.Vector3().copy(entityCollider.position),
             velocity: new THREE.Vector3().copy(entityCollider.velocity),
+            height: entityCollider.height,
             isOnGround: false,
+            groundNormal: null,
+            hitCeiling: false,
+            blockedDirections: { positiveX: false, negativeX: false, positiveZ: false, negativeZ: false },
+            groundPhysicsClass: null,
+            liquidImmersion: 0,
+            isClimbing: false,
+            isTouchingDamaging: false,
         };
 
+        const requestedHeight = options.requestedHeight;
+        if (typeof requestedHeight !== 'undefined' && requestedHeight !== entityCollider.height) {
+            if (!(requestedHeight > 0)) {
+                throw new Error(`Invalid requested height "${requestedHeight}".`);
+            }
+
+            if (requestedHeight < entityCollider.height) {
+                output.height = requestedHeight;
+            } else {
+                const headroom = this.checkHeadroom(entityCollider, requestedHeight, options);
+                if (headroom.computationStatus === 'partial') {
+                    output.computationStatus = 'partial';
+                }
+                if (missingVoxels) {
+                    missingVoxels.push(...headroom.missingVoxels);
+                }
+                if (headroom.isFree) {
+                    output.height = requestedHeight;
+                }
+            }
+        }
+
+        let currentState: EntityCollider = { ...entityCollider, height: output.height };
+
         const applyAndMergeStep = (deltaTime: number) => {
             const localOutput = this.entityMovementInternal(currentState, {
                 ...options,
@@ -335,6 +597,16 @@ class VoxelmapCollisions {
             output.position = localOutput.position;
             output.velocity = localOutput.velocity;
             output.isOnGround = localOutput.isOnGround;
+            output.groundNormal = localOutput.groundNormal;
+            output.hitCeiling ||= localOutput.hitCeiling;
+            output.blockedDirections.positiveX ||= localOutput.blockedDirections.positiveX;
+            output.blockedDirections.negativeX ||= localOutput.blockedDirections.negativeX;
+            output.blockedDirections.positiveZ ||= localOutput.blockedDirections.positiveZ;
+            output.blockedDirections.negativeZ ||= localOutput.blockedDirections.negativeZ;
+            output.groundPhysicsClass = localOutput.groundPhysicsClass;
+            output.liquidImmersion = localOutput.liquidImmersion;
+            output.isClimbing ||= localOutput.isClimbing;
+            output.isTouchingDamaging ||= localOutput.isTouchingDamaging;
 
             if (missingVoxels && localOutput.missingVoxels) {
                 missingVoxels.push(...localOutput.missingVoxels);
@@ -379,6 +651,18 @@ class VoxelmapCollisions {
         if (gravity < 0) {
             throw new Error(`Invert gravity not supported.`);
         }
+        const maxStepHeight = options.maxStepHeight ?? 1;
+        if (!Number.isInteger(maxStepHeight) || maxStepHeight < 0) {
+            throw new Error(`Invalid max step height "${maxStepHeight}".`);
+        }
+
+        const physics = {
+            groundFriction: options.physics?.groundFriction ?? 0,
+            slipperyFrictionFactor: options.physics?.slipperyFrictionFactor ?? 0.1,
+            liquidBuoyancy: options.physics?.liquidBuoyancy ?? 1.2,
+            liquidDrag: options.physics?.liquidDrag ?? 3,
+            climbSpeed: options.physics?.climbSpeed ?? 3,
+        };
 
         const missingVoxels: THREE.Vector3Like[] | null = options.missingVoxels.exportAsList ? [] : null;
 
@@ -422,7 +706,77 @@ class VoxelmapCollisions {
                 }
                 return options.missingVoxels.considerAsBlocking;
             }
-            return voxelStatus === EVoxelStatus.FULL;
+            if (voxelStatus !== EVoxelStatus.FULL) {
+                return false;
+            }
+            // the shaped voxels collide through the boxes they are made of, see below
+            return !this.voxelmapCollider.getVoxelShape || this.voxelmapCollider.getVoxelShape(voxel) === EVoxelShape.FULL;
+        };
+
+        type ShapedVoxelBox = {
+            readonly voxel: THREE.Vector3Like;
+            readonly shape: EVoxelShape;
+            readonly min: THREE.Vector3;
+            readonly max: THREE.Vector3;
+        };
+        const getShapedVoxelsBoxes = (levelFrom: number, levelTo: number): ShapedVoxelBox[] => {
+            const boxes: ShapedVoxelBox[] = [];
+            if (!this.voxelmapCollider.getVoxelShape) {
+                return boxes;
+            }
+
+            const voxelFrom = { x: Math.floor(playerPosition.x - playerRadius), z: Math.floor(playerPosition.z - playerRadius) };
+            const voxelTo = { x: Math.floor(playerPosition.x + playerRadius), z: Math.floor(playerPosition.z + playerRadius) };
+            const voxel = { x: 0, y: 0, z: 0 };
+            for (voxel.y = levelFrom; voxel.y <= levelTo; voxel.y++) {
+                for (voxel.x = voxelFrom.x; voxel.x <= voxelTo.x; voxel.x++) {
+                    for (voxel.z = voxelFrom.z; voxel.z <= voxelTo.z; voxel.z++) {
+                        if (this.voxelmapCollider.getVoxel(voxel) !== EVoxelStatus.FULL) {
+                            continue;
+                        }
+                        const shape = this.voxelmapCollider.getVoxelShape(voxel);
+                        if (shape === EVoxelShape.FULL) {
+                            continue;
+                        }
+                        for (const box of computeShapeBoxes(shape)) {
+                            boxes.push({
+                                voxel: { ...voxel },
+                                shape,
+                                min: new THREE.Vector3().copy(box.min).add(voxel),
+                                max: new THREE.Vector3().copy(box.max).add(voxel),
+                            });
+                        }
+                    }
+                }
+            }
+            return boxes;
+        };
+
+        const closestPointFromBox = (box: ShapedVoxelBox) => {
+            return {
+                x: clamp(playerPosition.x, box.min.x, box.max.x) - playerPosition.x,
+                z: clamp(playerPosition.z, box.min.z, box.max.z) - playerPosition.z,
+            };
+        };
+
+        const isBoxXZRelevant = (box: ShapedVoxelBox) => {
+            const fromBox = closestPointFromBox(box);
+            return fromBox.x ** 2 + fromBox.z ** 2 < playerRadiusSquared;
+        };
+
+        const getPhysicsClass = (voxel: THREE.Vector3Like): EVoxelPhysicsClass | null => {
+            if (this.voxelmapCollider.getVoxelPhysics) {
+                return this.voxelmapCollider.getVoxelPhysics(voxel).physicsClass;
+            }
+            return this.voxelmapCollider.getVoxel(voxel) === EVoxelStatus.FULL ? EVoxelPhysicsClass.SOLID : null;
+        };
+
+        const applyGroundFriction = (groundPhysicsClass: EVoxelPhysicsClass | null) => {
+            const groundFriction =
+                physics.groundFriction * (groundPhysicsClass === EVoxelPhysicsClass.SLIPPERY ? physics.slipperyFrictionFactor : 1);
+            const frictionFactor = Math.exp(-groundFriction * deltaTime);
+            playerVelocity.x *= frictionFactor;
+            playerVelocity.z *= frictionFactor;
         };
 
         const isLevelFree = (y: number) => {
@@ -447,49 +801,119 @@ class VoxelmapCollisions {
             playerVelocity.y = 0;
             playerPosition.y = previousFeetLevel;
         }
+        let hitCeiling = false;
         if (newHeadLevel > previousHeadLevel && !isLevelFree(previousHeadLevel + 1)) {
             // we just entered the ceiling -> rollback
             playerVelocity.y = 0;
             playerPosition.y = previousHeadLevel - entityCollider.height;
+            hitCeiling = true;
+        }
+        if (playerPosition.y > previousPosition.y) {
+            // the head can also bump into the bottom of a shaped voxel, inside of a level
+            const previousHeadY = previousPosition.y + playerHeight;
+            for (const box of getShapedVoxelsBoxes(Math.floor(previousHeadY), Math.floor(playerPosition.y + playerHeight))) {
+                if (box.min.y >= previousHeadY - epsilon && box.min.y < playerPosition.y + playerHeight && isBoxXZRelevant(box)) {
+                    playerVelocity.y = 0;
+                    playerPosition.y = box.min.y - playerHeight;
+                    hitCeiling = true;
+                }
+            }
+        }
+
+        // the entities stand on the top of the shaped voxels they overlap, when low enough to be walked onto
+        const maxShapeLift = Math.max(maxStepHeight, 0.5);
+        const maxShapeSnap = 0.15;
+        let shapeGround: ShapedVoxelBox | null = null;
+        let shapeFloorY = -Infinity;
+        const feetLevel = Math.floor(playerPosition.y);
+        for (const box of getShapedVoxelsBoxes(feetLevel - 1, feetLevel)) {
+            if (box.min.y > playerPosition.y + epsilon || !isBoxXZRelevant(box)) {
+                continue;
+            }
+            // the top of the box, or of the slope it approximates, below the center of the entity
+            let boxFloorY = box.max.y;
+            if (isSlope(box.shape)) {
+                const localX = playerPosition.x - box.voxel.x;
+                const localZ = playerPosition.z - box.voxel.z;
+                boxFloorY = Math.min(boxFloorY, box.voxel.y + computeShapeFloorHeight(box.shape, localX, localZ));
+            }
+            if (boxFloorY - playerPosition.y <= maxShapeLift && boxFloorY > shapeFloorY) {
+                shapeFloorY = boxFloorY;
+                shapeGround = box;
+            }
+        }
+
+        const shapeLift = shapeFloorY - playerPosition.y;
+        // when going downhill, the entity is kept on the shape unless it would enter a full voxel
+        const canSnapDown =
+            shapeLift >= -maxShapeSnap &&
+            playerVelocity.y <= 0 &&
+            (Math.floor(shapeFloorY) === feetLevel || isLevelFree(Math.floor(shapeFloorY)));
+        if (shapeLift > 0 || canSnapDown) {
+            playerPosition.y = shapeFloorY;
+            playerVelocity.y = Math.max(0, playerVelocity.y);
+        } else {
+            shapeGround = null;
         }
 
         let isOnGround = false;
+        let groundPhysicsClass: EVoxelPhysicsClass | null = null;
+        let isClimbing = false;
+        let isTouchingDamaging = false;
+        const blockedDirections: BlockedDirections = { positiveX: false, negativeX: false, positiveZ: false, negativeZ: false };
 
         const levelBelow = Number.isInteger(playerPosition.y) ? playerPosition.y - 1 : Math.floor(playerPosition.y);
-        const belowIsEmpty = isLevelFree(levelBelow);
+        const belowIsEmpty = !shapeGround && isLevelFree(levelBelow);
         if (belowIsEmpty) {
             playerVelocity.y -= gravity * deltaTime;
             playerVelocity.y = Math.max(-gravity, playerVelocity.y);
         } else {
-            isOnGround = Number.isInteger(playerPosition.y);
+            isOnGround = Number.isInteger(playerPosition.y) || shapeGround !== null;
+            if (isOnGround) {
+                groundPhysicsClass = shapeGround
+                    ? getPhysicsClass(shapeGround.voxel)
+                    : this.getGroundPhysicsClass(playerPosition, levelBelow, isXZRelevant, getPhysicsClass);
+                isTouchingDamaging ||= groundPhysicsClass === EVoxelPhysicsClass.DAMAGING;
+                applyGroundFriction(groundPhysicsClass);
+            }
 
-            let isAscending = false;
+            let stepTopLevel: number | null = null;
             const currentLevel = Math.floor(playerPosition.y);
             if (!isLevelFree(currentLevel)) {
-                // we are partially in the map
-                let aboveLevelsAreFree = true;
-                const aboveLevelsFrom = currentLevel + 1;
-                const aboveLevelsTo = Math.floor(aboveLevelsFrom + playerHeight);
-                for (let iY = aboveLevelsFrom; iY <= aboveLevelsTo && aboveLevelsAreFree; iY++) {
-                    if (!isLevelFree(iY)) {
-                        aboveLevelsAreFree = false;
+                // we are partially in the map: look for the top of the step, with enough headroom above it
+                for (let stepHeight = 1; stepHeight <= maxStepHeight; stepHeight++) {
+                    const aboveLevelsFrom = currentLevel + stepHeight;
+                    if (!isLevelFree(aboveLevelsFrom)) {
+                        continue;
+                    }
+
+                    let aboveLevelsAreFree = true;
+                    const aboveLevelsTo = Math.floor(aboveLevelsFrom + playerHeight);
+                    for (let iY = aboveLevelsFrom + 1; iY <= aboveLevelsTo && aboveLevelsAreFree; iY++) {
+                        if (!isLevelFree(iY)) {
+                            aboveLevelsAreFree = false;
+                        }
                     }
-                }
 
-                if (aboveLevelsAreFree) {
-                    isAscending = true;
+                    if (aboveLevelsAreFree) {
+                        stepTopLevel = aboveLevelsFrom;
+                    }
+                    break;
                 }
             }
 
-            if (isAscending) {
-                const upwardsMovement = options.ascendSpeed * options.deltaTime;
-                const boundary = Number.isInteger(playerPosition.y) ? playerPosition.y + 1 : Math.ceil(playerPosition.y);
-                playerPosition.y = Math.min(boundary, playerPosition.y + upwardsMovement);
+            if (stepTopLevel !== null) {
+                if (options.stepMode === 'instant') {
+                    playerPosition.y = stepTopLevel;
+                } else {
+                    const upwardsMovement = options.ascendSpeed * options.deltaTime;
+                    playerPosition.y = Math.min(stepTopLevel, playerPosition.y + upwardsMovement);
+                }
             } else {
                 const displacements: THREE.Vector3Like[] = [];
 
                 type XZ = { readonly x: number; readonly z: number };
-                const addDisplacement = (normal: XZ, projection: XZ) => {
+                const addDisplacement = (normal: XZ, projection: XZ): boolean => {
                     const fromCenter = { x: projection.x - playerPosition.x, z: projection.z - playerPosition.z };
                     const distanceSquared = fromCenter.x ** 2 + fromCenter.z ** 2;
                     if (distanceSquared < playerRadiusSquared) {
@@ -497,13 +921,20 @@ class VoxelmapCollisions {
                         if (fromCenter.x * normal.x + fromCenter.z * normal.z < 0) {
                             const depth = playerRadius - distance + epsilon;
 
+                            blockedDirections.positiveX ||= normal.x < 0;
+                            blockedDirections.negativeX ||= normal.x > 0;
+                            blockedDirections.positiveZ ||= normal.z < 0;
+                            blockedDirections.negativeZ ||= normal.z > 0;
+
                             displacements.push({
                                 x: normal.x * depth,
                                 y: 0,
                                 z: normal.z * depth,
                             });
+                            return true;
                         }
                     }
+                    return false;
                 };
 
                 const levelFrom = Math.floor(playerPosition.y);
@@ -519,25 +950,32 @@ class VoxelmapCollisions {
                             const isFrontFull = isVoxelFull({ x: voxel.x, y: voxel.y, z: voxel.z + 1 });
 
                             if (isFull) {
+                                let isTouched = false;
                                 if (!isLeftFull) {
                                     const normal = { x: -1, z: 0 };
                                     const projection = { x: voxel.x, z: clamp(playerPosition.z, voxel.z, voxel.z + 1) };
-                                    addDisplacement(normal, projection);
+                                    isTouched = addDisplacement(normal, projection) || isTouched;
                                 }
                                 if (!isRightFull) {
                                     const normal = { x: 1, z: 0 };
                                     const projection = { x: voxel.x + 1, z: clamp(playerPosition.z, voxel.z, voxel.z + 1) };
-                                    addDisplacement(normal, projection);
+                                    isTouched = addDisplacement(normal, projection) || isTouched;
                                 }
                                 if (!isBackFull) {
                                     const normal = { x: 0, z: -1 };
                                     const projection = { x: clamp(playerPosition.x, voxel.x, voxel.x + 1), z: voxel.z };
-                                    addDisplacement(normal, projection);
+                                    isTouched = addDisplacement(normal, projection) || isTouched;
                                 }
                                 if (!isFrontFull) {
                                     const normal = { x: 0, z: 1 };
                                     const projection = { x: clamp(playerPosition.x, voxel.x, voxel.x + 1), z: voxel.z + 1 };
-                                    addDisplacement(normal, projection);
+                                    isTouched = addDisplacement(normal, projection) || isTouched;
+                                }
+
+                                if (isTouched) {
+                                    const physicsClass = getPhysicsClass(voxel);
+                                    isClimbing ||= physicsClass === EVoxelPhysicsClass.CLIMBABLE;
+                                    isTouchingDamaging ||= physicsClass === EVoxelPhysicsClass.DAMAGING;
                                 }
                             }
                         }
@@ -559,14 +997,92 @@ class VoxelmapCollisions {
                         playerVelocity.z = 0;
                     }
                 }
+
+                if (isClimbing) {
+                    // walking into a climbable voxel
+                    playerVelocity.y = physics.climbSpeed;
+                }
             }
         }
 
+        // the boxes of the shaped voxels that are too high to be walked onto block like walls
+        const feetY = playerPosition.y;
+        const headY = playerPosition.y + playerHeight;
+        for (const box of getShapedVoxelsBoxes(Math.floor(feetY), Math.floor(headY))) {
+            if (box.max.y <= feetY + epsilon || box.min.y >= headY || !isBoxXZRelevant(box)) {
+                continue;
+            }
+            const isWalkable = box.min.y <= feetY + epsilon && box.max.y - feetY <= maxShapeLift;
+            if (isWalkable) {
+                continue;
+            }
+
+            const fromCenter = closestPointFromBox(box);
+            const distance = Math.sqrt(fromCenter.x ** 2 + fromCenter.z ** 2);
+            const normal = { x: 0, z: 0 };
+            let depth: number;
+            if (distance > 0) {
+                normal.x = -fromCenter.x / distance;
+                normal.z = -fromCenter.z / distance;
+                depth = playerRadius - distance + epsilon;
+            } else {
+                // the center is inside of the box: leave it through the closest side
+                const exits = [
+                    { x: -1, z: 0, depth: playerPosition.x - box.min.x },
+                    { x: 1, z: 0, depth: box.max.x - playerPosition.x },
+                    { x: 0, z: -1, depth: playerPosition.z - box.min.z },
+                    { x: 0, z: 1, depth: box.max.z - playerPosition.z },
+                ];
+                const exit = exits.reduce((closest, candidate) => (candidate.depth < closest.depth ? candidate : closest));
+                normal.x = exit.x;
+                normal.z = exit.z;
+                depth = exit.depth + playerRadius + epsilon;
+            }
+
+            blockedDirections.positiveX ||= normal.x < 0;
+            blockedDirections.negativeX ||= normal.x > 0;
+            blockedDirections.positiveZ ||= normal.z < 0;
+            blockedDirections.negativeZ ||= normal.z > 0;
+
+            playerPosition.x += normal.x * depth;
+            playerPosition.z += normal.z * depth;
+            const velocityAlongNormal = playerVelocity.x * normal.x + playerVelocity.z * normal.z;
+            if (velocityAlongNormal < 0) {
+                playerVelocity.x -= normal.x * velocityAlongNormal;
+                playerVelocity.z -= normal.z * velocityAlongNormal;
+            }
+
+            const physicsClass = getPhysicsClass(box.voxel);
+            isClimbing ||= physicsClass === EVoxelPhysicsClass.CLIMBABLE;
+            isTouchingDamaging ||= physicsClass === EVoxelPhysicsClass.DAMAGING;
+        }
+
+        let groundNormal: THREE.Vector3 | null = null;
+        if (isOnGround) {
+            // full voxels below the entity take precedence over the edge of a shape
+            const isOnFullVoxels = Number.isInteger(playerPosition.y) && !isLevelFree(playerPosition.y - 1);
+            groundNormal = shapeGround && !isOnFullVoxels ? computeShapeFloorNormal(shapeGround.shape) : new THREE.Vector3(0, 1, 0);
+        }
+
+        const liquidImmersion = this.computeLiquidImmersion(playerPosition, playerHeight);
+        if (liquidImmersion > 0) {
+            playerVelocity.y += gravity * physics.liquidBuoyancy * liquidImmersion * deltaTime;
+            playerVelocity.multiplyScalar(Math.exp(-physics.liquidDrag * liquidImmersion * deltaTime));
+        }
+
         const result: EntityCollisionOutput = {
             computationStatus: allVoxelmapDataIsAvailable ? 'ok' : 'partial',
             position: playerPosition,
             velocity: playerVelocity,
+            height: playerHeight,
             isOnGround,
+            groundNormal,
+            hitCeiling,
+            blockedDirections,
+            groundPhysicsClass,
+            liquidImmersion,
+            isClimbing,
+            isTouchingDamaging,
         };
         if (missingVoxels) {
             result.missingVoxels = missingVoxels;
@@ -574,10 +1090,230 @@ class VoxelmapCollisions {
         return result;
     }
 
+    private normalizeCastDirection(direction: THREE.Vector3Like): THREE.Vector3 {
+        const normalizedDirection = new THREE.Vector3().copy(direction);
+        const length = normalizedDirection.length();
+        if (length === 0 || !Number.isFinite(length)) {
+            throw new Error(`Invalid cast direction "${direction.x}x${direction.y}x${direction.z}".`);
+        }
+        return normalizedDirection.divideScalar(length);
+    }
+
+    /* Sweeps a shape along its direction, one unit of distance at a time, until the closest hit is found. */
+    private shapeCast(sweep: ShapeCastSweep, options: ShapeCastOptions): RaycastOutput | null {
+        if (options.maxDistance <= 0) {
+            return null;
+        }
+
+        const missingVoxels: THREE.Vector3Like[] | null = options.missingVoxels.exportAsList ? [] : null;
+
+        let computationStatus: ComputationStatus = 'ok';
+        const isVoxelFull = (voxelId: THREE.Vector3Like) => {
+            const voxelStatus = this.voxelmapCollider.getVoxel(voxelId);
+            if (voxelStatus === EVoxelStatus.NOT_LOADED) {
+                computationStatus = 'partial';
+                if (missingVoxels) {
+                    missingVoxels.push({ ...voxelId });
+                }
+                return options.missingVoxels.considerAsBlocking;
+            }
+            return voxelStatus === EVoxelStatus.FULL;
+        };
+
+        type Hit = {
+            readonly distance: number;
+            readonly box: THREE.Box3;
+            readonly interval: Interval;
+        };
+        let closestHit = null as Hit | null;
+
+        const testedVoxels = new Set<string>();
+        const segmentLength = 1;
+        for (let segmentFrom = 0; segmentFrom < options.maxDistance; segmentFrom += segmentLength) {
+            const segmentTo = Math.min(options.maxDistance, segmentFrom + segmentLength);
+            const segmentBounds = sweep.getBounds(segmentFrom).union(sweep.getBounds(segmentTo));
+            const voxelFrom = segmentBounds.min.floor();
+            const voxelTo = segmentBounds.max.floor();
+
+            const voxel = { x: 0, y: 0, z: 0 };
+            for (voxel.z = voxelFrom.z; voxel.z <= voxelTo.z; voxel.z++) {
+                for (voxel.y = voxelFrom.y; voxel.y <= voxelTo.y; voxel.y++) {
+                    for (voxel.x = voxelFrom.x; voxel.x <= voxelTo.x; voxel.x++) {
+                        const voxelIdString = `${voxel.x}_${voxel.y}_${voxel.z}`;
+                        if (testedVoxels.has(voxelIdString)) {
+                            continue;
+                        }
+                        testedVoxels.add(voxelIdString);
+
+                        // the whole voxel is tested first: the boxes of a shaped voxel cannot be hit any closer
+                        const voxelInterval = sweep.intersectBox(voxelBox(voxel));
+                        if (!voxelInterval || voxelInterval.exit <= 0) {
+                            continue;
+                        }
+                        const voxelDistance = Math.max(0, voxelInterval.enter);
+                        if (voxelDistance > options.maxDistance || (closestHit && closestHit.distance <= voxelDistance)) {
+                            continue;
+                        }
+                        if (!isVoxelFull(voxel)) {
+                            continue;
+                        }
+
+                        for (const box of this.getVoxelBoxes(voxel)) {
+                            const interval = sweep.intersectBox(box);
+                            if (!interval || interval.exit <= 0) {
+                                continue;
+                            }
+                            const distance = Math.max(0, interval.enter);
+                            if (distance <= options.maxDistance && (!closestHit || distance < closestHit.distance)) {
+                                closestHit = { distance, box, interval };
+                            }
+                        }
+                    }
+                }
+            }
+
+            if (closestHit && closestHit.distance <= segmentTo) {
+                // any voxel not tested yet would be hit further away
+                break;
+            }
+        }
+
+        const result: RaycastOutput = { computationStatus };
+        if (closestHit) {
+            const contact =
+                closestHit.interval.enter < 0
+                    ? {
+                          point: sweep.getBounds(0).getCenter(new THREE.Vector3()),
+                          normal: sweep.direction.clone().multiplyScalar(-1),
+                      }
+                    : sweep.buildContact(closestHit.distance, closestHit.box, closestHit.interval);
+            result.intersection = {
+                distance: closestHit.distance,
+                point: new THREE.Vector3().copy(contact.point),
+                normal: new THREE.Vector3().copy(contact.normal),
+            };
+        }
+        if (missingVoxels) {
+            result.missingVoxels = removeVoxelIdDuplicates(missingVoxels);
+        }
+        return result;
+    }
+
+    /** @returns The world boxes a solid voxel is made of: the whole voxel, unless it has a shape. */
+    private getVoxelBoxes(voxel: THREE.Vector3Like): THREE.Box3[] {
+        if (!this.voxelmapCollider.getVoxelShape || this.voxelmapCollider.getVoxel(voxel) !== EVoxelStatus.FULL) {
+            return [voxelBox(voxel)];
+        }
+        return computeShapeBoxes(this.voxelmapCollider.getVoxelShape(voxel)).map(
+            box => new THREE.Box3(new THREE.Vector3().copy(box.min).add(voxel), new THREE.Vector3().copy(box.max).add(voxel))
+        );
+    }
+
+    /** The voxel right below the center of the entity is preferred, since it is the one the entity mostly stands on. */
+    private getGroundPhysicsClass(
+        position: THREE.Vector3Like,
+        levelBelow: number,
+        isXZRelevant: (voxelX: number, voxelZ: number) => boolean,
+        getPhysicsClass: (voxel: THREE.Vector3Like) => EVoxelPhysicsClass | null
+    ): EVoxelPhysicsClass | null {
+        const centerVoxel = { x: Math.floor(position.x), y: levelBelow, z: Math.floor(position.z) };
+        const centerPhysicsClass = getPhysicsClass(centerVoxel);
+        if (centerPhysicsClass !== null && centerPhysicsClass !== EVoxelPhysicsClass.LIQUID) {
+            return centerPhysicsClass;
+        }
+
+        for (let dX = -1; dX <= 1; dX++) {
+            for (let dZ = -1; dZ <= 1; dZ++) {
+                const voxel = { x: centerVoxel.x + dX, y: levelBelow, z: centerVoxel.z + dZ };
+                if (isXZRelevant(voxel.x, voxel.z)) {
+                    const physicsClass = getPhysicsClass(voxel);
+                    if (physicsClass !== null && physicsClass !== EVoxelPhysicsClass.LIQUID) {
+                        return physicsClass;
+                    }
+                }
+            }
+        }
+        return null;
+    }
+
+    /** @returns The part of the entity height, measured along its axis, that is in liquid voxels. */
+    private computeLiquidImmersion(position: THREE.Vector3Like, height: number): number {
+        if (!this.voxelmapCollider.getVoxelPhysics) {
+            return 0;
+        }
+
+        let immersedHeight = 0;
+        const voxel = { x: Math.floor(position.x), y: 0, z: Math.floor(position.z) };
+        for (voxel.y = Math.floor(position.y); voxel.y < position.y + height; voxel.y++) {
+            if (this.voxelmapCollider.getVoxelPhysics(voxel).physicsClass === EVoxelPhysicsClass.LIQUID) {
+                immersedHeight += Math.min(position.y + height, voxel.y + 1) - Math.max(position.y, voxel.y);
+            }
+        }
+        return immersedHeight / height;
+    }
+
+    /** Checks whether the voxels between the current head of the entity and its head once grown to the given height are free. */
+    private checkHeadroom(
+        entityCollider: EntityCollider,
+        height: number,
+        options: EntityCollisionOptions
+    ): { isFree: boolean; computationStatus: ComputationStatus; missingVoxels: THREE.Vector3Like[] } {
+        const { position, radius } = entityCollider;
+        const result: { isFree: boolean; computationStatus: ComputationStatus; missingVoxels: THREE.Vector3Like[] } = {
+            isFree: true,
+            computationStatus: 'ok',
+            missingVoxels: [],
+        };
+
+        const levelFrom = Math.floor(position.y + entityCollider.height);
+        const levelTo = Math.ceil(position.y + height) - 1;
+        const voxel = { x: 0, y: 0, z: 0 };
+        for (voxel.y = levelFrom; voxel.y <= levelTo; voxel.y++) {
+            for (voxel.x = Math.floor(position.x - radius); voxel.x <= Math.floor(position.x + radius); voxel.x++) {
+                for (voxel.z = Math.floor(position.z - radius); voxel.z <= Math.floor(position.z + radius); voxel.z++) {
+                    const distanceSquared =
+                        (clamp(position.x, voxel.x, voxel.x + 1) - position.x) ** 2 +
+                        (clamp(position.z, voxel.z, voxel.z + 1) - position.z) ** 2;
+                    if (distanceSquared >= radius * radius) {
+                        continue;
+                    }
+
+                    const voxelStatus = this.voxelmapCollider.getVoxel(voxel);
+                    if (voxelStatus === EVoxelStatus.NOT_LOADED) {
+                        result.computationStatus = 'partial';
+                        if (options.missingVoxels.exportAsList) {
+                            result.missingVoxels.push({ ...voxel });
+                        }
+                        if (options.missingVoxels.considerAsBlocking) {
+                            result.isFree = false;
+                        }
+                    } else if (voxelStatus === EVoxelStatus.FULL) {
+                        result.isFree = false;
+                    }
+                }
+            }
+        }
+        return result;
+    }
+
     /* Computes the projection of a point onto the {0,1}² square. */
     private pointSquareProjection(point: THREE.Vector2Like): THREE.Vector2 {
         return new THREE.Vector2(clamp(point.x, 0, 1), clamp(point.y, 0, 1));
     }
 }
 
-export { VoxelmapCollisions };
+export {
+    removeVoxelIdDuplicates,
+    VoxelmapCollisions,
+    type BlockedDirections,
+    type ComputationStatus,
+    type EntityCollider,
+    type EntityCollisionOptions,
+    type EntityCollisionOutput,
+    type EntityPhysicsOptions,
+    type RaycastOptions,
+    type RaycastOutput,
+    type ShapeCastOptions,
+    type SphereIntersection,
+    type VerticalCylinder,
+};
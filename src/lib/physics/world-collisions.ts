@@ -0,0 +1,295 @@
+import * as THREE from '../libs/three-usage';
+
+import {
+    removeVoxelIdDuplicates,
+    type EntityCollider,
+    type EntityCollisionOptions,
+    type EntityCollisionOutput,
+    type VoxelmapCollisions,
+} from './voxelmap-collisions';
+
+enum EWorldEntityType {
+    /** Moved by the collision step: collides with the voxelmap and is pushed by other entities. */
+    DYNAMIC = 0,
+    /** Moved by its velocity only, ignoring any collision. Pushes dynamic entities without being pushed back. */
+    KINEMATIC = 1,
+    /** Never moves. Blocks dynamic entities. */
+    STATIC = 2,
+}
+
+type WorldEntity = EntityCollider & {
+    readonly type: EWorldEntityType;
+    /** Only used for dynamic entities. See EntityCollisionOptions.requestedHeight. */
+    readonly requestedHeight?: number;
+    /** Only used for dynamic entities, to share the displacement when two of them overlap. Defaults to 1. */
+    readonly mass?: number;
+};
+
+type WorldEntityOutput = EntityCollisionOutput & {
+    /** Indices of the entities this entity is touching at the end of the step. */
+    collidingEntities: number[];
+};
+
+type Parameters = {
+    readonly voxelmapCollisions: VoxelmapCollisions;
+};
+
+type WorldCollisionsOptions = Omit<EntityCollisionOptions, 'requestedHeight'> & {
+    /** Number of relaxation iterations used to solve entity-entity overlaps. Defaults to 4. */
+    readonly entitiesIterations?: number;
+};
+
+type EntityState = {
+    readonly index: number;
+    readonly type: EWorldEntityType;
+    readonly radius: number;
+    readonly inverseMass: number;
+    readonly output: WorldEntityOutput;
+    readonly missingVoxels: THREE.Vector3Like[] | null;
+};
+
+class WorldCollisions {
+    private static readonly epsilon = 1e-5;
+
+    private readonly voxelmapCollisions: VoxelmapCollisions;
+
+    public constructor(params: Parameters) {
+        this.voxelmapCollisions = params.voxelmapCollisions;
+    }
+
+    /**
+     * Moves all the entities for one step of time.
+     * Dynamic entities are first moved against the voxelmap, then entity-entity overlaps are solved
+     * (vertical cylinders, horizontal displacement only), and finally these displacements are replayed against the voxelmap.
+     * @returns One output per entity, in the same order as the input.
+     */
+    public step(entities: ReadonlyArray<WorldEntity>, options: WorldCollisionsOptions): WorldEntityOutput[] {
+        const states = entities.map((entity: WorldEntity, index: number): EntityState => {
+            if (entity.radius <= 0 || entity.height <= 0) {
+                throw new Error(`Invalid size for entity "${index}": radius "${entity.radius}", height "${entity.height}".`);
+            }
+            const mass = entity.mass ?? 1;
+            if (entity.type === EWorldEntityType.DYNAMIC && !(mass > 0)) {
+                throw new Error(`Invalid mass "${mass}" for entity "${index}".`);
+            }
+
+            const state: EntityState = {
+                index,
+                type: entity.type,
+                radius: entity.radius,
+                inverseMass: entity.type === EWorldEntityType.DYNAMIC ? 1 / mass : 0,
+                output: {
+                    computationStatus: 'ok',
+                    position: new THREE.Vector3().copy(entity.position),
+                    velocity: new THREE.Vector3().copy(entity.velocity),
+                    height: entity.height,
+                    isOnGround: false,
+                    groundNormal: null,
+                    hitCeiling: false,
+                    blockedDirections: { positiveX: false, negativeX: false, positiveZ: false, negativeZ: false },
+                    groundPhysicsClass: null,
+                    liquidImmersion: 0,
+                    isClimbing: false,
+                    isTouchingDamaging: false,
+                    collidingEntities: [],
+                },
+                missingVoxels: options.missingVoxels.exportAsList ? [] : null,
+            };
+
+            if (entity.type === EWorldEntityType.DYNAMIC) {
+                const movementOptions: EntityCollisionOptions =
+                    typeof entity.requestedHeight !== 'undefined' ? { ...options, requestedHeight: entity.requestedHeight } : options;
+                this.applyVoxelmapMovement(state, movementOptions);
+            } else if (entity.type === EWorldEntityType.KINEMATIC) {
+                state.output.position.addScaledVector(state.output.velocity, options.deltaTime);
+            } else {
+                state.output.velocity.set(0, 0, 0);
+            }
+            return state;
+        });
+
+        const iterationsCount = options.entitiesIterations ?? 4;
+        const pushedEntities = new Map<EntityState, THREE.Vector3>();
+        for (let iteration = 0; iteration < iterationsCount; iteration++) {
+            let hadOverlap = false;
+            for (const [stateA, stateB] of this.listCandidatePairs(states)) {
+                if (this.solveOverlap(stateA, stateB, pushedEntities)) {
+                    hadOverlap = true;
+                }
+            }
+            if (!hadOverlap) {
+                break;
+            }
+        }
+
+        const pushOptions: EntityCollisionOptions = {
+            ...options,
+            gravity: 0,
+            // the push is a displacement: it must not be damped during the replay
+            physics: { ...options.physics, groundFriction: 0, liquidDrag: 0 },
+        };
+        for (const [state, positionBeforePush] of pushedEntities) {
+            // replay the entity-entity displacement as a movement against the voxelmap during the frame, so that entities cannot be pushed into walls
+            const displacement = new THREE.Vector3().subVectors(state.output.position, positionBeforePush).setY(0);
+            state.output.position.copy(positionBeforePush);
+            if (options.deltaTime <= 0) {
+                continue;
+            }
+            const velocity = state.output.velocity.clone();
+            state.output.velocity.copy(displacement).divideScalar(options.deltaTime);
+            this.applyVoxelmapMovement(state, pushOptions);
+            state.output.velocity.copy(velocity);
+        }
+
+        for (const [stateA, stateB] of this.listCandidatePairs(states)) {
+            if (this.computeOverlap(stateA, stateB)) {
+                stateA.output.collidingEntities.push(stateB.index);
+                stateB.output.collidingEntities.push(stateA.index);
+            }
+        }
+
+        return states.map(state => {
+            if (state.missingVoxels) {
+                state.output.missingVoxels = removeVoxelIdDuplicates(state.missingVoxels);
+            }
+            return state.output;
+        });
+    }
+
+    private applyVoxelmapMovement(state: EntityState, options: EntityCollisionOptions): void {
+        const result = this.voxelmapCollisions.entityMovement(
+            {
+                radius: state.radius,
+                height: state.output.height,
+                position: state.output.position,
+                velocity: state.output.velocity,
+            },
+            options
+        );
+
+        state.output.position.copy(result.position);
+        state.output.velocity.copy(result.velocity);
+        state.output.height = result.height;
+        state.output.isOnGround = result.isOnGround;
+        state.output.groundNormal = result.groundNormal;
+        state.output.hitCeiling ||= result.hitCeiling;
+        state.output.blockedDirections.positiveX ||= result.blockedDirections.positiveX;
+        state.output.blockedDirections.negativeX ||= result.blockedDirections.negativeX;
+        state.output.blockedDirections.positiveZ ||= result.blockedDirections.positiveZ;
+        state.output.blockedDirections.negativeZ ||= result.blockedDirections.negativeZ;
+        state.output.groundPhysicsClass = result.groundPhysicsClass;
+        state.output.liquidImmersion = result.liquidImmersion;
+        state.output.isClimbing ||= result.isClimbing;
+        state.output.isTouchingDamaging ||= result.isTouchingDamaging;
+        if (result.computationStatus === 'partial') {
+            state.output.computationStatus = 'partial';
+        }
+        if (state.missingVoxels && result.missingVoxels) {
+            state.missingVoxels.push(...result.missingVoxels);
+        }
+    }
+
+    /** Broadphase: only entities sharing a cell of a horizontal grid are tested against each other. */
+    private listCandidatePairs(states: ReadonlyArray<EntityState>): [EntityState, EntityState][] {
+        let maxRadius = 0;
+        for (const state of states) {
+            maxRadius = Math.max(maxRadius, state.radius);
+        }
+        const cellSize = 2 * maxRadius;
+
+        const cells = new Map<string, EntityState[]>();
+        for (const state of states) {
+            const cellX = Math.floor(state.output.position.x / cellSize);
+            const cellZ = Math.floor(state.output.position.z / cellSize);
+            const cellId = `${cellX}_${cellZ}`;
+            let cell = cells.get(cellId);
+            if (!cell) {
+                cell = [];
+                cells.set(cellId, cell);
+            }
+            cell.push(state);
+        }
+
+        const pairs: [EntityState, EntityState][] = [];
+        for (const stateA of states) {
+            const cellX = Math.floor(stateA.output.position.x / cellSize);
+            const cellZ = Math.floor(stateA.output.position.z / cellSize);
+            for (let dX = -1; dX <= 1; dX++) {
+                for (let dZ = -1; dZ <= 1; dZ++) {
+                    const cell = cells.get(`${cellX + dX}_${cellZ + dZ}`);
+                    if (!cell) {
+                        continue;
+                    }
+                    for (const stateB of cell) {
+                        if (stateA.index < stateB.index && (stateA.inverseMass > 0 || stateB.inverseMass > 0)) {
+                            pairs.push([stateA, stateB]);
+                        }
+                    }
+                }
+            }
+        }
+        return pairs;
+    }
+
+    /** @returns The horizontal direction from A to B and the penetration depth, or null if the cylinders don't overlap. */
+    private computeOverlap(stateA: EntityState, stateB: EntityState): { readonly direction: THREE.Vector2; readonly depth: number } | null {
+        const positionA = stateA.output.position;
+        const positionB = stateB.output.position;
+
+        const verticalOverlap =
+            Math.min(positionA.y + stateA.output.height, positionB.y + stateB.output.height) - Math.max(positionA.y, positionB.y);
+        if (verticalOverlap <= WorldCollisions.epsilon) {
+            return null;
+        }
+
+        const direction = new THREE.Vector2(positionB.x - positionA.x, positionB.z - positionA.z);
+        const distance = direction.length();
+        const depth = stateA.radius + stateB.radius - distance;
+        if (depth <= WorldCollisions.epsilon) {
+            return null;
+        }
+
+        if (distance > 0) {
+            direction.divideScalar(distance);
+        } else {
+            // perfectly stacked entities: separate them along an arbitrary but deterministic axis
+            direction.set(1, 0);
+        }
+        return { direction, depth };
+    }
+
+    private solveOverlap(stateA: EntityState, stateB: EntityState, pushedEntities: Map<EntityState, THREE.Vector3>): boolean {
+        const overlap = this.computeOverlap(stateA, stateB);
+        if (!overlap) {
+            return false;
+        }
+
+        const totalInverseMass = stateA.inverseMass + stateB.inverseMass;
+        const push = (state: EntityState, sign: number) => {
+            if (state.inverseMass === 0) {
+                return;
+            }
+            if (!pushedEntities.has(state)) {
+                pushedEntities.set(state, state.output.position.clone());
+            }
+
+            const direction = overlap.direction;
+            const displacement = sign * overlap.depth * (state.inverseMass / totalInverseMass);
+            state.output.position.x += direction.x * displacement;
+            state.output.position.z += direction.y * displacement;
+
+            // cancel the part of the velocity that goes against the other entity
+            const velocity = state.output.velocity;
+            const velocityTowardsOther = -sign * (velocity.x * direction.x + velocity.z * direction.y);
+            if (velocityTowardsOther > 0) {
+                velocity.x += sign * direction.x * velocityTowardsOther;
+                velocity.z += sign * direction.y * velocityTowardsOther;
+            }
+        };
+        push(stateA, -1);
+        push(stateB, 1);
+        return true;
+    }
+}
+
+export { EWorldEntityType, WorldCollisions, type WorldCollisionsOptions, type WorldEntity, type WorldEntityOutput };
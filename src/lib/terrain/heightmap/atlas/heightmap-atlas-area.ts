@@ -0,0 +1,120 @@
+import * as THREE from '../../../libs/three-usage';
+
+import { type HeightmapAtlas, type HeightmapAtlasTileView } from './heightmap-atlas';
+
+type Uniform<T> = THREE.IUniform<T> & { readonly type: 'sampler2D' | 'vec4' };
+
+type Parameters = {
+    readonly heightmapAtlas: HeightmapAtlas;
+    /** Width of the area, in world units. It must not be wider than a root tile of the atlas. */
+    readonly size: number;
+    /** Prefix of the uniforms names, so that several areas can be used in the same shader. Defaults to "uHeightmapArea". */
+    readonly glslName?: string;
+};
+
+/** Count of root tiles of the atlas that the area can overlap. */
+const tilesCount = 4;
+
+/**
+ * Square area of a heightmap atlas, whose altitude can be sampled in shaders.
+ * It keeps views on the (up to 2x2) root tiles of the atlas the area overlaps, and exposes their textures as uniforms.
+ */
+class HeightmapAtlasArea {
+    public readonly size: number;
+    public readonly uniforms: Record<string, Uniform<unknown>>;
+
+    private readonly heightmapAtlas: HeightmapAtlas;
+    private readonly glslName: string;
+    private readonly tilesViews = new Map<string, HeightmapAtlasTileView>();
+    private readonly tilesUniforms: {
+        readonly texture: Uniform<THREE.Texture | null>;
+        /** World origin (x, z), world size, and whether the tile has data. */
+        readonly tile: Uniform<THREE.Vector4>;
+    }[] = [];
+
+    public constructor(params: Parameters) {
+        if (params.size > params.heightmapAtlas.rootTileSizeInWorld) {
+            throw new Error(`Area is wider than a root tile of the heightmap atlas ("${params.heightmapAtlas.rootTileSizeInWorld}").`);
+        }
+
+        this.heightmapAtlas = params.heightmapAtlas;
+        this.size = params.size;
+        this.glslName = params.glslName ?? 'uHeightmapArea';
+
+        this.uniforms = {};
+        for (let i = 0; i < tilesCount; i++) {
+            const tileUniforms = {
+                texture: { value: null, type: 'sampler2D' } as Uniform<THREE.Texture | null>,
+                tile: { value: new THREE.Vector4(), type: 'vec4' } as Uniform<THREE.Vector4>,
+            };
+            this.tilesUniforms.push(tileUniforms);
+            this.uniforms[`${this.glslName}Texture${i}`] = tileUniforms.texture;
+            this.uniforms[`${this.glslName}Tile${i}`] = tileUniforms.tile;
+        }
+    }
+
+    /** Moves the area so that it is centered on the given world position. */
+    public setCenter(worldPosition: THREE.Vector3Like): void {
+        const rootTileSize = this.heightmapAtlas.rootTileSizeInWorld;
+        const fromTileId = {
+            x: Math.floor((worldPosition.x - 0.5 * this.size) / rootTileSize),
+            y: Math.floor((worldPosition.z - 0.5 * this.size) / rootTileSize),
+        };
+
+        const previousTilesViews = new Map(this.tilesViews);
+        this.tilesViews.clear();
+        this.tilesUniforms.forEach((tileUniforms, i) => {
+            const tileId = { nestingLevel: 0, x: fromTileId.x + (i % 2), y: fromTileId.y + Math.floor(i / 2) };
+            const tileIdString = `${tileId.x}_${tileId.y}`;
+            let tileView = previousTilesViews.get(tileIdString);
+            if (tileView) {
+                previousTilesViews.delete(tileIdString);
+            } else {
+                tileView = this.heightmapAtlas.getTileView(tileId);
+            }
+            this.tilesViews.set(tileIdString, tileView);
+
+            tileUniforms.texture.value = tileView.texture;
+            tileUniforms.tile.value.set(
+                tileView.coords.world.origin.x,
+                tileView.coords.world.origin.y,
+                tileView.coords.world.size.x,
+                Number(tileView.hasBasicData())
+            );
+        });
+
+        for (const unusedTileView of previousTilesViews.values()) {
+            unusedTileView.stopUsingView();
+        }
+    }
+
+    /**
+     * @param worldPositionXZ GLSL expression of a vec2.
+     * @param output Name of the float declared by the code: the altitude at the given position, or -1e9 where unknown.
+     */
+    public buildGlslSampleCode(worldPositionXZ: string, output: string): string {
+        const altitude = this.heightmapAtlas.altitude;
+        return `
+float ${output} = -1e9;
+${this.tilesUniforms
+    .map((_, i) => {
+        const tile = `${this.glslName}Tile${i}`;
+        return `
+vec2 ${output}Uv${i} = (${worldPositionXZ} - ${tile}.xy) / ${tile}.z;
+if (${tile}.w > 0.5 && all(greaterThanEqual(${output}Uv${i}, vec2(0))) && all(lessThan(${output}Uv${i}, vec2(1)))) {
+    ${output} = ${altitude.min.toFixed(1)} + textureLod(${this.glslName}Texture${i}, ${output}Uv${i}, 0.0).a * ${(altitude.max - altitude.min).toFixed(1)};
+}`;
+    })
+    .join('')}
+`;
+    }
+
+    public dispose(): void {
+        for (const tileView of this.tilesViews.values()) {
+            tileView.stopUsingView();
+        }
+        this.tilesViews.clear();
+    }
+}
+
+export { HeightmapAtlasArea };
@@ -0,0 +1,227 @@
+import * as THREE from '../../../libs/three-usage';
+import { voxelEncoder, type IVoxelMap } from '../i-voxelmap';
+
+import { EBoardSquareType, type Board } from './board';
+
+type GridCoord = { readonly x: number; readonly z: number };
+
+enum ESquareVisibility {
+    /** The square is out of range, or cannot be targeted (hole, out of bounds). */
+    NEUTRAL = 0,
+    VISIBLE = 1,
+    HIDDEN = 2,
+}
+
+type Parameters = {
+    readonly board: Board;
+    readonly map: IVoxelMap;
+    /** Height of the eyes of the caster, above the surface of its square. Defaults to 1.5. */
+    readonly eyeHeight?: number;
+    /** Height of the point aimed at, above the surface of the target square. Defaults to 0.5. */
+    readonly targetHeight?: number;
+    /** Obstacles taller than this (in voxels) are considered to be this tall. Defaults to 16. */
+    readonly maxObstacleHeight?: number;
+};
+
+type SquareVisibility = {
+    readonly x: number;
+    readonly z: number;
+    readonly visibility: ESquareVisibility;
+};
+
+type BoardVisibility = {
+    readonly size: GridCoord;
+    readonly squares: ReadonlyArray<SquareVisibility>;
+};
+
+type LineOfSightResult = {
+    readonly blocked: boolean;
+    /** First square on the way that blocks the view, if any. */
+    readonly blockingSquare: GridCoord | null;
+};
+
+class BoardLineOfSight {
+    private static readonly epsilon = 0.000001;
+
+    private readonly size: GridCoord;
+    /** World Y of the top of each square (floor surface, or top of the obstacle). NaN for holes and out-of-bounds squares. */
+    private readonly surfaces: Float32Array;
+    private readonly squareTypes: ReadonlyArray<EBoardSquareType>;
+    private readonly eyeHeight: number;
+    private readonly targetHeight: number;
+
+    public static async create(params: Parameters): Promise<BoardLineOfSight> {
+        const board = params.board;
+        const maxObstacleHeight = params.maxObstacleHeight ?? 16;
+
+        let minFloorY = Infinity;
+        let maxFloorY = -Infinity;
+        for (const square of board.squares) {
+            if (!isNaN(square.floorY)) {
+                minFloorY = Math.min(minFloorY, square.floorY);
+                maxFloorY = Math.max(maxFloorY, square.floorY);
+            }
+        }
+        if (!isFinite(minFloorY)) {
+            throw new Error(`Board "${board.id}" has no floor.`);
+        }
+
+        const dataFromWorld = new THREE.Vector3(board.origin.x, minFloorY, board.origin.z);
+        const dataToWorld = new THREE.Vector3(
+            board.origin.x + board.size.x,
+            maxFloorY + maxObstacleHeight + 1,
+            board.origin.z + board.size.z
+        );
+        const dataSize = dataToWorld.clone().sub(dataFromWorld);
+        const data = await params.map.getLocalMapData(dataFromWorld, dataToWorld);
+
+        const isBlocking = (localX: number, worldY: number, localZ: number): boolean => {
+            if (data.isEmpty) {
+                return false;
+            }
+            const localY = worldY - dataFromWorld.y;
+            if (localY < 0 || localY >= dataSize.y) {
+                return false;
+            }
+            const index = localX + localY * dataSize.x + localZ * dataSize.x * dataSize.y;
+            const voxelData = data.data[index]!;
+            return voxelEncoder.solidVoxel.isOfType(voxelData) || voxelEncoder.translucentVoxel.isOfType(voxelData);
+        };
+
+        const surfaces = new Float32Array(board.size.x * board.size.z).fill(NaN);
+        for (let iZ = 0; iZ < board.size.z; iZ++) {
+            for (let iX = 0; iX < board.size.x; iX++) {
+                const index = iX + iZ * board.size.x;
+                const square = board.squares[index]!;
+                if (square.type === EBoardSquareType.FLAT) {
+                    surfaces[index] = square.floorY + 1;
+                } else if (square.type === EBoardSquareType.OBSTACLE) {
+                    let obstacleHeight = 1;
+                    while (obstacleHeight < maxObstacleHeight && isBlocking(iX, square.floorY + obstacleHeight, iZ)) {
+                        obstacleHeight++;
+                    }
+                    surfaces[index] = square.floorY + obstacleHeight;
+                }
+            }
+        }
+
+        const squareTypes = board.squares.map(square => square.type);
+        return new BoardLineOfSight(board.size, surfaces, squareTypes, params.eyeHeight ?? 1.5, params.targetHeight ?? 0.5);
+    }
+
+    private constructor(
+        size: GridCoord,
+        surfaces: Float32Array,
+        squareTypes: ReadonlyArray<EBoardSquareType>,
+        eyeHeight: number,
+        targetHeight: number
+    ) {
+        this.size = { ...size };
+        this.surfaces = surfaces;
+        this.squareTypes = squareTypes;
+        this.eyeHeight = eyeHeight;
+        this.targetHeight = targetHeight;
+    }
+
+    /**
+     * Computes, for each FLAT square within range, whether it can be seen from the origin.
+     * @param origin Board coordinates of the caster
+     * @param maxDistance Max euclidean distance (in squares) from the origin
+     */
+    public computeVisibility(origin: GridCoord, maxDistance: number): BoardVisibility {
+        const squares: SquareVisibility[] = [];
+        for (let iZ = 0; iZ < this.size.z; iZ++) {
+            for (let iX = 0; iX < this.size.x; iX++) {
+                let visibility = ESquareVisibility.NEUTRAL;
+                const distance = Math.sqrt((iX - origin.x) ** 2 + (iZ - origin.z) ** 2);
+                if (distance <= maxDistance && this.isTargetable({ x: iX, z: iZ })) {
+                    const result = this.checkLineOfSight(origin, { x: iX, z: iZ });
+                    visibility = result.blocked ? ESquareVisibility.HIDDEN : ESquareVisibility.VISIBLE;
+                }
+                squares.push({ x: iX, z: iZ, visibility });
+            }
+        }
+
+        return { size: { ...this.size }, squares };
+    }
+
+    /**
+     * Checks whether the view from the origin square to the target square is blocked. Both squares must be FLAT.
+     * Heights are taken into account: a caster standing higher can see above low obstacles.
+     */
+    public checkLineOfSight(origin: GridCoord, target: GridCoord): LineOfSightResult {
+        if (!this.isTargetable(origin)) {
+            throw new Error(`Square "${origin.x}x${origin.z}" cannot be stood on.`);
+        }
+        if (!this.isTargetable(target)) {
+            throw new Error(`Square "${target.x}x${target.z}" cannot be targeted.`);
+        }
+        const originSurface = this.getSurface(origin);
+        const targetSurface = this.getSurface(target);
+
+        const fromY = originSurface + this.eyeHeight;
+        const toY = targetSurface + this.targetHeight;
+        const yAt = (t: number) => fromY + t * (toY - fromY);
+
+        // 2D grid traversal from the center of the origin square to the center of the target square
+        const deltaX = target.x - origin.x;
+        const deltaZ = target.z - origin.z;
+        const stepX = Math.sign(deltaX);
+        const stepZ = Math.sign(deltaZ);
+        const tDeltaX = deltaX !== 0 ? 1 / Math.abs(deltaX) : Infinity;
+        const tDeltaZ = deltaZ !== 0 ? 1 / Math.abs(deltaZ) : Infinity;
+        let tMaxX = 0.5 * tDeltaX;
+        let tMaxZ = 0.5 * tDeltaZ;
+        let tEnter = 0;
+
+        const current = { x: origin.x, z: origin.z };
+        while (current.x !== target.x || current.z !== target.z) {
+            if (Math.abs(tMaxX - tMaxZ) < BoardLineOfSight.epsilon) {
+                // the ray goes exactly through a corner: the two side squares are only touched at one point, skip them
+                tEnter = tMaxX;
+                current.x += stepX;
+                current.z += stepZ;
+                tMaxX += tDeltaX;
+                tMaxZ += tDeltaZ;
+            } else if (tMaxX < tMaxZ) {
+                tEnter = tMaxX;
+                current.x += stepX;
+                tMaxX += tDeltaX;
+            } else {
+                tEnter = tMaxZ;
+                current.z += stepZ;
+                tMaxZ += tDeltaZ;
+            }
+
+            if (current.x === target.x && current.z === target.z) {
+                break;
+            }
+
+            const tExit = Math.min(tMaxX, tMaxZ, 1);
+            const rayMinY = Math.min(yAt(tEnter), yAt(tExit));
+            const blockingY = this.getSurface(current);
+            if (!isNaN(blockingY) && rayMinY < blockingY) {
+                return { blocked: true, blockingSquare: { x: current.x, z: current.z } };
+            }
+        }
+
+        return { blocked: false, blockingSquare: null };
+    }
+
+    private isTargetable(coords: GridCoord): boolean {
+        return this.squareTypes[this.getIndex(coords)] === EBoardSquareType.FLAT;
+    }
+
+    private getSurface(coords: GridCoord): number {
+        return this.surfaces[this.getIndex(coords)]!;
+    }
+
+    private getIndex(coords: GridCoord): number {
+        if (coords.x < 0 || coords.z < 0 || coords.x >= this.size.x || coords.z >= this.size.z) {
+            throw new Error(`Invalid board coords ${coords.x}x${coords.z} (size is ${this.size.x}x${this.size.z})`);
+        }
+        return coords.x + coords.z * this.size.x;
+    }
+}
+
+export { BoardLineOfSight, ESquareVisibility, type BoardVisibility, type LineOfSightResult, type SquareVisibility };
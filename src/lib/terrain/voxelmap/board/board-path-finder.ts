@@ -0,0 +1,341 @@
+import { EBoardSquareType, type Board, type BoardSquare } from './board';
+
+type GridCoord = { readonly x: number; readonly z: number };
+
+type Parameters = {
+    readonly board: Board;
+    /**
+     * 4: a move can only go to the 4 orthogonal neighbours.
+     * 8: diagonal moves are allowed too, as long as they don't cut a corner.
+     * Defaults to 4.
+     */
+    readonly connectivity?: 4 | 8;
+    /**
+     * Multiplier applied to the cost of a diagonal move. Only used with 8-connectivity. Defaults to 1.
+     */
+    readonly diagonalCostFactor?: number;
+};
+
+type ReachableSquare = {
+    readonly x: number;
+    readonly z: number;
+    /** Total movement cost to reach this square from the origin. */
+    readonly cost: number;
+};
+
+type BoardPath = {
+    /** Ordered list of squares from the origin (included) to the target (included). */
+    readonly squares: ReadonlyArray<GridCoord>;
+    readonly cost: number;
+};
+
+type Cell = {
+    readonly x: number;
+    readonly z: number;
+    readonly walkable: boolean;
+    cost: number;
+    /** Rank of the cell in the order in which the costs were settled. A path only goes through cells settled before the next one. */
+    settledOrder: number;
+};
+
+class MinHeap {
+    private readonly items: { readonly index: number; readonly priority: number }[] = [];
+
+    public get size(): number {
+        return this.items.length;
+    }
+
+    public push(index: number, priority: number): void {
+        const items = this.items;
+        items.push({ index, priority });
+        let i = items.length - 1;
+        while (i > 0) {
+            const parent = (i - 1) >> 1;
+            if (items[parent]!.priority <= items[i]!.priority) {
+                break;
+            }
+            [items[parent], items[i]] = [items[i]!, items[parent]!];
+            i = parent;
+        }
+    }
+
+    public pop(): { readonly index: number; readonly priority: number } {
+        const items = this.items;
+        const top = items[0];
+        const last = items.pop();
+        if (!top || !last) {
+            throw new Error('Cannot pop from an empty heap.');
+        }
+        if (items.length > 0) {
+            items[0] = last;
+            let i = 0;
+            for (;;) {
+                const left = 2 * i + 1;
+                const right = left + 1;
+                let smallest = i;
+                if (left < items.length && items[left]!.priority < items[smallest]!.priority) {
+                    smallest = left;
+                }
+                if (right < items.length && items[right]!.priority < items[smallest]!.priority) {
+                    smallest = right;
+                }
+                if (smallest === i) {
+                    break;
+                }
+                [items[smallest], items[i]] = [items[i]!, items[smallest]!];
+                i = smallest;
+            }
+        }
+        return top;
+    }
+}
+
+class BoardPathFinder {
+    private static readonly epsilon = 0.00001;
+
+    private readonly size: GridCoord;
+    private readonly cells: ReadonlyArray<Cell>;
+    private readonly connectivity: 4 | 8;
+    private readonly diagonalCostFactor: number;
+
+    private readonly squareCostsOverrides = new Map<number, number>();
+
+    private origin: GridCoord | null = null;
+    private maxMovementPoints: number = Infinity;
+
+    public constructor(params: Parameters) {
+        this.size = { ...params.board.size };
+        this.cells = params.board.squares.map((square: BoardSquare, index: number) => ({
+            x: index % params.board.size.x,
+            z: Math.floor(index / params.board.size.x),
+            walkable: square.type === EBoardSquareType.FLAT,
+            cost: -1,
+            settledOrder: -1,
+        }));
+        this.connectivity = params.connectivity ?? 4;
+        this.diagonalCostFactor = params.diagonalCostFactor ?? 1;
+
+        if (this.diagonalCostFactor <= 0) {
+            throw new Error(`Invalid diagonal cost factor "${this.diagonalCostFactor}".`);
+        }
+    }
+
+    /**
+     * Overrides the cost of entering a square (default is 1).
+     * @param cost Cost to enter the square. Use Infinity to make the square impassable (e.g. occupied by an entity), null to reset to default.
+     */
+    public setSquareCost(coords: GridCoord, cost: number | null): void {
+        const index = this.getIndex(coords);
+        if (cost === null) {
+            this.squareCostsOverrides.delete(index);
+        } else {
+            if (cost < 0 || isNaN(cost)) {
+                throw new Error(`Invalid square cost "${cost}".`);
+            }
+            this.squareCostsOverrides.set(index, cost);
+        }
+        this.recompute();
+    }
+
+    public clearSquareCosts(): void {
+        this.squareCostsOverrides.clear();
+        this.recompute();
+    }
+
+    /**
+     * Computes the cost to reach every square of the board from the origin.
+     * @param origin Board coordinates of the origin. The square must be walkable.
+     * @param maxMovementPoints Optional movement budget: squares that cost more than this are considered unreachable.
+     */
+    public setOrigin(origin: GridCoord, maxMovementPoints: number = Infinity): void {
+        const originIndex = this.getIndex(origin);
+        const originCell = this.cells[originIndex]!;
+        if (!originCell.walkable) {
+            throw new Error(`Origin "${origin.x}x${origin.z}" is not a walkable square.`);
+        }
+
+        this.origin = { x: origin.x, z: origin.z };
+        this.maxMovementPoints = maxMovementPoints;
+
+        for (const cell of this.cells) {
+            cell.cost = -1;
+            cell.settledOrder = -1;
+        }
+
+        const openList = new MinHeap();
+        openList.push(originIndex, 0);
+        const settled = new Set<number>();
+
+        while (openList.size > 0) {
+            const current = openList.pop();
+            if (settled.has(current.index)) {
+                continue;
+            }
+            settled.add(current.index);
+
+            const currentCell = this.cells[current.index]!;
+            currentCell.cost = current.priority;
+            currentCell.settledOrder = settled.size - 1;
+
+            for (const neighbour of this.getNeighbours(currentCell)) {
+                const neighbourIndex = neighbour.x + neighbour.z * this.size.x;
+                if (settled.has(neighbourIndex)) {
+                    continue;
+                }
+                const neighbourCost = current.priority + this.getStepCost(currentCell, neighbour);
+                if (Number.isFinite(neighbourCost) && neighbourCost <= maxMovementPoints + BoardPathFinder.epsilon) {
+                    openList.push(neighbourIndex, neighbourCost);
+                }
+            }
+        }
+    }
+
+    /**
+     * @returns The list of squares reachable from the origin, with their cost.
+     * @param maxMovementPoints Optional budget, lower than the one provided in setOrigin.
+     */
+    public getReachableSquares(maxMovementPoints: number = Infinity): ReachableSquare[] {
+        this.checkOrigin();
+        const budget = Math.min(maxMovementPoints, this.maxMovementPoints) + BoardPathFinder.epsilon;
+        return this.cells.filter(cell => cell.cost >= 0 && cell.cost <= budget).map(cell => ({ x: cell.x, z: cell.z, cost: cell.cost }));
+    }
+
+    /**
+     * @returns The cost to reach a square from the origin, or null if it is unreachable.
+     */
+    public getCostTo(coords: GridCoord): number | null {
+        this.checkOrigin();
+        const cell = this.cells[this.getIndex(coords)]!;
+        return cell.cost >= 0 ? cell.cost : null;
+    }
+
+    /**
+     * @returns The cheapest path from the origin to the target, or null if there is none within the movement budget.
+     * Among equally cheap paths, the one staying closest to the straight line is preferred.
+     */
+    public findPathTo(target: GridCoord): BoardPath | null {
+        const origin = this.checkOrigin();
+
+        const targetIndex = this.getIndex(target);
+        const targetCell = this.cells[targetIndex]!;
+        if (targetCell.cost < 0) {
+            return null;
+        }
+
+        const originToTarget = normalize({ x: target.x - origin.x, z: target.z - origin.z });
+
+        let currentCell = targetCell;
+        const reversePath: GridCoord[] = [{ x: currentCell.x, z: currentCell.z }];
+        while (currentCell.x !== origin.x || currentCell.z !== origin.z) {
+            let bestPreviousCell: Cell | null = null;
+            let bestAlignment = -Infinity;
+
+            // a previous step is a neighbour settled before the current cell, from which entering the current cell leads exactly to its cost.
+            // Requiring it to be settled before prevents looping between neighbours of equal cost, which happens with zero-cost squares.
+            for (const neighbourCell of this.getNeighbours(currentCell)) {
+                if (neighbourCell.cost < 0 || neighbourCell.settledOrder >= currentCell.settledOrder) {
+                    continue;
+                }
+                const stepCost = this.getStepCost(neighbourCell, currentCell);
+                if (Math.abs(neighbourCell.cost + stepCost - currentCell.cost) > BoardPathFinder.epsilon) {
+                    continue;
+                }
+
+                const originToNeighbour = normalize({ x: neighbourCell.x - origin.x, z: neighbourCell.z - origin.z });
+                const alignment = originToTarget.x * originToNeighbour.x + originToTarget.z * originToNeighbour.z;
+                if (alignment > bestAlignment) {
+                    bestAlignment = alignment;
+                    bestPreviousCell = neighbourCell;
+                }
+            }
+
+            if (!bestPreviousCell) {
+                throw new Error(`Could not backtrack path from "${currentCell.x}x${currentCell.z}".`);
+            }
+            currentCell = bestPreviousCell;
+            reversePath.push({ x: currentCell.x, z: currentCell.z });
+        }
+
+        return {
+            squares: reversePath.reverse(),
+            cost: targetCell.cost,
+        };
+    }
+
+    private recompute(): void {
+        if (this.origin) {
+            this.setOrigin(this.origin, this.maxMovementPoints);
+        }
+    }
+
+    private checkOrigin(): GridCoord {
+        if (!this.origin) {
+            throw new Error('Must specify an origin before asking for a path.');
+        }
+        return this.origin;
+    }
+
+    private getIndex(coords: GridCoord): number {
+        if (coords.x < 0 || coords.z < 0 || coords.x >= this.size.x || coords.z >= this.size.z) {
+            throw new Error(`Invalid board coords ${coords.x}x${coords.z} (size is ${this.size.x}x${this.size.z})`);
+        }
+        return coords.x + coords.z * this.size.x;
+    }
+
+    private tryGetWalkableCell(x: number, z: number): Cell | null {
+        if (x < 0 || z < 0 || x >= this.size.x || z >= this.size.z) {
+            return null;
+        }
+        const cell = this.cells[x + z * this.size.x]!;
+        return cell.walkable ? cell : null;
+    }
+
+    private getEnterCost(cell: Cell): number {
+        return this.squareCostsOverrides.get(cell.x + cell.z * this.size.x) ?? 1;
+    }
+
+    private getStepCost(from: Cell, to: Cell): number {
+        const isDiagonal = from.x !== to.x && from.z !== to.z;
+        return this.getEnterCost(to) * (isDiagonal ? this.diagonalCostFactor : 1);
+    }
+
+    private getNeighbours(cell: Cell): Cell[] {
+        const result: Cell[] = [];
+
+        const tryAdd = (dX: number, dZ: number) => {
+            const neighbour = this.tryGetWalkableCell(cell.x + dX, cell.z + dZ);
+            if (!neighbour) {
+                return;
+            }
+            if (dX !== 0 && dZ !== 0) {
+                // forbid cutting corners
+                if (!this.tryGetWalkableCell(cell.x + dX, cell.z) || !this.tryGetWalkableCell(cell.x, cell.z + dZ)) {
+                    return;
+                }
+            }
+            result.push(neighbour);
+        };
+
+        tryAdd(-1, 0);
+        tryAdd(+1, 0);
+        tryAdd(0, -1);
+        tryAdd(0, +1);
+        if (this.connectivity === 8) {
+            tryAdd(-1, -1);
+            tryAdd(+1, -1);
+            tryAdd(-1, +1);
+            tryAdd(+1, +1);
+        }
+        return result;
+    }
+}
+
+function normalize(v: { x: number; z: number }): { x: number; z: number } {
+    const length = Math.sqrt(v.x * v.x + v.z * v.z);
+    if (length === 0) {
+        return { x: 0, z: 0 };
+    }
+    return { x: v.x / length, z: v.z / length };
+}
+
+export { BoardPathFinder, type BoardPath, type ReachableSquare };
@@ -5,7 +5,7 @@ import { type VoxelsRenderable } from '../voxelsRenderable/voxels-renderable';
 import { VoxelsRenderableFactoryCpuWorker } from '../voxelsRenderable/voxelsRenderableFactory/merged/cpu/voxels-renderable-factory-cpu-worker';
 import { type VoxelsChunkData } from '../voxelsRenderable/voxelsRenderableFactory/voxels-renderable-factory-base';
 
-import { EBoardSquareType, type Board } from './board';
+import { EBoardSquareType, type Board, type BoardUpdate } from './board';
 
 type Parameters = {
     readonly voxelMaterialsStore: MaterialsStore;
@@ -13,10 +13,141 @@ type Parameters = {
 
 type BoardRenderable = {
     readonly container: THREE.Group;
+    /**
+     * Only rebuilds the parts of the renderable where squares changed.
+     * The updates are applied in the order they are given, and must all come from the board the renderable was built for.
+     */
+    applyBoardChanges(update: BoardUpdate): Promise<void>;
     dispose(): void;
 };
 
+type TileId = { readonly x: number; readonly z: number };
+
+type BuildTileFunction = (board: Board, tileId: TileId) => Promise<VoxelsRenderable | null>;
+
+/** The board is split in square tiles of voxels renderables, so that a change only rebuilds the tiles around it. */
+class TiledBoardRenderable implements BoardRenderable {
+    public readonly container: THREE.Group;
+
+    private board: Board;
+    private readonly tiles = new Map<string, VoxelsRenderable | null>();
+    private readonly buildTile: BuildTileFunction;
+    private readonly tileSize: number;
+    private readonly boardThickness: number;
+
+    private pendingUpdates: Promise<void> = Promise.resolve();
+    private isDisposed = false;
+
+    public constructor(board: Board, buildTile: BuildTileFunction, tileSize: number, boardThickness: number) {
+        this.container = new THREE.Group();
+        this.container.name = 'board-renderable';
+
+        this.board = board;
+        this.buildTile = buildTile;
+        this.tileSize = tileSize;
+        this.boardThickness = boardThickness;
+    }
+
+    public async buildAllTiles(): Promise<void> {
+        const tilesIds: TileId[] = [];
+        for (let tileZ = 0; tileZ * this.tileSize < this.board.size.z; tileZ++) {
+            for (let tileX = 0; tileX * this.tileSize < this.board.size.x; tileX++) {
+                tilesIds.push({ x: tileX, z: tileZ });
+            }
+        }
+        await this.rebuildTiles(tilesIds);
+    }
+
+    public applyBoardChanges(update: BoardUpdate): Promise<void> {
+        if (update.board.id !== this.board.id) {
+            throw new Error(`Cannot apply the changes of board "${update.board.id}" to the renderable of board "${this.board.id}".`);
+        }
+
+        // a failed update was already reported to its caller, it does not prevent the next ones
+        const result = this.pendingUpdates.catch(() => {}).then(() => this.applyBoardChangesNow(update));
+        this.pendingUpdates = result;
+        return result;
+    }
+
+    public dispose(): void {
+        this.isDisposed = true;
+        for (const voxelsRenderable of this.tiles.values()) {
+            voxelsRenderable?.dispose();
+        }
+        this.tiles.clear();
+        this.container.clear();
+    }
+
+    private async applyBoardChangesNow(update: BoardUpdate): Promise<void> {
+        if (this.isDisposed) {
+            return;
+        }
+
+        const previousOriginY = this.board.origin.y;
+        this.board = update.board;
+
+        // a tile also holds the squares around it, for the smooth edges and the ambient occlusion
+        const tilesIds = new Map<string, TileId>();
+        for (const change of update.changes) {
+            for (let dZ = -1; dZ <= 1; dZ++) {
+                for (let dX = -1; dX <= 1; dX++) {
+                    const tileId = {
+                        x: Math.floor((change.x + dX) / this.tileSize),
+                        z: Math.floor((change.z + dZ) / this.tileSize),
+                    };
+                    if (
+                        tileId.x >= 0 &&
+                        tileId.z >= 0 &&
+                        tileId.x * this.tileSize < this.board.size.x &&
+                        tileId.z * this.tileSize < this.board.size.z
+                    ) {
+                        tilesIds.set(`${tileId.x}_${tileId.z}`, tileId);
+                    }
+                }
+            }
+        }
+        await this.rebuildTiles(tilesIds.values());
+
+        if (this.board.origin.y !== previousOriginY) {
+            for (const voxelsRenderable of this.tiles.values()) {
+                if (voxelsRenderable) {
+                    voxelsRenderable.container.position.y = this.board.origin.y - this.boardThickness;
+                }
+            }
+        }
+    }
+
+    private async rebuildTiles(tilesIds: Iterable<TileId>): Promise<void> {
+        const board = this.board;
+        const builtTiles = await Promise.all(
+            Array.from(tilesIds, async tileId => ({ tileId, voxelsRenderable: await this.buildTile(board, tileId) }))
+        );
+
+        for (const { tileId, voxelsRenderable } of builtTiles) {
+            if (this.isDisposed) {
+                voxelsRenderable?.dispose();
+                continue;
+            }
+
+            const tileIdString = `${tileId.x}_${tileId.z}`;
+            const previousVoxelsRenderable = this.tiles.get(tileIdString);
+            if (previousVoxelsRenderable) {
+                previousVoxelsRenderable.container.removeFromParent();
+                previousVoxelsRenderable.dispose();
+            }
+
+            this.tiles.set(tileIdString, voxelsRenderable);
+            if (voxelsRenderable) {
+                this.container.add(voxelsRenderable.container);
+            }
+        }
+    }
+}
+
 class BoardRenderableFactory extends VoxelsRenderableFactoryCpuWorker {
+    private static readonly tileSize = 32;
+    private static readonly boardThickness = 1;
+
     public constructor(params: Parameters) {
         super({
             voxelMaterialsStore: params.voxelMaterialsStore,
@@ -27,12 +158,23 @@ class BoardRenderableFactory extends VoxelsRenderableFactoryCpuWorker {
     }
 
     public async buildBoardRenderable(board: Board): Promise<BoardRenderable> {
-        const boardThickness = 1;
-        const voxelsChunkData = this.buildBoardVoxelsChunkData(board, boardThickness);
+        const boardRenderable = new TiledBoardRenderable(
+            board,
+            (tileBoard: Board, tileId: TileId) => this.buildBoardTile(tileBoard, tileId),
+            BoardRenderableFactory.tileSize,
+            BoardRenderableFactory.boardThickness
+        );
+        await boardRenderable.buildAllTiles();
+        return boardRenderable;
+    }
+
+    private async buildBoardTile(board: Board, tileId: TileId): Promise<VoxelsRenderable | null> {
+        const tileSize = BoardRenderableFactory.tileSize;
+        const boardThickness = BoardRenderableFactory.boardThickness;
 
-        const container = new THREE.Group();
-        container.name = 'board-renderable';
-        const voxelsRenderableList: VoxelsRenderable[] = [];
+        const tileFrom = { x: tileId.x * tileSize, z: tileId.z * tileSize };
+        const tileEnd = { x: Math.min(tileFrom.x + tileSize, board.size.x), z: Math.min(tileFrom.z + tileSize, board.size.z) };
+        const voxelsChunkData = this.buildBoardVoxelsChunkData(board, boardThickness, tileFrom, tileEnd);
 
         const result = await super.buildVoxelsRenderable(voxelsChunkData);
         if (result) {
@@ -52,34 +194,30 @@ class BoardRenderableFactory extends VoxelsRenderableFactoryCpuWorker {
                 receive: true,
             };
             result.updateUniforms();
-            container.add(result.container);
-            voxelsRenderableList.push(result);
 
-            result.container.position.set(board.origin.x, board.origin.y - boardThickness, board.origin.z);
+            result.container.position.set(board.origin.x + tileFrom.x, board.origin.y - boardThickness, board.origin.z + tileFrom.z);
         }
-
-        return {
-            container,
-            dispose() {
-                for (const voxelsRenderable of voxelsRenderableList) {
-                    voxelsRenderable.dispose();
-                }
-            },
-        };
+        return result;
     }
 
-    private buildBoardVoxelsChunkData(board: Board, boardThickness: number): VoxelsChunkData {
+    /** The chunk holds the squares from "from" (included) to "to" (excluded), plus a margin of one square around them. */
+    private buildBoardVoxelsChunkData(
+        board: Board,
+        boardThickness: number,
+        from: { readonly x: number; readonly z: number },
+        to: { readonly x: number; readonly z: number }
+    ): VoxelsChunkData {
         if (!Number.isInteger(boardThickness) || boardThickness < 1) {
             throw new Error();
         }
 
-        const chunkSize = new THREE.Vector3(board.size.x + 2, 1 + boardThickness + 1 + 1, board.size.z + 2);
+        const chunkSize = new THREE.Vector3(to.x - from.x + 2, 1 + boardThickness + 1 + 1, to.z - from.z + 2);
         let chunkIsEmpty = true;
         const chunkData = new Uint16Array(chunkSize.x * chunkSize.y * chunkSize.z);
         for (let iChunkZ = 0; iChunkZ < chunkSize.z; iChunkZ++) {
             for (let iChunkX = 0; iChunkX < chunkSize.x; iChunkX++) {
-                const boardX = iChunkX - 1;
-                const boardZ = iChunkZ - 1;
+                const boardX = from.x + iChunkX - 1;
+                const boardZ = from.z + iChunkZ - 1;
                 if (boardX < 0 || boardZ < 0 || boardX >= board.size.x || boardZ >= board.size.z) {
                     continue;
                 }
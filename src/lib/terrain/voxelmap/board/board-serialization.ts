@@ -0,0 +1,235 @@
+import { EVoxelShape } from '../i-voxelmap';
+
+import { createBoardId, EBoardSquareType, type Board, type BoardSquare } from './board';
+
+/**
+ * Binary layout (version 2):
+ * - uint8: format version
+ * - 3 x varint (zigzag): board origin
+ * - 2 x varint: board size
+ * - run-length encoded square types
+ * - run-length encoded square material IDs
+ * - run-length encoded square floors, relative to the board origin
+ * - run-length encoded square floor shapes
+ *
+ * Each run is stored as a varint length followed by a varint value.
+ */
+const formatVersion = 2;
+
+function zigzagEncode(value: number): number {
+    return value >= 0 ? 2 * value : -2 * value - 1;
+}
+
+function zigzagDecode(value: number): number {
+    return value % 2 === 0 ? value / 2 : -(value + 1) / 2;
+}
+
+class ByteWriter {
+    private buffer = new Uint8Array(256);
+    private length = 0;
+
+    public writeUint8(value: number): void {
+        this.reserve(1);
+        this.buffer[this.length++] = value;
+    }
+
+    public writeVarUint(value: number): void {
+        if (!Number.isInteger(value) || value < 0) {
+            throw new Error(`Cannot encode "${value}" as an unsigned integer.`);
+        }
+        do {
+            let byte = value & 0x7f;
+            value = Math.floor(value / 128);
+            if (value > 0) {
+                byte |= 0x80;
+            }
+            this.writeUint8(byte);
+        } while (value > 0);
+    }
+
+    public writeVarInt(value: number): void {
+        this.writeVarUint(zigzagEncode(value));
+    }
+
+    public toUint8Array(): Uint8Array {
+        return this.buffer.slice(0, this.length);
+    }
+
+    private reserve(bytesCount: number): void {
+        if (this.length + bytesCount > this.buffer.length) {
+            const newBuffer = new Uint8Array(2 * (this.length + bytesCount));
+            newBuffer.set(this.buffer);
+            this.buffer = newBuffer;
+        }
+    }
+}
+
+class ByteReader {
+    private readonly buffer: Uint8Array;
+    private offset = 0;
+
+    public constructor(buffer: Uint8Array) {
+        this.buffer = buffer;
+    }
+
+    public readUint8(): number {
+        const value = this.buffer[this.offset++];
+        if (typeof value === 'undefined') {
+            throw new Error('Unexpected end of serialized board.');
+        }
+        return value;
+    }
+
+    public readVarUint(): number {
+        let value = 0;
+        let multiplier = 1;
+        let byte: number;
+        do {
+            byte = this.readUint8();
+            value += (byte & 0x7f) * multiplier;
+            multiplier *= 128;
+        } while (byte & 0x80);
+        return value;
+    }
+
+    public readVarInt(): number {
+        return zigzagDecode(this.readVarUint());
+    }
+
+    public get isAtEnd(): boolean {
+        return this.offset === this.buffer.length;
+    }
+}
+
+function writeRuns(writer: ByteWriter, values: ReadonlyArray<number>): void {
+    let index = 0;
+    while (index < values.length) {
+        const value = values[index]!;
+        let runLength = 1;
+        while (index + runLength < values.length && values[index + runLength] === value) {
+            runLength++;
+        }
+        writer.writeVarUint(runLength);
+        writer.writeVarUint(value);
+        index += runLength;
+    }
+}
+
+function readRuns(reader: ByteReader, valuesCount: number): number[] {
+    const values: number[] = [];
+    while (values.length < valuesCount) {
+        const runLength = reader.readVarUint();
+        const value = reader.readVarUint();
+        if (runLength === 0 || values.length + runLength > valuesCount) {
+            throw new Error(`Invalid run of length "${runLength}" in serialized board.`);
+        }
+        for (let i = 0; i < runLength; i++) {
+            values.push(value);
+        }
+    }
+    return values;
+}
+
+/**
+ * Encodes a board into a compact binary buffer, to be sent over the network for instance.
+ * The board id is not serialized: it is only meaningful locally.
+ */
+function serializeBoard(board: Board): Uint8Array {
+    const squaresCount = board.size.x * board.size.z;
+    if (board.squares.length !== squaresCount) {
+        throw new Error(`Invalid board: expected ${squaresCount} squares, got ${board.squares.length}.`);
+    }
+    if (!Number.isInteger(board.origin.x) || !Number.isInteger(board.origin.y) || !Number.isInteger(board.origin.z)) {
+        throw new Error(`Invalid board origin "${board.origin.x}x${board.origin.y}x${board.origin.z}".`);
+    }
+
+    const writer = new ByteWriter();
+    writer.writeUint8(formatVersion);
+    writer.writeVarInt(board.origin.x);
+    writer.writeVarInt(board.origin.y);
+    writer.writeVarInt(board.origin.z);
+    writer.writeVarUint(board.size.x);
+    writer.writeVarUint(board.size.z);
+
+    writeRuns(
+        writer,
+        board.squares.map(square => square.type)
+    );
+    writeRuns(
+        writer,
+        board.squares.map(square => square.materialId)
+    );
+    // floors are stored as zigzag-encoded offsets from the origin, shifted by 1 so that 0 means "no floor"
+    writeRuns(
+        writer,
+        board.squares.map(square => {
+            if (isNaN(square.floorY)) {
+                return 0;
+            }
+            return 1 + zigzagEncode(square.floorY - board.origin.y);
+        })
+    );
+    writeRuns(
+        writer,
+        board.squares.map(square => square.floorShape)
+    );
+
+    return writer.toUint8Array();
+}
+
+/**
+ * Rebuilds a board encoded with "serializeBoard". The board is given a new local id.
+ */
+function deserializeBoard(buffer: Uint8Array): Board {
+    const reader = new ByteReader(buffer);
+    const version = reader.readUint8();
+    if (version !== formatVersion) {
+        throw new Error(`Unsupported serialized board version "${version}" (expected "${formatVersion}").`);
+    }
+
+    const origin = {
+        x: reader.readVarInt(),
+        y: reader.readVarInt(),
+        z: reader.readVarInt(),
+    };
+    const size = {
+        x: reader.readVarUint(),
+        z: reader.readVarUint(),
+    };
+    const squaresCount = size.x * size.z;
+
+    const types = readRuns(reader, squaresCount);
+    const materialIds = readRuns(reader, squaresCount);
+    const floors = readRuns(reader, squaresCount);
+    const floorShapes = readRuns(reader, squaresCount);
+    if (!reader.isAtEnd) {
+        throw new Error('Unexpected trailing data in serialized board.');
+    }
+
+    const squares: BoardSquare[] = [];
+    for (let i = 0; i < squaresCount; i++) {
+        const type = types[i]!;
+        if (!(type in EBoardSquareType)) {
+            throw new Error(`Invalid board square type "${type}".`);
+        }
+
+        const floorShape = floorShapes[i]!;
+        if (!(floorShape in EVoxelShape)) {
+            throw new Error(`Invalid board square floor shape "${floorShape}".`);
+        }
+
+        const encodedFloor = floors[i]!;
+        const floorY = encodedFloor > 0 ? origin.y + zigzagDecode(encodedFloor - 1) : NaN;
+
+        squares.push({ type, materialId: materialIds[i]!, floorY, floorShape });
+    }
+
+    return {
+        id: createBoardId(),
+        size,
+        squares,
+        origin,
+    };
+}
+
+export { deserializeBoard, serializeBoard };
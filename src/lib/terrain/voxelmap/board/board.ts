@@ -1,5 +1,5 @@
 import * as THREE from '../../../libs/three-usage';
-import { voxelEncoder, type IVoxelMap } from '../i-voxelmap';
+import { EVoxelShape, voxelEncoder, type IVoxelMap } from '../i-voxelmap';
 
 enum EBoardSquareType {
     OUT_OF_BOUNDS = 0,
@@ -11,6 +11,15 @@ enum EBoardSquareType {
 type BoardSquare = {
     readonly type: EBoardSquareType;
     readonly materialId: number;
+    /**
+     * World Y coordinate of the topmost solid voxel of the square.
+     * For obstacles, this is the floor level at which the obstacle was detected: the obstacle extends upwards from there.
+     * For holes, this is the Y coordinate of the non-walkable floor if any (see "nonWalkableMaterials"), NaN otherwise.
+     * NaN for out-of-bounds squares.
+     */
+    readonly floorY: number;
+    /** Shape of the voxel at "floorY" (slab, stairs, slope...). FULL when there is no such voxel. */
+    readonly floorShape: EVoxelShape;
 };
 
 type ColumnId = { readonly x: number; readonly z: number };
@@ -22,22 +31,192 @@ type Board = {
     readonly origin: THREE.Vector3Like;
 };
 
+type BoardSquareChange = {
+    /** Board coordinates of the square */
+    readonly x: number;
+    readonly z: number;
+    readonly previous: BoardSquare;
+    readonly current: BoardSquare;
+};
+
+type BoardUpdate = {
+    /**
+     * The updated board. It keeps the same id and size as the previous one.
+     * Its origin only moves vertically, when the lowest floor of the board changed.
+     */
+    readonly board: Board;
+    readonly changes: ReadonlyArray<BoardSquareChange>;
+};
+
+type BoardFootprint =
+    | {
+          /** Squares closer to the origin than the board radius (default). */
+          readonly shape: 'circle';
+      }
+    | {
+          readonly shape: 'rectangle';
+          /** Half size of the rectangle, in squares. Defaults to the board radius on each axis. */
+          readonly halfSize?: { readonly x: number; readonly z: number };
+      }
+    | {
+          readonly shape: 'mask';
+          /** @param relativePos Position of the square relatively to the board origin */
+          isInside(relativePos: { readonly x: number; readonly z: number }): boolean;
+      };
+
+type BoardColumnClassification = {
+    /** World coordinates of the column */
+    readonly worldX: number;
+    readonly worldZ: number;
+    /**
+     * Altitude from which the column is classified: the floor level of the neighbouring square from which this column is reached,
+     * or the voxel below the center floor for the columns reached from the center square (or for all of them without flood fill).
+     */
+    readonly referenceY: number;
+    /** The square computed by the default rules. */
+    readonly defaultSquare: BoardSquare;
+    /** @returns the raw voxel data (see "voxelEncoder") of the column at the given world altitude. */
+    sampleVoxel(worldY: number): number;
+};
+
+type BoardGenerationOptions = {
+    readonly footprint?: BoardFootprint;
+    /**
+     * When true (default), only the squares connected to the origin through FLAT squares are part of the board.
+     * When false, every square of the footprint is computed relatively to the origin floor.
+     */
+    readonly floodFill?: boolean;
+    /**
+     * Height differences (in voxels) between a square and the square it is reached from must be strictly below this value,
+     * and so must the altitude difference with the origin. Defaults to 4.
+     */
+    readonly maxStepHeight?: number;
+    /** Minimum count of empty voxels above a FLAT square floor. Squares with less headroom are OBSTACLE. Defaults to 1. */
+    readonly minHeadroom?: number;
+    /** Materials that can never be walked on (water, lava...). Squares with such a floor are HOLE. */
+    readonly nonWalkableMaterials?: Iterable<number>;
+    /**
+     * Optional hook to override the classification of a column. Return "defaultSquare" to keep the default behaviour.
+     * It must only depend on its input: "updateBoard" only calls it again for the modified columns.
+     */
+    readonly classifyColumn?: (column: BoardColumnClassification) => BoardSquare;
+};
+
 type BoardSquareExtended = BoardSquare & {
-    readonly floorY: number;
     readonly generation: number;
 };
 
+/** Snapshot of the map around a board, kept to be able to recompute the board without querying the whole map again. */
+type BoardComputationData = {
+    readonly originWorld: THREE.Vector3Like;
+    readonly radius: number;
+    readonly options: ResolvedBoardGenerationOptions;
+    readonly dataFromWorld: THREE.Vector3Like;
+    readonly dataSize: THREE.Vector3Like;
+    readonly data: Uint16Array;
+    /**
+     * Squares computed by "classifyColumn", per square index then per reference altitude.
+     * They only depend on the data of their column, so they are kept as long as the column is not modified.
+     */
+    readonly classifiedColumns: Map<number, Map<number, BoardSquare>>;
+};
+
+type ResolvedBoardGenerationOptions = {
+    readonly isInFootprint: (relativePos: ColumnId) => boolean;
+    readonly floodFill: boolean;
+    readonly maxStepHeight: number;
+    readonly minHeadroom: number;
+    readonly nonWalkableMaterials: ReadonlySet<number>;
+    readonly classifyColumn: BoardGenerationOptions['classifyColumn'] | null;
+};
+
 let boardxCount = 0;
+const boardxComputationData = new WeakMap<Board, BoardComputationData>();
 
-async function computeBoard(map: IVoxelMap, originWorld: THREE.Vector3Like, radius: number): Promise<Board> {
-    originWorld = {
-        x: Math.floor(originWorld.x),
-        y: Math.floor(originWorld.y),
-        z: Math.floor(originWorld.z),
+function createBoardId(): number {
+    return boardxCount++;
+}
+
+function resolveBoardGenerationOptions(radius: number, options: BoardGenerationOptions): ResolvedBoardGenerationOptions {
+    const footprint = options.footprint ?? { shape: 'circle' };
+    let isInFootprint: (relativePos: ColumnId) => boolean;
+    if (footprint.shape === 'circle') {
+        isInFootprint = relativePos => Math.sqrt(relativePos.x * relativePos.x + relativePos.z * relativePos.z) < radius - 1;
+    } else if (footprint.shape === 'rectangle') {
+        const halfSize = footprint.halfSize ?? { x: radius, z: radius };
+        if (halfSize.x > radius || halfSize.z > radius) {
+            throw new Error(`Rectangle footprint "${halfSize.x}x${halfSize.z}" does not fit in board radius "${radius}".`);
+        }
+        isInFootprint = relativePos => Math.abs(relativePos.x) <= halfSize.x && Math.abs(relativePos.z) <= halfSize.z;
+    } else {
+        isInFootprint = relativePos => footprint.isInside(relativePos);
+    }
+
+    const maxStepHeight = options.maxStepHeight ?? 4;
+    if (!Number.isInteger(maxStepHeight) || maxStepHeight < 2) {
+        throw new Error(`Invalid max step height "${maxStepHeight}".`);
+    }
+    const minHeadroom = options.minHeadroom ?? 1;
+    if (!Number.isInteger(minHeadroom) || minHeadroom < 1) {
+        throw new Error(`Invalid min headroom "${minHeadroom}".`);
+    }
+
+    return {
+        isInFootprint,
+        floodFill: options.floodFill ?? true,
+        maxStepHeight,
+        minHeadroom,
+        nonWalkableMaterials: new Set(options.nonWalkableMaterials ?? []),
+        classifyColumn: options.classifyColumn ?? null,
     };
+}
+
+function buildBoardComputationDataBox(
+    originWorld: THREE.Vector3Like,
+    radius: number,
+    options: ResolvedBoardGenerationOptions
+): { from: THREE.Vector3; to: THREE.Vector3 } {
+    const dataMargin = radius + 5;
+    const dataMarginY = Math.max(dataMargin, 3 * options.maxStepHeight + options.minHeadroom + 1);
+    return {
+        from: new THREE.Vector3(originWorld.x - dataMargin, originWorld.y - dataMarginY, originWorld.z - dataMargin),
+        to: new THREE.Vector3(originWorld.x + dataMargin, originWorld.y + dataMarginY, originWorld.z + dataMargin),
+    };
+}
+
+/** Translucent voxels (glass, ice...) block like solid voxels: they are handled as full solid cubes of their material. */
+function toBlockingSolidVoxel(voxelData: number): number {
+    if (voxelEncoder.translucentVoxel.isOfType(voxelData)) {
+        return voxelEncoder.solidVoxel.encode(false, voxelEncoder.translucentVoxel.getMaterialId(voxelData));
+    }
+    return voxelData;
+}
+
+async function fetchBoardComputationData(
+    map: IVoxelMap,
+    originWorld: THREE.Vector3Like,
+    radius: number,
+    options: ResolvedBoardGenerationOptions
+): Promise<BoardComputationData> {
+    const dataBox = buildBoardComputationDataBox(originWorld, radius, options);
+    const dataSize = dataBox.to.clone().sub(dataBox.from);
+    const localMapData = await map.getLocalMapData(dataBox.from, dataBox.to);
+    return {
+        originWorld,
+        radius,
+        options,
+        dataFromWorld: dataBox.from,
+        dataSize,
+        data: localMapData.isEmpty ? new Uint16Array(dataSize.x * dataSize.y * dataSize.z) : new Uint16Array(localMapData.data),
+        classifiedColumns: new Map(),
+    };
+}
+
+function computeBoardSquares(computationData: BoardComputationData): { squares: BoardSquareExtended[]; originY: number } {
+    const { originWorld, radius, options, dataFromWorld, dataSize, data, classifiedColumns } = computationData;
 
     let currentGeneration = 0;
-    const maxDeltaY = 4;
+    const maxDeltaY = options.maxStepHeight;
     const boardHalfSize = radius;
     const boardSize = { x: 2 * boardHalfSize + 1, z: 2 * boardHalfSize + 1 };
     const boardSquares: BoardSquareExtended[] = [];
@@ -47,6 +226,7 @@ async function computeBoard(map: IVoxelMap, originWorld: THREE.Vector3Like, radi
                 type: EBoardSquareType.OUT_OF_BOUNDS,
                 materialId: 0,
                 floorY: NaN,
+                floorShape: EVoxelShape.FULL,
                 generation: currentGeneration,
             });
         }
@@ -81,12 +261,7 @@ async function computeBoard(map: IVoxelMap, originWorld: THREE.Vector3Like, radi
         return boardSquares[index];
     };
 
-    const dataMargin = boardHalfSize + 5;
-    const dataFromWorld = new THREE.Vector3().copy(originWorld).subScalar(dataMargin);
-    const dataToWorld = new THREE.Vector3().copy(originWorld).addScalar(dataMargin);
-    const data = await map.getLocalMapData(dataFromWorld, dataToWorld);
-    const dataSize = dataToWorld.clone().sub(dataFromWorld);
-
+    /** Raw voxel data of the given position. See "sampleBlockingVoxel" for the data the default rules work on. */
     const sampleData = (worldPos: THREE.Vector3Like) => {
         const dataPos = new THREE.Vector3().copy(worldPos).sub(dataFromWorld);
         if (
@@ -99,12 +274,10 @@ async function computeBoard(map: IVoxelMap, originWorld: THREE.Vector3Like, radi
         ) {
             throw new Error();
         }
-        if (data.isEmpty) {
-            return 0;
-        }
         const index = dataPos.x + dataPos.y * dataSize.x + dataPos.z * dataSize.x * dataSize.y;
-        return data.data[index]!;
+        return data[index]!;
     };
+    const sampleBlockingVoxel = (worldPos: THREE.Vector3Like) => toBlockingSolidVoxel(sampleData(worldPos));
 
     {
         const originWorldCoords = {
@@ -112,12 +285,12 @@ async function computeBoard(map: IVoxelMap, originWorld: THREE.Vector3Like, radi
             y: originWorld.y,
             z: originWorld.z,
         };
-        let originSample = sampleData(originWorldCoords);
+        let originSample = sampleBlockingVoxel(originWorldCoords);
         let deltaY = 0;
         while (!voxelEncoder.solidVoxel.isOfType(originSample) && deltaY < maxDeltaY) {
             originWorldCoords.y--;
             deltaY++;
-            originSample = sampleData(originWorldCoords);
+            originSample = sampleBlockingVoxel(originWorldCoords);
         }
         if (!voxelEncoder.solidVoxel.isOfType(originSample)) {
             throw new Error();
@@ -128,11 +301,139 @@ async function computeBoard(map: IVoxelMap, originWorld: THREE.Vector3Like, radi
                 type: EBoardSquareType.FLAT,
                 materialId: voxelEncoder.solidVoxel.getMaterialId(originSample),
                 generation: currentGeneration,
-                floorY: originWorldCoords.y - 1,
+                floorY: originWorldCoords.y,
+                floorShape: voxelEncoder.solidVoxel.getShape(originSample),
             }
         );
     }
-    const originY = getBoardSquare({ x: 0, z: 0 })!.floorY;
+    // the board altitudes are relative to the voxel below the center floor
+    const originY = getBoardSquare({ x: 0, z: 0 }).floorY - 1;
+
+    const applyDefaultRules = (worldPos: THREE.Vector3Like): BoardSquare => {
+        const sampleY = sampleBlockingVoxel(worldPos);
+
+        if (voxelEncoder.solidVoxel.isOfType(sampleY)) {
+            let firstSample: number | null = null;
+            let lastSample = sampleY;
+            for (let deltaY = 1; deltaY < maxDeltaY; deltaY++) {
+                const sample = sampleBlockingVoxel({ x: worldPos.x, y: worldPos.y + deltaY, z: worldPos.z });
+                if (!voxelEncoder.solidVoxel.isOfType(sample)) {
+                    return {
+                        type: EBoardSquareType.FLAT,
+                        materialId: voxelEncoder.solidVoxel.getMaterialId(lastSample),
+                        floorY: worldPos.y + deltaY - 1,
+                        floorShape: voxelEncoder.solidVoxel.getShape(lastSample),
+                    };
+                } else {
+                    firstSample = firstSample ?? sample;
+                    lastSample = sample;
+                }
+            }
+
+            if (!firstSample) {
+                throw new Error();
+            }
+
+            return {
+                type: EBoardSquareType.OBSTACLE,
+                materialId: voxelEncoder.solidVoxel.getMaterialId(firstSample),
+                floorY: worldPos.y,
+                floorShape: voxelEncoder.solidVoxel.getShape(sampleY),
+            };
+        } else {
+            for (let deltaY = -1; deltaY > -maxDeltaY; deltaY--) {
+                const sample = sampleBlockingVoxel({ x: worldPos.x, y: worldPos.y + deltaY, z: worldPos.z });
+                if (voxelEncoder.solidVoxel.isOfType(sample)) {
+                    return {
+                        type: EBoardSquareType.FLAT,
+                        materialId: voxelEncoder.solidVoxel.getMaterialId(sample),
+                        floorY: worldPos.y + deltaY,
+                        floorShape: voxelEncoder.solidVoxel.getShape(sample),
+                    };
+                }
+            }
+
+            return {
+                type: EBoardSquareType.HOLE,
+                materialId: 0,
+                floorY: NaN,
+                floorShape: EVoxelShape.FULL,
+            };
+        }
+    };
+
+    const classifyColumn = (relativePos: ColumnId, referenceY: number): BoardSquare => {
+        const index = getIndex(relativePos);
+        let columnSquares = classifiedColumns.get(index);
+        if (!columnSquares) {
+            columnSquares = new Map();
+            classifiedColumns.set(index, columnSquares);
+        }
+        let square = columnSquares.get(referenceY);
+        if (!square) {
+            square = classifyColumnData(relativePos, referenceY);
+            columnSquares.set(referenceY, square);
+        }
+        return square;
+    };
+
+    const classifyColumnData = (relativePos: ColumnId, referenceY: number): BoardSquare => {
+        const worldPos = {
+            x: relativePos.x + originWorld.x,
+            y: referenceY,
+            z: relativePos.z + originWorld.z,
+        };
+
+        let square = applyDefaultRules(worldPos);
+
+        if (square.type === EBoardSquareType.FLAT) {
+            for (let deltaY = 1; deltaY <= options.minHeadroom; deltaY++) {
+                if (voxelEncoder.solidVoxel.isOfType(sampleBlockingVoxel({ x: worldPos.x, y: square.floorY + deltaY, z: worldPos.z }))) {
+                    square = { ...square, type: EBoardSquareType.OBSTACLE };
+                    break;
+                }
+            }
+        }
+
+        if (square.type === EBoardSquareType.FLAT && options.nonWalkableMaterials.has(square.materialId)) {
+            square = { ...square, type: EBoardSquareType.HOLE };
+        }
+
+        if (options.classifyColumn) {
+            square = options.classifyColumn({
+                worldX: worldPos.x,
+                worldZ: worldPos.z,
+                referenceY,
+                defaultSquare: square,
+                sampleVoxel: (worldY: number) => sampleData({ x: worldPos.x, y: worldY, z: worldPos.z }),
+            });
+        }
+
+        return square;
+    };
+
+    const isSquareAccepted = (square: BoardSquare): boolean => {
+        return !isNaN(square.floorY) && Math.abs(square.floorY - originY) < maxDeltaY;
+    };
+
+    if (!options.floodFill) {
+        currentGeneration++;
+        const relativePos = { x: 0, z: 0 };
+        for (relativePos.z = -boardHalfSize; relativePos.z <= boardHalfSize; relativePos.z++) {
+            for (relativePos.x = -boardHalfSize; relativePos.x <= boardHalfSize; relativePos.x++) {
+                if ((relativePos.x === 0 && relativePos.z === 0) || !options.isInFootprint(relativePos)) {
+                    continue;
+                }
+
+                const square = classifyColumn(relativePos, originY);
+                if (isSquareAccepted(square)) {
+                    setBoardSquare(relativePos, { ...square, generation: currentGeneration });
+                }
+            }
+        }
+
+        return { squares: boardSquares, originY };
+    }
 
     const computeBoardSquare = (relativePos: ColumnId): BoardSquareExtended | null => {
         const square = getBoardSquare(relativePos);
@@ -142,69 +443,19 @@ async function computeBoard(map: IVoxelMap, originWorld: THREE.Vector3Like, radi
         }
 
         // if this square has not been computed yet
-        const xm = tryGetBoardSquare({ x: relativePos.x - 1, z: relativePos.z });
-        const xp = tryGetBoardSquare({ x: relativePos.x + 1, z: relativePos.z });
-        const zm = tryGetBoardSquare({ x: relativePos.x, z: relativePos.z - 1 });
-        const zp = tryGetBoardSquare({ x: relativePos.x, z: relativePos.z + 1 });
-
-        const worldPos = { x: 0, y: 0, z: 0 };
-        worldPos.x = relativePos.x + originWorld.x;
-        worldPos.z = relativePos.z + originWorld.z;
+        const neighboursPos = [
+            { x: relativePos.x - 1, z: relativePos.z },
+            { x: relativePos.x + 1, z: relativePos.z },
+            { x: relativePos.x, z: relativePos.z - 1 },
+            { x: relativePos.x, z: relativePos.z + 1 },
+        ];
 
-        for (const neighbour of [xm, xp, zm, zp]) {
+        for (const neighbourPos of neighboursPos) {
+            const neighbour = tryGetBoardSquare(neighbourPos);
             if (neighbour?.type === EBoardSquareType.FLAT && neighbour.generation === currentGeneration - 1) {
-                worldPos.y = neighbour.floorY;
-                const generation = currentGeneration;
-                const sampleY = sampleData(worldPos);
-
-                if (voxelEncoder.solidVoxel.isOfType(sampleY)) {
-                    let firstSample: number | null = null;
-                    let lastSample = sampleY;
-                    for (let deltaY = 1; deltaY < maxDeltaY; deltaY++) {
-                        const sample = sampleData({ x: worldPos.x, y: worldPos.y + deltaY, z: worldPos.z });
-                        if (!voxelEncoder.solidVoxel.isOfType(sample)) {
-                            return {
-                                type: EBoardSquareType.FLAT,
-                                materialId: voxelEncoder.solidVoxel.getMaterialId(lastSample),
-                                floorY: worldPos.y + deltaY - 1,
-                                generation,
-                            };
-                        } else {
-                            firstSample = firstSample ?? sample;
-                            lastSample = sample;
-                        }
-                    }
-
-                    if (!firstSample) {
-                        throw new Error();
-                    }
-
-                    return {
-                        type: EBoardSquareType.OBSTACLE,
-                        materialId: voxelEncoder.solidVoxel.getMaterialId(firstSample),
-                        floorY: worldPos.y,
-                        generation,
-                    };
-                } else {
-                    for (let deltaY = -1; deltaY > -maxDeltaY; deltaY--) {
-                        const sample = sampleData({ x: worldPos.x, y: worldPos.y + deltaY, z: worldPos.z });
-                        if (voxelEncoder.solidVoxel.isOfType(sample)) {
-                            return {
-                                type: EBoardSquareType.FLAT,
-                                materialId: voxelEncoder.solidVoxel.getMaterialId(sample),
-                                floorY: worldPos.y + deltaY,
-                                generation,
-                            };
-                        }
-                    }
-
-                    return {
-                        type: EBoardSquareType.HOLE,
-                        materialId: 0,
-                        floorY: NaN,
-                        generation,
-                    };
-                }
+                const isCenter = neighbourPos.x === 0 && neighbourPos.z === 0;
+                const referenceY = isCenter ? originY : neighbour.floorY;
+                return { ...classifyColumn(relativePos, referenceY), generation: currentGeneration };
             }
         }
 
@@ -219,12 +470,12 @@ async function computeBoard(map: IVoxelMap, originWorld: THREE.Vector3Like, radi
         const relativePos = { x: 0, z: 0 };
         for (relativePos.z = -boardHalfSize; relativePos.z <= boardHalfSize; relativePos.z++) {
             for (relativePos.x = -boardHalfSize; relativePos.x <= boardHalfSize; relativePos.x++) {
-                if (Math.sqrt(relativePos.x * relativePos.x + relativePos.z * relativePos.z) >= boardHalfSize - 1) {
+                if (!options.isInFootprint(relativePos)) {
                     continue;
                 }
 
                 const square = computeBoardSquare(relativePos);
-                if (square && !isNaN(square.floorY) && Math.abs(square.floorY - originY) < maxDeltaY) {
+                if (square && isSquareAccepted(square)) {
                     somethingChanged = true;
                     setBoardSquare(relativePos, square);
                 }
@@ -232,7 +483,16 @@ async function computeBoard(map: IVoxelMap, originWorld: THREE.Vector3Like, radi
         }
     } while (somethingChanged);
 
-    const minY = boardSquares.reduce((y: number, square: BoardSquareExtended) => {
+    return { squares: boardSquares, originY };
+}
+
+function computeBoardOrigin(
+    originWorld: THREE.Vector3Like,
+    radius: number,
+    squares: ReadonlyArray<BoardSquare>,
+    originY: number
+): THREE.Vector3 {
+    const minY = squares.reduce((y: number, square: BoardSquare) => {
         if (!isNaN(square.floorY)) {
             return Math.min(y, square.floorY);
         }
@@ -240,14 +500,168 @@ async function computeBoard(map: IVoxelMap, originWorld: THREE.Vector3Like, radi
     }, originY);
     const boardYShift = minY - originY - 1;
 
-    const boardOrigin = new THREE.Vector3(originWorld.x - boardHalfSize, originWorld.y + boardYShift, originWorld.z - boardHalfSize);
+    return new THREE.Vector3(originWorld.x - radius, originWorld.y + boardYShift, originWorld.z - radius);
+}
 
-    return {
-        id: boardxCount++,
+async function computeBoard(
+    map: IVoxelMap,
+    originWorld: THREE.Vector3Like,
+    radius: number,
+    options: BoardGenerationOptions = {}
+): Promise<Board> {
+    originWorld = {
+        x: Math.floor(originWorld.x),
+        y: Math.floor(originWorld.y),
+        z: Math.floor(originWorld.z),
+    };
+
+    const boardHalfSize = radius;
+    const boardSize = { x: 2 * boardHalfSize + 1, z: 2 * boardHalfSize + 1 };
+
+    const resolvedOptions = resolveBoardGenerationOptions(radius, options);
+    const computationData = await fetchBoardComputationData(map, originWorld, radius, resolvedOptions);
+    const { squares: boardSquares, originY } = computeBoardSquares(computationData);
+
+    const board: Board = {
+        id: createBoardId(),
         size: boardSize,
         squares: boardSquares,
-        origin: boardOrigin,
+        origin: computeBoardOrigin(originWorld, radius, boardSquares, originY),
+    };
+    boardxComputationData.set(board, computationData);
+    return board;
+}
+
+/**
+ * Recomputes a board after some voxels of the map were modified (e.g. broken or placed during a fight).
+ * Only the modified voxels are queried again from the map, only the squares of the modified columns and the squares reached from them
+ * with a different floor are classified again, and the result lists the squares that changed,
+ * so that the changes can be applied without rebuilding everything that depends on the board.
+ * The board keeps its id and size, and its origin is refreshed.
+ *
+ * @param map The map the board was computed from. It must already contain the modifications.
+ * @param board A board previously returned by "computeBoard" or "updateBoard".
+ * @param modifiedVoxels World coordinates of the voxels that were modified.
+ * @param options Generation options, only used if the board was not computed locally (e.g. received from the network).
+ * Boards computed locally are always updated with the options they were computed with.
+ */
+async function updateBoard(
+    map: IVoxelMap,
+    board: Board,
+    modifiedVoxels: Iterable<THREE.Vector3Like>,
+    options: BoardGenerationOptions = {}
+): Promise<BoardUpdate> {
+    let computationData = boardxComputationData.get(board);
+    if (computationData) {
+        const dataBox = new THREE.Box3(
+            new THREE.Vector3().copy(computationData.dataFromWorld),
+            new THREE.Vector3().addVectors(computationData.dataFromWorld, computationData.dataSize)
+        );
+        const modifiedBox = new THREE.Box3();
+        const modifiedColumns: ColumnId[] = [];
+        for (const voxel of modifiedVoxels) {
+            const voxelCoords = new THREE.Vector3(Math.floor(voxel.x), Math.floor(voxel.y), Math.floor(voxel.z));
+            if (voxelCoords.x >= dataBox.min.x && voxelCoords.y >= dataBox.min.y && voxelCoords.z >= dataBox.min.z) {
+                if (voxelCoords.x < dataBox.max.x && voxelCoords.y < dataBox.max.y && voxelCoords.z < dataBox.max.z) {
+                    modifiedBox.expandByPoint(voxelCoords);
+                    modifiedColumns.push({ x: voxelCoords.x, z: voxelCoords.z });
+                }
+            }
+        }
+
+        if (modifiedBox.isEmpty()) {
+            return { board, changes: [] };
+        }
+
+        modifiedBox.max.addScalar(1);
+        const modifiedSize = modifiedBox.getSize(new THREE.Vector3());
+        const modifiedData = await map.getLocalMapData(modifiedBox.min, modifiedBox.max);
+
+        const data = new Uint16Array(computationData.data);
+        const { dataFromWorld, dataSize } = computationData;
+        for (let iZ = 0; iZ < modifiedSize.z; iZ++) {
+            for (let iY = 0; iY < modifiedSize.y; iY++) {
+                for (let iX = 0; iX < modifiedSize.x; iX++) {
+                    const modifiedIndex = iX + iY * modifiedSize.x + iZ * modifiedSize.x * modifiedSize.y;
+                    const dataX = modifiedBox.min.x + iX - dataFromWorld.x;
+                    const dataY = modifiedBox.min.y + iY - dataFromWorld.y;
+                    const dataZ = modifiedBox.min.z + iZ - dataFromWorld.z;
+                    const dataIndex = dataX + dataY * dataSize.x + dataZ * dataSize.x * dataSize.y;
+                    data[dataIndex] = modifiedData.isEmpty ? voxelEncoder.encodeEmpty() : modifiedData.data[modifiedIndex]!;
+                }
+            }
+        }
+        // the other columns keep their classification
+        const boardHalfSize = computationData.radius;
+        const classifiedColumns = new Map(computationData.classifiedColumns);
+        for (const column of modifiedColumns) {
+            const boardX = column.x - computationData.originWorld.x + boardHalfSize;
+            const boardZ = column.z - computationData.originWorld.z + boardHalfSize;
+            if (boardX >= 0 && boardZ >= 0 && boardX < board.size.x && boardZ < board.size.z) {
+                classifiedColumns.delete(boardX + boardZ * board.size.x);
+            }
+        }
+        computationData = { ...computationData, data, classifiedColumns };
+    } else {
+        // this board was not computed here (e.g. it was received from the network): query the whole area again
+        const radius = (board.size.x - 1) / 2;
+        if (!Number.isInteger(radius) || board.size.z !== board.size.x) {
+            throw new Error(`Cannot update board "${board.id}": unexpected size "${board.size.x}x${board.size.z}".`);
+        }
+        const centerSquare = board.squares[radius + radius * board.size.x];
+        if (!centerSquare || centerSquare.type !== EBoardSquareType.FLAT) {
+            throw new Error(`Cannot update board "${board.id}": its center is not a floor.`);
+        }
+        // inverse of "computeBoardOrigin"
+        const originY = centerSquare.floorY - 1;
+        const minY = board.squares.reduce(
+            (y: number, square: BoardSquare) => (isNaN(square.floorY) ? y : Math.min(y, square.floorY)),
+            originY
+        );
+        const originWorld = { x: board.origin.x + radius, y: board.origin.y - (minY - originY - 1), z: board.origin.z + radius };
+        computationData = await fetchBoardComputationData(map, originWorld, radius, resolveBoardGenerationOptions(radius, options));
+    }
+
+    const { squares, originY } = computeBoardSquares(computationData);
+
+    const changes: BoardSquareChange[] = [];
+    for (let iZ = 0; iZ < board.size.z; iZ++) {
+        for (let iX = 0; iX < board.size.x; iX++) {
+            const index = iX + iZ * board.size.x;
+            const previous = board.squares[index]!;
+            const current = squares[index]!;
+            const floorChanged = previous.floorY !== current.floorY && !(isNaN(previous.floorY) && isNaN(current.floorY));
+            if (
+                previous.type !== current.type ||
+                previous.materialId !== current.materialId ||
+                previous.floorShape !== current.floorShape ||
+                floorChanged
+            ) {
+                changes.push({ x: iX, z: iZ, previous, current });
+            }
+        }
+    }
+
+    const updatedBoard: Board = {
+        id: board.id,
+        size: board.size,
+        squares,
+        origin: computeBoardOrigin(computationData.originWorld, computationData.radius, squares, originY),
     };
+    boardxComputationData.set(updatedBoard, computationData);
+    return { board: updatedBoard, changes };
 }
 
-export { computeBoard, EBoardSquareType, type Board, type BoardSquare };
+export {
+    computeBoard,
+    createBoardId,
+    EBoardSquareType,
+    updateBoard,
+    type Board,
+    type BoardColumnClassification,
+    type BoardFootprint,
+    type BoardGenerationOptions,
+    type BoardSquare,
+    type BoardSquareChange,
+    type BoardUpdate,
+};
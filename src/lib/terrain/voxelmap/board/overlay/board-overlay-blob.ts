@@ -231,6 +231,10 @@ void main(void) {
         this.setTexel(cellId, data);
     }
 
+    public disableCellInAllBlobs(cellId: GridCoord): void {
+        this.setTexel(cellId, 0);
+    }
+
     private setTexel(position: GridCoord, texelData: number): void {
         const index = this.buildTexelIndex(position);
         this.textureData[index] = texelData;
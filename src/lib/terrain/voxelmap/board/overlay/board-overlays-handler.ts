@@ -1,4 +1,5 @@
 import * as THREE from '../../../../libs/three-usage';
+import { EBoardSquareType, type BoardSquareChange } from '../board';
 
 import { type GridCoord } from './board-overlay';
 import { BoardOverlayBlob } from './board-overlay-blob';
@@ -72,6 +73,18 @@ class BoardOverlaysHandler {
         }
     }
 
+    /**
+     * Removes the overlays displayed on squares that are no longer walkable after a board update.
+     */
+    public applyBoardChanges(changes: Iterable<BoardSquareChange>): void {
+        for (const change of changes) {
+            if (change.current.type !== EBoardSquareType.FLAT) {
+                this.overlaySquares.disableCell(change);
+                this.overlayBlob.disableCellInAllBlobs(change);
+            }
+        }
+    }
+
     public rayIntersection(ray: THREE.Ray): RayIntersection | null {
         if (ray.direction.y === 0) {
             return null;
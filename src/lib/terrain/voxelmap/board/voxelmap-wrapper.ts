@@ -3,7 +3,7 @@ import * as THREE from '../../../libs/three-usage';
 import { ChunkId } from '../chunk/chunk-id';
 import { voxelEncoder, type IVoxelMap, type LocalMapData, type VoxelsChunkSize } from '../i-voxelmap';
 
-import { EBoardSquareType, type Board } from './board';
+import { EBoardSquareType, type Board, type BoardUpdate } from './board';
 
 type OnLocalMapDataChange = (modifiedChunksIdsList: ReadonlyArray<ChunkId>) => unknown;
 
@@ -109,57 +109,122 @@ class VoxelmapWrapper implements IVoxelMap {
             throw new Error(`Cannot register the board "${board.id}" twice.`);
         }
 
-        const chunksColumnsMap = new Map<string, ColumnId>();
-        const hiddenColumnsList: HiddenColumn[] = [];
+        const hiddenColumnsList = this.buildHiddenColumnsList(board);
+        const modifiedChunksIdsList = this.buildChunksIdsList(board, this.listBoardColumns(board));
+
+        this.boardxChunks.set(board.id, { board, modifiedChunksIdsList, hiddenColumnsList });
+        this.reevaluateBoardx();
+        this.triggerOnChange(modifiedChunksIdsList);
+    }
+
+    /**
+     * Applies the result of "updateBoard" to a registered board. Only the chunks containing modified squares are invalidated,
+     * unless the origin of the board moved.
+     */
+    public updateBoard(update: BoardUpdate): void {
+        const boardAndChunksIds = this.boardxChunks.get(update.board.id);
+        if (typeof boardAndChunksIds === 'undefined') {
+            throw new Error(`Cannot update unknown board "${update.board.id}".`);
+        }
+
+        const board = update.board;
+        if (board.origin.y !== boardAndChunksIds.board.origin.y) {
+            // every column of the board is displayed at the altitude of the origin
+            const modifiedChunksIdsList = this.buildChunksIdsList(board, this.listBoardColumns(board));
+            this.boardxChunks.set(board.id, { board, modifiedChunksIdsList, hiddenColumnsList: this.buildHiddenColumnsList(board) });
+            this.reevaluateBoardx();
+            this.triggerOnChange([...boardAndChunksIds.modifiedChunksIdsList, ...modifiedChunksIdsList]);
+            return;
+        }
+
+        const modifiedColumnsWorld: ColumnId[] = [];
+        for (const change of update.changes) {
+            // include neighbouring columns because chunks geometries depend on their neighbouring voxels
+            for (let dZ = -1; dZ <= 1; dZ++) {
+                for (let dX = -1; dX <= 1; dX++) {
+                    modifiedColumnsWorld.push({
+                        x: change.x + board.origin.x + dX,
+                        z: change.z + board.origin.z + dZ,
+                    });
+                }
+            }
+        }
+
+        this.boardxChunks.set(board.id, {
+            board,
+            modifiedChunksIdsList: boardAndChunksIds.modifiedChunksIdsList,
+            hiddenColumnsList: this.buildHiddenColumnsList(board),
+        });
+        this.reevaluateBoardx();
+        this.triggerOnChange(this.buildChunksIdsList(board, modifiedColumnsWorld));
+    }
+
+    public unregisterBoard(board: Board): void {
+        const boardAndChunksIds = this.boardxChunks.get(board.id);
+        if (typeof boardAndChunksIds === 'undefined') {
+            throw new Error(`Cannot unregister unknown board "${board.id}".`);
+        }
+        this.boardxChunks.delete(board.id);
+        this.reevaluateBoardx();
+        this.triggerOnChange(boardAndChunksIds.modifiedChunksIdsList);
+    }
+
+    private listBoardColumns(board: Board): ColumnId[] {
+        const allColumnsWorld: ColumnId[] = [];
         const columnLocal = { x: 0, z: 0 };
         for (columnLocal.z = 0; columnLocal.z < board.size.z; columnLocal.z++) {
             for (columnLocal.x = 0; columnLocal.x < board.size.x; columnLocal.x++) {
-                const columnWorld = {
+                allColumnsWorld.push({
                     x: columnLocal.x + board.origin.x,
                     z: columnLocal.z + board.origin.z,
-                };
+                });
+            }
+        }
+        return allColumnsWorld;
+    }
 
+    private buildHiddenColumnsList(board: Board): HiddenColumn[] {
+        const hiddenColumnsList: HiddenColumn[] = [];
+        const columnLocal = { x: 0, z: 0 };
+        for (columnLocal.z = 0; columnLocal.z < board.size.z; columnLocal.z++) {
+            for (columnLocal.x = 0; columnLocal.x < board.size.x; columnLocal.x++) {
                 const index = columnLocal.x + columnLocal.z * board.size.x;
                 const square = board.squares[index]!;
                 if (square.type !== EBoardSquareType.OUT_OF_BOUNDS) {
                     hiddenColumnsList.push({
-                        id: columnWorld,
+                        id: {
+                            x: columnLocal.x + board.origin.x,
+                            z: columnLocal.z + board.origin.z,
+                        },
                         boardY: board.origin.y - 1,
                         boardSquareType: square.type,
                         materialId: square.materialId,
                     });
                 }
-
-                const chunkColumnId = {
-                    x: Math.floor(columnWorld.x / this.chunkSize.xz),
-                    z: Math.floor(columnWorld.z / this.chunkSize.xz),
-                };
-                chunksColumnsMap.set(`${chunkColumnId.x}_${chunkColumnId.z}`, chunkColumnId);
             }
         }
+        return hiddenColumnsList;
+    }
+
+    private buildChunksIdsList(board: Board, columnsWorld: Iterable<ColumnId>): ChunkId[] {
+        const chunksColumnsMap = new Map<string, ColumnId>();
+        for (const columnWorld of columnsWorld) {
+            const chunkColumnId = {
+                x: Math.floor(columnWorld.x / this.chunkSize.xz),
+                z: Math.floor(columnWorld.z / this.chunkSize.xz),
+            };
+            chunksColumnsMap.set(`${chunkColumnId.x}_${chunkColumnId.z}`, chunkColumnId);
+        }
 
-        const modifiedChunksIdsList: ChunkId[] = [];
+        const chunksIdsList: ChunkId[] = [];
         for (const chunkColumn of chunksColumnsMap.values()) {
             const chunkId = { x: chunkColumn.x, y: 0, z: chunkColumn.z };
             const fromChunkY = Math.floor((board.origin.y - 1) / this.chunkSize.y);
             for (chunkId.y = Math.max(this.minChunkIdY, fromChunkY); chunkId.y <= this.maxChunkIdY; chunkId.y++) {
-                modifiedChunksIdsList.push(new ChunkId(chunkId));
+                chunksIdsList.push(new ChunkId(chunkId));
             }
         }
-
-        this.boardxChunks.set(board.id, { board, modifiedChunksIdsList, hiddenColumnsList });
-        this.reevaluateBoardx();
-        this.triggerOnChange(modifiedChunksIdsList);
-    }
-
-    public unregisterBoard(board: Board): void {
-        const boardAndChunksIds = this.boardxChunks.get(board.id);
-        if (typeof boardAndChunksIds === 'undefined') {
-            throw new Error(`Cannot unregister unknown board "${board.id}".`);
-        }
-        this.boardxChunks.delete(board.id);
-        this.reevaluateBoardx();
-        this.triggerOnChange(boardAndChunksIds.modifiedChunksIdsList);
+        return chunksIdsList;
     }
 
     private triggerOnChange(modifiedChunksIdsList: ReadonlyArray<ChunkId>): void {
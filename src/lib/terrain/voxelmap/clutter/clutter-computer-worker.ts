@@ -2,10 +2,12 @@ import { type WorkerDefinition } from '../../../helpers/async/dedicatedWorkers/d
 import { DedicatedWorkersPool } from '../../../helpers/async/dedicatedWorkers/dedicated-workers-pool';
 import { type VoxelsChunkOrdering } from '../i-voxelmap';
 
-import { type ChunkClutterRaw, type ChunkClutterRawComputationInput, ClutterComputer } from './clutter-computer';
+import { type ChunkClutterRaw, type ChunkClutterRawComputationInput, ClutterComputer, type ClutterPlacement } from './clutter-computer';
 
 type Params = {
     readonly voxelsChunkOrdering: VoxelsChunkOrdering;
+    readonly clutterPlacements: ReadonlyArray<ClutterPlacement>;
+    readonly seed: number;
     readonly workersPoolSize: number;
 };
 
@@ -6,8 +6,17 @@ type ChunkClutter = Map<number, ReadonlyArray<THREE.Matrix4>>;
 type ChunkClutterRaw = Record<number, Float32Array>;
 type ChunkClutterRawComputationInput = { chunkWorldOrigin: THREE.Vector3Like; voxelsChunkData: VoxelsChunkData };
 
+type ClutterPlacement = {
+    readonly scale: { readonly min: number; readonly max: number };
+    readonly rotation: { readonly min: number; readonly max: number };
+};
+
 type Params = {
     readonly voxelsChunkOrdering: VoxelsChunkOrdering;
+    /** Placement ranges for each clutter ID. */
+    readonly clutterPlacements: ReadonlyArray<ClutterPlacement>;
+    /** Clutter placement is a deterministic function of this seed and of the world voxel coordinates. */
+    readonly seed: number;
 };
 
 type VoxelsChunkDataSample = {
@@ -18,6 +27,8 @@ type VoxelsChunkDataSample = {
 class ClutterComputer {
     private readonly serializableFactory = {
         voxelsChunkOrdering: 'zyx' as VoxelsChunkOrdering,
+        clutterPlacements: [] as ReadonlyArray<ClutterPlacement>,
+        seed: 0,
 
         clutterVoxelEncoder: voxelEncoder.clutterVoxel,
 
@@ -47,15 +58,27 @@ class ClutterComputer {
                             chunkClutterArraysMap.set(clutterId, array);
                         }
 
-                        const s = 1 + 0.5 * Math.random();
+                        const placement = this.clutterPlacements[clutterId];
+                        if (!placement) {
+                            throw new Error(`Unknown clutter id "${clutterId}".`);
+                        }
+
+                        const worldX = chunkWorldOrigin.x + localPosition.x - 1;
+                        const worldY = chunkWorldOrigin.y + localPosition.y - 1;
+                        const worldZ = chunkWorldOrigin.z + localPosition.z - 1;
 
-                        const a = 2 * Math.PI * Math.random();
+                        const s =
+                            placement.scale.min + (placement.scale.max - placement.scale.min) * this.random(worldX, worldY, worldZ, 4 * iC);
+
+                        const a =
+                            placement.rotation.min +
+                            (placement.rotation.max - placement.rotation.min) * this.random(worldX, worldY, worldZ, 4 * iC + 1);
                         const ca = Math.cos(a);
                         const sa = Math.sin(a);
 
-                        const tx = chunkWorldOrigin.x + localPosition.x - 1 + Math.random();
-                        const ty = chunkWorldOrigin.y + localPosition.y - 1;
-                        const tz = chunkWorldOrigin.z + localPosition.z - 1 + Math.random();
+                        const tx = worldX + this.random(worldX, worldY, worldZ, 4 * iC + 2);
+                        const ty = worldY;
+                        const tz = worldZ + this.random(worldX, worldY, worldZ, 4 * iC + 3);
 
                         array.push(s * ca, 0, sa, 0, 0, s, 0, 0, -sa, 0, s * ca, 0, tx, ty, tz, 1);
                     }
@@ -69,6 +92,16 @@ class ClutterComputer {
             return chunkClutterRaw;
         },
 
+        /** Hashes integer world coordinates into a pseudo-random number in [0, 1). */
+        random(x: number, y: number, z: number, index: number): number {
+            let h =
+                this.seed ^ Math.imul(x, 0x8da6b343) ^ Math.imul(y, 0xd8163841) ^ Math.imul(z, 0xcb1ab31f) ^ Math.imul(index, 0x165667b1);
+            h = Math.imul(h ^ (h >>> 15), 0x2c1b3c6d);
+            h = Math.imul(h ^ (h >>> 12), 0x297a2d39);
+            h ^= h >>> 15;
+            return (h >>> 0) / 4294967296;
+        },
+
         *iterateOnVoxelsChunkData(voxelsChunkData: VoxelsChunkData): Generator<VoxelsChunkDataSample> {
             if (voxelsChunkData.isEmpty) {
                 return;
@@ -126,6 +159,8 @@ class ClutterComputer {
 
     public constructor(params: Params) {
         this.serializableFactory.voxelsChunkOrdering = params.voxelsChunkOrdering;
+        this.serializableFactory.clutterPlacements = params.clutterPlacements;
+        this.serializableFactory.seed = params.seed | 0;
     }
 
     protected computeChunkClutterRaw(input: ChunkClutterRawComputationInput): Promise<ChunkClutterRaw> {
@@ -161,11 +196,14 @@ class ClutterComputer {
     protected serialize(): string {
         return `{
             voxelsChunkOrdering: "${this.serializableFactory.voxelsChunkOrdering}",
+            clutterPlacements: ${JSON.stringify(this.serializableFactory.clutterPlacements)},
+            seed: ${this.serializableFactory.seed},
             clutterVoxelEncoder: ${this.serializableFactory.clutterVoxelEncoder.serialize()},
             ${this.serializableFactory.computeChunkClutterRaw},
+            ${this.serializableFactory.random},
             ${this.serializableFactory.iterateOnVoxelsChunkData},
         }`;
     }
 }
 
-export { ClutterComputer, type ChunkClutter, type ChunkClutterRaw, type ChunkClutterRawComputationInput };
+export { ClutterComputer, type ChunkClutter, type ChunkClutterRaw, type ChunkClutterRawComputationInput, type ClutterPlacement };
@@ -1,5 +1,11 @@
-import { type PropsHandlerStatistics } from '../../../effects/props/props-handler';
+import {
+    buildBillboardGeometry,
+    type Parameters as PropsHandlerParameters,
+    type PropsHandlerStatistics,
+    type PropsInteractor,
+} from '../../../effects/props/props-handler';
 import { PropsViewer } from '../../../effects/props/props-viewer';
+import { type Wind } from '../../../effects/weather/wind';
 import { PromisesQueue } from '../../../helpers/async/promises-queue';
 import { logger } from '../../../helpers/logger';
 import { vec3ToString } from '../../../helpers/string';
@@ -8,7 +14,7 @@ import { ChunkId } from '../chunk/chunk-id';
 import { type VoxelsChunkOrdering, type IClutterDefinition, type VoxelsChunkSize } from '../i-voxelmap';
 import { type VoxelsChunkData } from '../viewer/voxelmap-viewer';
 
-import { ClutterComputer } from './clutter-computer';
+import { ClutterComputer, type ClutterPlacement } from './clutter-computer';
 import { ClutterComputerWorker } from './clutter-computer-worker';
 
 enum EComputationResult {
@@ -34,8 +40,75 @@ type Parameters = {
               readonly threadsCount: number;
           };
     readonly voxelsChunkOrdering: VoxelsChunkOrdering;
+    /** Seed of the map, used to place clutter deterministically. Defaults to 0. */
+    readonly seed?: number;
 };
 
+type ClutterProps = Pick<
+    PropsHandlerParameters,
+    'bufferGeometry' | 'material' | 'reactToWind' | 'reactToPlayer' | 'billboard' | 'spritesheetSize'
+>;
+
+function buildCrossedQuadsGeometry(width: number, height: number, cardsCount: number): THREE.BufferGeometry {
+    if (!Number.isInteger(cardsCount) || cardsCount < 1) {
+        throw new Error(`Invalid cards count "${cardsCount}".`);
+    }
+
+    const positions: number[] = [];
+    const uvs: number[] = [];
+    for (let iCard = 0; iCard < cardsCount; iCard++) {
+        const angle = (iCard * Math.PI) / cardsCount;
+        const dx = 0.5 * width * Math.cos(angle);
+        const dz = 0.5 * width * Math.sin(angle);
+        positions.push(-dx, 0, -dz, dx, 0, dz, dx, height, dz, -dx, 0, -dz, dx, height, dz, -dx, height, -dz);
+        uvs.push(0, 0, 1, 0, 1, 1, 0, 0, 1, 1, 0, 1);
+    }
+
+    const bufferGeometry = new THREE.BufferGeometry();
+    bufferGeometry.setAttribute('position', new THREE.Float32BufferAttribute(positions, 3));
+    bufferGeometry.setAttribute('uv', new THREE.Float32BufferAttribute(uvs, 2));
+    bufferGeometry.computeVertexNormals();
+    return bufferGeometry;
+}
+
+function buildClutterProps(clutterDefinition: IClutterDefinition): ClutterProps {
+    const type = clutterDefinition.type;
+    if (type === 'grass-2d' || type === 'crossed-quads') {
+        const cardsCount = type === 'crossed-quads' ? clutterDefinition.cardsCount : 2;
+        return {
+            bufferGeometry: buildCrossedQuadsGeometry(clutterDefinition.width, clutterDefinition.height, cardsCount),
+            material: new THREE.MeshPhongMaterial({
+                map: clutterDefinition.texture,
+                alphaTest: 0.95,
+                side: THREE.DoubleSide,
+            }),
+            reactToWind: true,
+            reactToPlayer: true,
+        };
+    } else if (type === 'mesh') {
+        return {
+            bufferGeometry: clutterDefinition.bufferGeometry,
+            material: clutterDefinition.material,
+            reactToWind: clutterDefinition.reactToWind ?? false,
+            reactToPlayer: clutterDefinition.reactToPlayer ?? false,
+        };
+    } else if (type === 'sprite') {
+        return {
+            bufferGeometry: buildBillboardGeometry(clutterDefinition.width, clutterDefinition.height),
+            material: new THREE.MeshPhongMaterial({
+                map: clutterDefinition.spritesheet.texture,
+                alphaTest: 0.95,
+                side: THREE.DoubleSide,
+            }),
+            reactToWind: true,
+            reactToPlayer: true,
+            billboard: true,
+            spritesheetSize: clutterDefinition.spritesheet.size,
+        };
+    }
+    throw new Error(`Unknown clutter type "${type}".`);
+}
+
 type ClutterChunk = {
     hasLatestData: boolean;
     lastComputationId: symbol;
@@ -70,76 +143,8 @@ class ClutterViewer {
         this.chunkSizeVec3 = { x: params.chunkSize.xz, y: params.chunkSize.y, z: params.chunkSize.xz };
 
         this.propsViewers = params.clutterVoxelsDefinitions.map((clutterDefinition: IClutterDefinition, id: number) => {
-            let bufferGeometry: THREE.BufferGeometry;
-            let material: THREE.MeshPhongMaterial;
-
-            if (clutterDefinition.type === 'grass-2d') {
-                const w = clutterDefinition.width;
-                const h = clutterDefinition.height;
-                bufferGeometry = new THREE.BufferGeometry();
-                bufferGeometry.setAttribute(
-                    'position',
-                    new THREE.Float32BufferAttribute(
-                        [
-                            -0.5 * w,
-                            0,
-                            0,
-                            0.5 * w,
-                            0,
-                            0,
-                            0.5 * w,
-                            h,
-                            0,
-                            -0.5 * w,
-                            0,
-                            0,
-                            0.5 * w,
-                            h,
-                            0,
-                            -0.5 * w,
-                            h,
-                            0,
-                            0,
-                            0,
-                            -0.5 * w,
-                            0,
-                            0,
-                            0.5 * w,
-                            0,
-                            h,
-                            0.5 * w,
-                            0,
-                            0,
-                            -0.5 * w,
-                            0,
-                            h,
-                            0.5 * w,
-                            0,
-                            h,
-                            -0.5 * w,
-                        ],
-                        3
-                    )
-                );
-                bufferGeometry.setAttribute(
-                    'uv',
-                    new THREE.Float32BufferAttribute([0, 0, 1, 0, 1, 1, 0, 0, 1, 1, 0, 1, 0, 0, 1, 0, 1, 1, 0, 0, 1, 1, 0, 1], 2)
-                );
-                bufferGeometry.computeVertexNormals();
-
-                material = new THREE.MeshPhongMaterial({
-                    map: clutterDefinition.texture,
-                    alphaTest: 0.95,
-                    side: THREE.DoubleSide,
-                });
-            } else {
-                throw new Error(`Unknown clutter type "${clutterDefinition.type}".`);
-            }
             const propsViewer = new PropsViewer({
-                bufferGeometry,
-                material,
-                reactToWind: true,
-                reactToPlayer: true,
+                ...buildClutterProps(clutterDefinition),
                 chunkSize: { x: params.chunkSize.xz, y: params.chunkSize.y, z: params.chunkSize.xz },
                 garbageCollect: {
                     interval: -1, // no garbage collecting
@@ -152,15 +157,27 @@ class ClutterViewer {
             return propsViewer;
         });
 
+        const clutterPlacements = params.clutterVoxelsDefinitions.map(
+            (clutterDefinition: IClutterDefinition): ClutterPlacement => ({
+                scale: clutterDefinition.scale ?? { min: 1, max: 1.5 },
+                rotation: clutterDefinition.rotation ?? { min: 0, max: 2 * Math.PI },
+            })
+        );
+        const seed = params.seed ?? 0;
+
         let threadsCount: number;
         if (params.computationOptions.method === 'main-thread') {
             this.computer = new ClutterComputer({
                 voxelsChunkOrdering: params.voxelsChunkOrdering,
+                clutterPlacements,
+                seed,
             });
             threadsCount = 1;
         } else {
             this.computer = new ClutterComputerWorker({
                 voxelsChunkOrdering: params.voxelsChunkOrdering,
+                clutterPlacements,
+                seed,
                 workersPoolSize: params.computationOptions.threadsCount,
             });
             threadsCount = params.computationOptions.threadsCount;
@@ -201,6 +218,20 @@ class ClutterViewer {
         }
     }
 
+    /** Sets the actors bending the clutter around them, in world space. Meant to be called every frame. */
+    public setInteractors(interactors: ReadonlyArray<PropsInteractor>): void {
+        for (const propsViewer of this.propsViewers) {
+            propsViewer.setInteractors(interactors);
+        }
+    }
+
+    /** Global wind bending the clutter. */
+    public setWind(wind: Wind | null): void {
+        for (const propsViewer of this.propsViewers) {
+            propsViewer.setWind(wind);
+        }
+    }
+
     public dispose(): void {
         this.container.clear();
         for (const propsViewer of this.propsViewers) {
@@ -1,53 +1,112 @@
 import { type PackedUintFactory, type PackedUintFragment } from '../../../helpers/uint-packing';
+import { type EVoxelShape } from '../i-voxelmap';
 
 import { SpecializedVoxelEncoder } from './specialized-voxel-encoder';
 
+/**
+ * Solid voxels are stored with one of two voxel types:
+ * - full cubes, with a checkerboard flag and a 12-bits material ID;
+ * - other shapes, with a 4-bits shape and a 9-bits material ID. They cannot be displayed as checkerboard.
+ */
 class SolidVoxelEncoder extends SpecializedVoxelEncoder {
     private readonly isChecker: PackedUintFragment;
     private readonly materialId: PackedUintFragment;
 
-    public constructor(packedUintFactory: PackedUintFactory, voxelTypeMask: number, voxelTypeMaskValue: number) {
+    private readonly shapedVoxelTypeMaskValue: number;
+    private readonly shapedMaterialId: PackedUintFragment;
+    private readonly shape: PackedUintFragment;
+
+    public constructor(
+        packedUintFactory: PackedUintFactory,
+        shapedPackedUintFactory: PackedUintFactory,
+        voxelTypeMask: number,
+        voxelTypeMaskValue: number,
+        shapedVoxelTypeMaskValue: number
+    ) {
         super(voxelTypeMask, voxelTypeMaskValue);
 
         this.isChecker = packedUintFactory.encodeNBits(1);
         this.materialId = packedUintFactory.encodeNBits(12);
+
+        this.shapedVoxelTypeMaskValue = shapedVoxelTypeMaskValue;
+        this.shape = shapedPackedUintFactory.encodeNBits(4);
+        this.shapedMaterialId = shapedPackedUintFactory.encodeNBits(9);
+    }
+
+    /** The shape defaults to EVoxelShape.FULL, written as a literal because this method is serialized. */
+    public encode(isCheckerboard: boolean, materialId: number, shape: EVoxelShape = 0): number {
+        if (shape === 0) {
+            return this.voxelTypeMaskValue | this.isChecker.encode(+isCheckerboard) | this.materialId.encode(materialId);
+        }
+        if (isCheckerboard) {
+            throw new Error('Voxels with a shape cannot be displayed as checkerboard.');
+        }
+        if (materialId > this.shapedMaterialId.maxValue) {
+            throw new Error(
+                `Voxels with a shape can only use the first ${this.shapedMaterialId.maxValue + 1} materials (received "${materialId}").`
+            );
+        }
+        return this.shapedVoxelTypeMaskValue | this.shapedMaterialId.encode(materialId) | this.shape.encode(shape);
+    }
+
+    public override isOfType(data: number): boolean {
+        const maskedData = data & this.voxelTypeMask;
+        return maskedData === this.voxelTypeMaskValue || maskedData === this.shapedVoxelTypeMaskValue;
     }
 
-    public encode(isCheckerboard: boolean, materialId: number): number {
-        return this.voxelTypeMaskValue | this.isChecker.encode(+isCheckerboard) | this.materialId.encode(materialId);
+    public override wgslIsOfType(varname: string): string {
+        return `(${this.wgslIsFull(varname)} || ((${varname} & ${this.voxelTypeMask}u) == ${this.shapedVoxelTypeMaskValue}u))`;
     }
 
     public isCheckerboard(data: number): boolean {
-        return this.isChecker.decode(data) === 1;
+        return (data & this.voxelTypeMask) === this.voxelTypeMaskValue && this.isChecker.decode(data) === 1;
     }
 
     public wgslIsCheckerboard(varname: string): string {
-        return `(${this.isChecker.wgslDecode(varname)} == 1u)`;
+        return `(${this.wgslIsFull(varname)} && ${this.isChecker.wgslDecode(varname)} == 1u)`;
     }
 
     public getMaterialId(data: number): number {
-        return this.materialId.decode(data);
+        if ((data & this.voxelTypeMask) === this.voxelTypeMaskValue) {
+            return this.materialId.decode(data);
+        }
+        return this.shapedMaterialId.decode(data);
     }
 
     public wgslGetMaterialId(varname: string): string {
-        return this.materialId.wgslDecode(varname);
+        return `select(${this.shapedMaterialId.wgslDecode(varname)}, ${this.materialId.wgslDecode(varname)}, ${this.wgslIsFull(varname)})`;
+    }
+
+    public getShape(data: number): EVoxelShape {
+        if ((data & this.voxelTypeMask) === this.voxelTypeMaskValue) {
+            return 0;
+        }
+        return this.shape.decode(data);
     }
 
     public serialize(): string {
         return `{
             isChecker: ${this.isChecker.serialize()},
             materialId: ${this.materialId.serialize()},
+            shapedMaterialId: ${this.shapedMaterialId.serialize()},
+            shape: ${this.shape.serialize()},
 
             voxelTypeMask: ${this.voxelTypeMask},
             voxelTypeMaskValue: ${this.voxelTypeMaskValue},
+            shapedVoxelTypeMaskValue: ${this.shapedVoxelTypeMaskValue},
 
             ${this.encode.toString()},
 
             ${this.isOfType.toString()},
             ${this.isCheckerboard.toString()},
             ${this.getMaterialId.toString()},
+            ${this.getShape.toString()},
         }`;
     }
+
+    private wgslIsFull(varname: string): string {
+        return `((${varname} & ${this.voxelTypeMask}u) == ${this.voxelTypeMaskValue}u)`;
+    }
 }
 
 export { SolidVoxelEncoder };
@@ -0,0 +1,50 @@
+import { type PackedUintFactory, type PackedUintFragment } from '../../../helpers/uint-packing';
+
+import { SpecializedVoxelEncoder } from './specialized-voxel-encoder';
+
+class TranslucentVoxelEncoder extends SpecializedVoxelEncoder {
+    private readonly materialId: PackedUintFragment;
+    private readonly fillLevel: PackedUintFragment;
+
+    /** Fill level of a voxel filled up to its top. A voxel of fill level N is filled up to (N + 1) / (maxFillLevel + 1) of its height. */
+    public readonly maxFillLevel: number;
+
+    public constructor(packedUintFactory: PackedUintFactory, voxelTypeMask: number, voxelTypeMaskValue: number) {
+        super(voxelTypeMask, voxelTypeMaskValue);
+
+        this.materialId = packedUintFactory.encodeNBits(10);
+        this.fillLevel = packedUintFactory.encodeNBits(3);
+        this.maxFillLevel = this.fillLevel.maxValue;
+    }
+
+    public encode(materialId: number, fillLevel: number = this.maxFillLevel): number {
+        return this.voxelTypeMaskValue | this.materialId.encode(materialId) | this.fillLevel.encode(fillLevel);
+    }
+
+    public getMaterialId(data: number): number {
+        return this.materialId.decode(data);
+    }
+
+    public getFillLevel(data: number): number {
+        return this.fillLevel.decode(data);
+    }
+
+    public serialize(): string {
+        return `{
+            materialId: ${this.materialId.serialize()},
+            fillLevel: ${this.fillLevel.serialize()},
+            maxFillLevel: ${this.maxFillLevel},
+
+            voxelTypeMask: ${this.voxelTypeMask},
+            voxelTypeMaskValue: ${this.voxelTypeMaskValue},
+
+            ${this.encode.toString()},
+
+            ${this.isOfType.toString()},
+            ${this.getMaterialId.toString()},
+            ${this.getFillLevel.toString()},
+        }`;
+    }
+}
+
+export { TranslucentVoxelEncoder };
@@ -3,12 +3,14 @@ import { EVoxelType } from '../i-voxelmap';
 
 import { ClutterVoxelEncoder } from './clutter-voxel-encoder';
 import { SolidVoxelEncoder } from './solid-voxel-encoder';
+import { TranslucentVoxelEncoder } from './translucent-voxel-encoder';
 
 class VoxelEncoder {
     private readonly empty = 0;
 
     public readonly solidVoxel: SolidVoxelEncoder;
     public readonly clutterVoxel: ClutterVoxelEncoder;
+    public readonly translucentVoxel: TranslucentVoxelEncoder;
 
     public constructor() {
         const packedUintFactory = new PackedUintFactory(16);
@@ -21,10 +23,19 @@ class VoxelEncoder {
         // solid voxels
         {
             const solidVoxelTypeMaskValue = emptiness.encode(1) | voxelType.encode(EVoxelType.SOLID);
+            const shapedSolidVoxelTypeMaskValue = emptiness.encode(1) | voxelType.encode(EVoxelType.SHAPED_SOLID);
             const packedUintFactory = new PackedUintFactory(16);
             packedUintFactory.encodeNBits(1); // reserved for emptiness
-            this.solidVoxel = new SolidVoxelEncoder(packedUintFactory, voxelTypeMask, solidVoxelTypeMaskValue);
-            if (packedUintFactory.getNextAvailableBit() > 14) {
+            const shapedPackedUintFactory = new PackedUintFactory(16);
+            shapedPackedUintFactory.encodeNBits(1); // reserved for emptiness
+            this.solidVoxel = new SolidVoxelEncoder(
+                packedUintFactory,
+                shapedPackedUintFactory,
+                voxelTypeMask,
+                solidVoxelTypeMaskValue,
+                shapedSolidVoxelTypeMaskValue
+            );
+            if (packedUintFactory.getNextAvailableBit() > 14 || shapedPackedUintFactory.getNextAvailableBit() > 14) {
                 throw new Error('Last two bits are reserved for voxel type');
             }
             if (this.solidVoxel.isOfType(this.empty)) {
@@ -45,6 +56,20 @@ class VoxelEncoder {
                 throw new Error();
             }
         }
+
+        // translucent voxels
+        {
+            const translucentVoxelTypeMaskValue = emptiness.encode(1) | voxelType.encode(EVoxelType.TRANSLUCENT);
+            const packedUintFactory = new PackedUintFactory(16);
+            packedUintFactory.encodeNBits(1); // reserved for emptiness
+            this.translucentVoxel = new TranslucentVoxelEncoder(packedUintFactory, voxelTypeMask, translucentVoxelTypeMaskValue);
+            if (packedUintFactory.getNextAvailableBit() > 14) {
+                throw new Error('Last two bits are reserved for voxel type');
+            }
+            if (this.translucentVoxel.isOfType(this.empty)) {
+                throw new Error();
+            }
+        }
     }
 
     public encodeEmpty(): number {
@@ -55,6 +80,7 @@ class VoxelEncoder {
         return `{
             solidVoxel: ${this.solidVoxel.serialize()},
             clutterVoxel: ${this.clutterVoxel.serialize()},
+            translucentVoxel: ${this.translucentVoxel.serialize()},
         }`;
     }
 }
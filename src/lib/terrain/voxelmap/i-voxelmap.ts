@@ -1,3 +1,4 @@
+import { type Spritesheet } from '../../effects/spritesheet';
 import type * as THREE from '../../libs/three-usage';
 
 import { VoxelEncoder } from './encoding/voxel-encoder';
@@ -15,13 +16,49 @@ interface IVoxelMaterial {
     readonly emissiveness?: number;
 }
 
-interface IClutterDefinition {
+interface IClutterDefinitionBase {
+    /** Range of the random scale applied to each instance. Defaults to [1, 1.5]. */
+    readonly scale?: { readonly min: number; readonly max: number };
+    /** Range of the random rotation (in radians, around the vertical axis) applied to each instance. Defaults to [0, 2π]. */
+    readonly rotation?: { readonly min: number; readonly max: number };
+}
+
+/** Two crossed textured quads. */
+interface IClutterGrass2dDefinition extends IClutterDefinitionBase {
     readonly type: 'grass-2d';
     readonly texture: THREE.Texture;
     readonly width: number;
     readonly height: number;
 }
 
+/** Several textured quads sharing the same vertical axis, evenly rotated around it. */
+interface IClutterCrossedQuadsDefinition extends IClutterDefinitionBase {
+    readonly type: 'crossed-quads';
+    readonly texture: THREE.Texture;
+    readonly width: number;
+    readonly height: number;
+    readonly cardsCount: number;
+}
+
+/** Any geometry. By default, it does not react to the wind nor to the player. */
+interface IClutterMeshDefinition extends IClutterDefinitionBase {
+    readonly type: 'mesh';
+    readonly bufferGeometry: THREE.BufferGeometry;
+    readonly material: THREE.MeshPhongMaterial;
+    readonly reactToWind?: boolean;
+    readonly reactToPlayer?: boolean;
+}
+
+/** A quad always facing the camera, displaying a single frame of the spritesheet picked for each instance. */
+interface IClutterSpriteDefinition extends IClutterDefinitionBase {
+    readonly type: 'sprite';
+    readonly spritesheet: Spritesheet;
+    readonly width: number;
+    readonly height: number;
+}
+
+type IClutterDefinition = IClutterGrass2dDefinition | IClutterCrossedQuadsDefinition | IClutterMeshDefinition | IClutterSpriteDefinition;
+
 type VoxelsChunkSize = {
     readonly xz: number;
     readonly y: number;
@@ -32,6 +69,24 @@ type VoxelsChunkOrdering = 'xyz' | 'xzy' | 'yxz' | 'yzx' | 'zxy' | 'zyx';
 enum EVoxelType {
     SOLID = 0b00,
     CLUTTER = 0b01,
+    TRANSLUCENT = 0b10,
+    /** Solid voxel that is not a full cube. */
+    SHAPED_SOLID = 0b11,
+}
+
+/** Shape of a solid voxel. Stairs and slopes are named after the horizontal direction towards which they rise. */
+enum EVoxelShape {
+    FULL = 0,
+    SLAB_BOTTOM = 1,
+    SLAB_TOP = 2,
+    STAIRS_POSITIVE_X = 3,
+    STAIRS_NEGATIVE_X = 4,
+    STAIRS_POSITIVE_Z = 5,
+    STAIRS_NEGATIVE_Z = 6,
+    SLOPE_POSITIVE_X = 7,
+    SLOPE_NEGATIVE_X = 8,
+    SLOPE_POSITIVE_Z = 9,
+    SLOPE_NEGATIVE_Z = 10,
 }
 
 /** Compact object storing a portion of the map data  */
@@ -49,10 +104,20 @@ type LocalMapData =
            * - bit 1: 1 if the voxel should be displayed as checkerboard, 0 otherwise
            * - bits 2-13: ID of the material
            *
+           * If the voxel is not empty and voxel type is "EVoxelType.SHAPED_SOLID", then the voxel is a SOLID voxel that is not a full cube,
+           * and bits 1-13 are interpreted as follows:
+           * - bits 1-4: shape of the voxel (see "EVoxelShape"), never FULL
+           * - bits 5-13: ID of the material
+           *
            * If the voxel is not empty and voxel type is "EVoxelType.CLUTTER", then the voxel is of type CLUTTER and bits 1-13 are interpreted as follows:
            * - bit 1-10: ID of the clutter
            * - bits 11-13: items count for this voxel
            *
+           * If the voxel is not empty and voxel type is "EVoxelType.TRANSLUCENT", then the voxel is of type TRANSLUCENT (glass, ice, water...)
+           * and bits 1-13 are interpreted as follows:
+           * - bits 1-10: ID of the material, among the solid materials
+           * - bits 11-13: fill level: the voxel is filled up to (fillLevel + 1) / 8 of its height
+           *
            * Use the helper "voxelEncoder" to do this encoding and be future-proof.
            */
           readonly data: Uint16Array;
@@ -77,6 +142,7 @@ interface IVoxelMap {
         /**
          * Array of all the possible voxel materials contained in the map.
          * Each material is then identified by its index in the array.
+         * Translucent voxels use these materials too.
          */
         readonly solidMaterials: ReadonlyArray<IVoxelMaterial>;
 
@@ -98,9 +164,14 @@ interface IVoxelMap {
 const voxelEncoder = new VoxelEncoder();
 
 export {
+    EVoxelShape,
     EVoxelType,
     voxelEncoder,
+    type IClutterCrossedQuadsDefinition,
     type IClutterDefinition,
+    type IClutterGrass2dDefinition,
+    type IClutterMeshDefinition,
+    type IClutterSpriteDefinition,
     type IVoxelMap,
     type IVoxelMaterial,
     type LocalMapData,
@@ -0,0 +1,86 @@
+import type * as THREE from '../../../libs/three-usage';
+import { ChunkId } from '../chunk/chunk-id';
+import { voxelEncoder, type VoxelsChunkOrdering } from '../i-voxelmap';
+import { type VoxelsChunkData } from '../voxelsRenderable/voxelsRenderableFactory/voxels-renderable-factory-base';
+
+type ChunkSkyOcclusion = {
+    /** Mask received from the chunk above when the chunk was registered, null if the chunk above was unknown. */
+    readonly fromAbove: Uint8Array | null;
+    /** Mask given to the chunk below. */
+    readonly toBelow: Uint8Array;
+};
+
+function buildIndexFactors(size: THREE.Vector3Like, ordering: VoxelsChunkOrdering): THREE.Vector3Like {
+    const [slowest, middle, fastest] = ordering.split('') as ['x' | 'y' | 'z', 'x' | 'y' | 'z', 'x' | 'y' | 'z'];
+    const indexFactors = { x: 0, y: 0, z: 0 };
+    indexFactors[fastest] = 1;
+    indexFactors[middle] = size[fastest];
+    indexFactors[slowest] = size[fastest] * size[middle];
+    return indexFactors;
+}
+
+/** A null mask is the same as a mask without any occluded column. */
+function areMasksEqual(mask1: Uint8Array | null, mask2: Uint8Array): boolean {
+    if (!mask1) {
+        return mask2.every(value => value === 0);
+    }
+    return mask1.length === mask2.length && mask1.every((value, index) => value === mask2[index]);
+}
+
+/**
+ * Carries the columns the sky is hidden from down the chunks, so that the skylight of a chunk takes the chunks above it into account:
+ * each chunk gives to the chunk below a top-down mask of its columns (see "skyOcclusion" in "VoxelsChunkData").
+ * The chunks above are not always known when a chunk is computed: when they become known and change the mask of a chunk, it is obsolete.
+ */
+class ChunksSkyOcclusion {
+    private readonly chunks = new Map<string, ChunkSkyOcclusion>();
+
+    /**
+     * @returns The sky occlusion to compute the chunk with (null if the sky is visible from the top of all its columns),
+     * and the id of the chunk below if it was computed with a mask that changed.
+     */
+    public registerChunk(
+        chunkId: ChunkId,
+        voxelsChunkData: VoxelsChunkData
+    ): { readonly skyOcclusion: Uint8Array | null; readonly obsoleteChunkId: ChunkId | null } {
+        const size = voxelsChunkData.size;
+        const columnsCount = size.x * size.z;
+
+        const fromAbove = this.chunks.get(new ChunkId({ x: chunkId.x, y: chunkId.y + 1, z: chunkId.z }).asString)?.toBelow ?? null;
+        let skyOcclusion = fromAbove;
+        if (!voxelsChunkData.isEmpty && voxelsChunkData.skyOcclusion) {
+            const providedSkyOcclusion = voxelsChunkData.skyOcclusion;
+            skyOcclusion = fromAbove ? fromAbove.map((value, index) => value | providedSkyOcclusion[index]!) : providedSkyOcclusion;
+        }
+
+        const toBelow = skyOcclusion ? new Uint8Array(skyOcclusion) : new Uint8Array(columnsCount);
+        if (!voxelsChunkData.isEmpty) {
+            // the data of the chunk below stops 2 voxels above the bottom of this chunk data
+            const indexFactors = buildIndexFactors(size, voxelsChunkData.dataOrdering);
+            for (let z = 0; z < size.z; z++) {
+                for (let x = 0; x < size.x; x++) {
+                    const columnIndex = x + size.x * z;
+                    for (let y = 2; y < size.y && !toBelow[columnIndex]; y++) {
+                        const index = x * indexFactors.x + y * indexFactors.y + z * indexFactors.z;
+                        if (voxelEncoder.solidVoxel.isOfType(voxelsChunkData.data[index]!)) {
+                            toBelow[columnIndex] = 1;
+                        }
+                    }
+                }
+            }
+        }
+        this.chunks.set(chunkId.asString, { fromAbove, toBelow });
+
+        const chunkBelowId = new ChunkId({ x: chunkId.x, y: chunkId.y - 1, z: chunkId.z });
+        const chunkBelow = this.chunks.get(chunkBelowId.asString);
+        const obsoleteChunkId = chunkBelow && !areMasksEqual(chunkBelow.fromAbove, toBelow) ? chunkBelowId : null;
+
+        return { skyOcclusion, obsoleteChunkId };
+    }
+
+    public deleteChunk(chunkId: ChunkId): void {
+        this.chunks.delete(chunkId.asString);
+    }
+}
+
+export { ChunksSkyOcclusion };
@@ -48,6 +48,10 @@ abstract class VoxelmapViewerBase implements IVoxelmapViewer {
             strength: 0.4,
             spread: 0.85,
         },
+        skylight: {
+            enabled: true,
+            strength: 0.8,
+        },
         shadows: {
             cast: true,
             receive: true,
@@ -60,6 +64,11 @@ abstract class VoxelmapViewerBase implements IVoxelmapViewer {
         specular: {
             strength: 1,
         },
+        light: {
+            enabled: true,
+            strength: 1,
+            color: new THREE.Vector3(1, 0.75, 0.5),
+        },
     };
 
     public readonly chunkSize: VoxelsChunkSize;
@@ -107,6 +116,9 @@ abstract class VoxelmapViewerBase implements IVoxelmapViewer {
             voxelsRenderable.parameters.ao.strength = voxelsSettings.ao.strength;
             voxelsRenderable.parameters.ao.spread = voxelsSettings.ao.spread;
 
+            voxelsRenderable.parameters.skylight.enabled = voxelsSettings.skylight.enabled;
+            voxelsRenderable.parameters.skylight.strength = voxelsSettings.skylight.strength;
+
             voxelsRenderable.parameters.shadows = voxelsSettings.shadows;
 
             voxelsRenderable.parameters.grid.enabled = voxelsSettings.grid.enabled;
@@ -115,6 +127,10 @@ abstract class VoxelmapViewerBase implements IVoxelmapViewer {
 
             voxelsRenderable.parameters.specular.strength = Math.max(0.0001, voxelsSettings.specular.strength);
 
+            voxelsRenderable.parameters.light.enabled = voxelsSettings.light.enabled;
+            voxelsRenderable.parameters.light.strength = voxelsSettings.light.strength;
+            voxelsRenderable.parameters.light.color = voxelsSettings.light.color;
+
             voxelsRenderable.updateUniforms();
         }
     }
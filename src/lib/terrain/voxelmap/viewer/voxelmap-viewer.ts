@@ -13,6 +13,7 @@ import { type VoxelsChunkOrdering, type VoxelsChunkSize } from '../i-voxelmap';
 import { type CheckerboardType, type VoxelsChunkData } from '../voxelsRenderable/voxelsRenderableFactory/voxels-renderable-factory-base';
 
 import { AsyncChunkRenderable, EComputationResult, type AdaptativeQualityParameters } from './async-chunk-renderable';
+import { ChunksSkyOcclusion } from './chunks-sky-occlusion';
 import { VoxelmapViewerBase, type ChunkRenderable, type ComputedChunk } from './voxelmap-viewer-base';
 
 enum EComputationMethod {
@@ -58,6 +59,10 @@ class VoxelmapViewer extends VoxelmapViewerBase {
 
     private readonly asyncChunks = new Map<string, AsyncChunkRenderable>();
 
+    private readonly chunksSkyOcclusion = new ChunksSkyOcclusion();
+    /** Chunks computed while the skylight was disabled, to compute again when it is enabled. */
+    private readonly chunksWithoutSkylight = new Set<string>();
+
     private readonly transitionTime: number;
 
     private readonly clutterViewer: ClutterViewer;
@@ -114,6 +119,13 @@ class VoxelmapViewer extends VoxelmapViewerBase {
     }
 
     public override update(): void {
+        if (this.parameters.skylight.enabled) {
+            for (const chunkId of this.chunksWithoutSkylight) {
+                this.asyncChunks.get(chunkId)?.flagAsObsolete();
+            }
+            this.chunksWithoutSkylight.clear();
+        }
+
         for (const asyncChunk of this.asyncChunks.values()) {
             asyncChunk.update();
         }
@@ -149,13 +161,18 @@ class VoxelmapViewer extends VoxelmapViewerBase {
             return EComputationResult.SKIPPED;
         }
 
+        const skylightParameters = this.prepareSkylight(chunkId, voxelsChunkData);
+
         const computationTask = async () => {
             if (voxelsChunkData.isEmpty) {
                 return null;
             }
             const chunkStart = new THREE.Vector3().multiplyVectors(chunkId, this.chunkSizeVec3);
             const chunkEnd = new THREE.Vector3().addVectors(chunkStart, this.chunkSizeVec3);
-            return await this.chunkRenderableFactory.buildChunkRenderable(chunkId, chunkStart, chunkEnd, voxelsChunkData);
+            return await this.chunkRenderableFactory.buildChunkRenderable(chunkId, chunkStart, chunkEnd, {
+                ...voxelsChunkData,
+                ...skylightParameters,
+            });
         };
 
         return await asyncChunk.scheduleNewComputation(computationTask, this.promiseThrottler);
@@ -187,6 +204,8 @@ class VoxelmapViewer extends VoxelmapViewerBase {
             asyncChunk.cancelScheduledComputation();
             asyncChunk.deleteComputationResults();
         }
+        this.chunksSkyOcclusion.deleteChunk(chunkId);
+        this.chunksWithoutSkylight.delete(chunkId.asString);
         this.clutterViewer.deleteChunk(id);
     }
 
@@ -291,6 +310,29 @@ class VoxelmapViewer extends VoxelmapViewerBase {
             nextChunkToDelete = invisibleChunksList.pop();
         }
     }
+
+    private prepareSkylight(
+        chunkId: ChunkId,
+        voxelsChunkData: VoxelsChunkData
+    ): { readonly skyOcclusion?: Uint8Array; readonly skylight?: boolean } {
+        if (this.computationOptions.method === EComputationMethod.GPU) {
+            // there is no skylight pass on the GPU
+            return {};
+        }
+
+        if (!this.parameters.skylight.enabled) {
+            this.chunksWithoutSkylight.add(chunkId.asString);
+            return { skylight: false };
+        }
+
+        this.chunksWithoutSkylight.delete(chunkId.asString);
+        const { skyOcclusion, obsoleteChunkId } = this.chunksSkyOcclusion.registerChunk(chunkId, voxelsChunkData);
+        if (obsoleteChunkId) {
+            // only its meshes depend on the chunks above, not its clutter
+            this.asyncChunks.get(obsoleteChunkId.asString)?.flagAsObsolete();
+        }
+        return skyOcclusion ? { skyOcclusion, skylight: true } : { skylight: true };
+    }
 }
 
 export { EComputationMethod, EComputationResult, VoxelmapViewer, type ComputationOptions, type VoxelsChunkData };
@@ -19,6 +19,9 @@ type VoxelsMaterialUniforms = {
     readonly uGridThickness: THREE.IUniform<number>;
     readonly uGridColor: THREE.IUniform<THREE.Vector3>;
     readonly uShininessStrength: THREE.IUniform<number>;
+    readonly uLightStrength: THREE.IUniform<number>;
+    readonly uLightColor: THREE.IUniform<THREE.Vector3>;
+    readonly uSkylightStrength: THREE.IUniform<number>;
 };
 
 type VoxelsMaterial = THREE.Material & {
@@ -37,11 +37,23 @@ class VoxelsRenderable {
             strength: 0.4,
             spread: 0.85,
         },
+        skylight: {
+            enabled: true,
+            strength: 0.8,
+        },
         grid: {
             enabled: false,
             thickness: 0.02,
             color: new THREE.Vector3(-0.05, -0.05, -0.05),
         },
+        light: {
+            enabled: true,
+            strength: 1,
+            color: new THREE.Vector3(1, 0.75, 0.5),
+        },
+        translucency: {
+            opacity: 0.6,
+        },
     };
 
     private gpuResources: {
@@ -106,6 +118,7 @@ class VoxelsRenderable {
 
                 uniforms.uAoStrength.value = +this.parameters.ao.enabled * this.parameters.ao.strength;
                 uniforms.uAoSpread.value = this.parameters.ao.spread;
+                uniforms.uSkylightStrength.value = +this.parameters.skylight.enabled * this.parameters.skylight.strength;
                 uniforms.uSmoothEdgeRadius.value = +this.parameters.smoothEdges.enabled * this.parameters.smoothEdges.radius;
                 uniforms.uDisplayMode.value = this.parameters.voxels.displayMode;
 
@@ -119,10 +132,17 @@ class VoxelsRenderable {
 
                 uniforms.uShininessStrength.value = this.parameters.specular.strength;
 
+                uniforms.uLightStrength.value = +this.parameters.light.enabled * this.parameters.light.strength;
+                uniforms.uLightColor.value = this.parameters.light.color;
+
+                if (material.transparent) {
+                    material.opacity = this.parameters.translucency.opacity;
+                }
+
                 material.needsUpdate = true;
 
                 part.mesh.receiveShadow = this.parameters.shadows.receive;
-                part.mesh.castShadow = this.parameters.shadows.cast;
+                part.mesh.castShadow = this.parameters.shadows.cast && !material.transparent;
             }
         }
     }
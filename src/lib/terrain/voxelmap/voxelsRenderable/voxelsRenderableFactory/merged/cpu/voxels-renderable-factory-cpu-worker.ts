@@ -3,6 +3,7 @@ import { DedicatedWorkersPool } from '../../../../../../helpers/async/dedicatedW
 import { type MaterialsStore } from '../../../../../materials-store';
 import { type VoxelsChunkOrdering, type VoxelsChunkSize } from '../../../../i-voxelmap';
 import { type CheckerboardType, type VoxelsChunkDataNotEmpty } from '../../voxels-renderable-factory-base';
+import { type VoxelsBuffers } from '../voxels-renderable-factory';
 
 import { VoxelsRenderableFactoryCpu } from './voxels-renderable-factory-cpu';
 
@@ -29,18 +30,18 @@ class VoxelsRenderableFactoryCpuWorker extends VoxelsRenderableFactoryCpu {
         this.workersPoolSize = params.workersPoolSize;
     }
 
-    protected override buildBuffer(voxelsChunkData: VoxelsChunkDataNotEmpty): Promise<Uint32Array> {
+    protected override buildBuffers(voxelsChunkData: VoxelsChunkDataNotEmpty): Promise<VoxelsBuffers> {
         if (!this.workersPool) {
             const workerDefinition: WorkerDefinition = {
                 commonCode: `const factory = ${this.serialize()};`,
                 tasks: {
-                    buildBuffer: (taskInput: VoxelsChunkDataNotEmpty) => {
+                    buildBuffers: (taskInput: VoxelsChunkDataNotEmpty) => {
                         // eslint-disable-next-line no-eval
                         const factory2 = eval('factory') as VoxelsRenderableFactoryCpu['serializableFactory'];
-                        const buffer = factory2.buildBuffer(taskInput);
+                        const buffers = factory2.buildBuffers(taskInput);
                         return {
-                            taskResult: buffer,
-                            taskResultTransferablesList: [buffer.buffer],
+                            taskResult: buffers,
+                            taskResultTransferablesList: [buffers.opaque.buffer, buffers.translucent.buffer, buffers.shapes.buffer],
                         };
                     },
                 },
@@ -49,7 +50,7 @@ class VoxelsRenderableFactoryCpuWorker extends VoxelsRenderableFactoryCpu {
             this.workersPool = new DedicatedWorkersPool(this.workersPoolName, this.workersPoolSize, workerDefinition);
         }
 
-        return this.workersPool.submitTask('buildBuffer', voxelsChunkData);
+        return this.workersPool.submitTask('buildBuffers', voxelsChunkData);
     }
 
     public override dispose(): void {
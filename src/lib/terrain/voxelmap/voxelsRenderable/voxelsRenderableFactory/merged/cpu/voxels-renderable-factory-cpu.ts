@@ -1,7 +1,8 @@
 import type * as THREE from '../../../../../../libs/three-usage';
 import { type MaterialsStore } from '../../../../../materials-store';
-import { voxelEncoder, type VoxelsChunkOrdering, type VoxelsChunkSize } from '../../../../i-voxelmap';
+import { EVoxelShape, voxelEncoder, type VoxelsChunkOrdering, type VoxelsChunkSize } from '../../../../i-voxelmap';
 import * as Cube from '../../cube';
+import * as Shapes from '../../shapes';
 import {
     type CheckerboardType,
     type GeometryAndMaterial,
@@ -10,20 +11,36 @@ import {
     type VoxelsChunkDataNotEmpty,
 } from '../../voxels-renderable-factory-base';
 import { type CheckerboardCellId } from '../vertex-data2-encoder';
-import { VoxelsRenderableFactory } from '../voxels-renderable-factory';
+import { VoxelsRenderableFactory, type VoxelsBuffers } from '../voxels-renderable-factory';
 
 type FaceData = {
     readonly voxelLocalPosition: THREE.Vector3Like;
     readonly voxelMaterialId: number;
     readonly voxelIsCheckerboard: boolean;
+    /** Lowering of the top vertices, for partially filled translucent voxels. */
+    readonly voxelFillShrink: number;
     readonly faceType: Cube.FaceType;
     readonly faceId: number;
     readonly verticesData: [VertexData, VertexData, VertexData, VertexData];
 };
 
+type ShapeFaceData = {
+    readonly voxelLocalPosition: THREE.Vector3Like;
+    readonly voxelMaterialId: number;
+    readonly voxelIsCheckerboard: boolean;
+    readonly shapeFace: Shapes.ShapeFace;
+    readonly light: number;
+    readonly skylight: number;
+};
+
 type VoxelsChunkCache = VoxelsChunkData & {
     buildIndexUnsafe(position: THREE.Vector3Like): number;
+    getNeighbourData(voxelIndex: number, neighbourRelativePosition: THREE.Vector3Like): number;
     neighbourIsSolid(voxelIndex: number, neighbourRelativePosition: THREE.Vector3Like): boolean;
+    /** Whether the neighbour in the direction of the given face is a solid voxel covering that whole face. */
+    neighbourCoversFace(voxelIndex: number, faceType: Cube.FaceType): boolean;
+    getNeighbourLight(voxelIndex: number, neighbourRelativePosition: THREE.Vector3Like): number;
+    getNeighbourSkylight(voxelIndex: number, neighbourRelativePosition: THREE.Vector3Like): number;
 };
 
 type Parameters = {
@@ -41,7 +58,14 @@ class VoxelsRenderableFactoryCpu extends VoxelsRenderableFactory {
             faceIndices: Cube.faceIndices,
         },
 
+        shapes: {
+            geometries: Shapes.shapesGeometries,
+            oppositeFaces: Shapes.oppositeFaces,
+            fullShape: EVoxelShape.FULL,
+        },
+
         vertexData1Encoder: this.vertexData1Encoder,
+        shapeVertexData1Encoder: this.shapeVertexData1Encoder,
         vertexData2Encoder: VoxelsRenderableFactory.vertexData2Encoder,
 
         voxelEncoder,
@@ -55,9 +79,12 @@ class VoxelsRenderableFactoryCpu extends VoxelsRenderableFactory {
         greedyMeshing: true,
         voxelsChunkOrdering: 'zyx' as VoxelsChunkOrdering,
 
-        buildBuffer(voxelsChunkData: VoxelsChunkDataNotEmpty): Uint32Array {
+        /** Light level emitted by each material, indexed by material ID. Empty if no material is emissive. */
+        materialsLightLevels: [] as number[],
+
+        buildBuffers(voxelsChunkData: VoxelsChunkDataNotEmpty): VoxelsBuffers {
             if (voxelsChunkData.isEmpty) {
-                return new Uint32Array();
+                return { opaque: new Uint32Array(), translucent: new Uint32Array(), shapes: new Uint32Array() };
             }
 
             const innerChunkSize = {
@@ -72,12 +99,38 @@ class VoxelsRenderableFactoryCpu extends VoxelsRenderableFactory {
             const uint32PerVertex = 2;
             const bufferLength = maxFacesPerVoxel * maxVoxelsCount * verticesPerFace * uint32PerVertex;
 
+            // the same scratch buffer is used for both passes since each of them returns a copy
+            const scratchBuffer = new Uint32Array(bufferLength);
+
+            const voxelsChunkCache = this.buildLocalMapCache(voxelsChunkData);
+            return {
+                opaque: this.buildFacesBuffer(this.iterateOnVisibleFacesWithCache(voxelsChunkCache), scratchBuffer),
+                translucent: this.buildFacesBuffer(this.iterateOnVisibleTranslucentFacesWithCache(voxelsChunkCache), scratchBuffer),
+                shapes: this.buildShapesBuffer(this.iterateOnVisibleShapesFacesWithCache(voxelsChunkCache)),
+            };
+        },
+
+        computeCheckerboardCellId(voxelIsCheckerboard: boolean, voxelLocalPosition: THREE.Vector3Like): CheckerboardCellId {
+            if (!voxelIsCheckerboard) {
+                return 0;
+            }
+            const color =
+                this.checkerboardPattern.x * voxelLocalPosition.x +
+                this.checkerboardPattern.y * voxelLocalPosition.y +
+                this.checkerboardPattern.z * voxelLocalPosition.z;
+
+            return (1 + (color % 2)) as CheckerboardCellId;
+        },
+
+        buildFacesBuffer(facesData: Iterable<FaceData>, scratchBuffer: Uint32Array): Uint32Array {
+            const uint32PerVertex = 2;
             const bufferData = {
-                buffer: new Uint32Array(bufferLength),
+                buffer: scratchBuffer,
                 verticesCount: 0,
             };
 
             const verticesData1 = new Uint32Array(4);
+            const verticesData2 = new Uint32Array(4);
             const registerFace = (faceData: FaceData, checkerboardCellId: CheckerboardCellId, repeatX: number) => {
                 faceData.verticesData.forEach((faceVertexData: VertexData, faceVertexIndex: number) => {
                     verticesData1[faceVertexIndex] = this.vertexData1Encoder.encode(
@@ -90,39 +143,28 @@ class VoxelsRenderableFactoryCpu extends VoxelsRenderableFactory {
                         faceVertexData.ao,
                         [faceVertexData.roundnessX, faceVertexData.roundnessY]
                     );
-                });
 
-                const vertexData2 = this.vertexData2Encoder.encode(
-                    faceData.voxelMaterialId,
-                    checkerboardCellId,
-                    this.cube.faces[faceData.faceType].normal.id,
-                    this.cube.faces[faceData.faceType].uvRight.id
-                );
+                    verticesData2[faceVertexIndex] = this.vertexData2Encoder.encode(
+                        faceData.voxelMaterialId,
+                        checkerboardCellId,
+                        this.cube.faces[faceData.faceType].normal.id,
+                        this.cube.faces[faceData.faceType].uvRight.id,
+                        faceVertexData.localPosition.y > 0 ? faceData.voxelFillShrink : 0,
+                        faceVertexData.light,
+                        faceVertexData.skylight
+                    );
+                });
 
                 for (const faceVertexIndex of this.cube.faceIndices) {
                     const vertexIndexInBuffer = uint32PerVertex * bufferData.verticesCount++;
                     bufferData.buffer[vertexIndexInBuffer] = verticesData1[faceVertexIndex]!;
-                    bufferData.buffer[vertexIndexInBuffer + 1] = vertexData2;
-                }
-            };
-
-            const computeCheckerboardCellId = (voxelIsCheckerboard: boolean, voxelLocalPosition: THREE.Vector3Like): CheckerboardCellId => {
-                if (!voxelIsCheckerboard) {
-                    return 0;
+                    bufferData.buffer[vertexIndexInBuffer + 1] = verticesData2[faceVertexIndex]!;
                 }
-                const color =
-                    this.checkerboardPattern.x * voxelLocalPosition.x +
-                    this.checkerboardPattern.y * voxelLocalPosition.y +
-                    this.checkerboardPattern.z * voxelLocalPosition.z;
-
-                return (1 + (color % 2)) as CheckerboardCellId;
             };
 
-            const voxelsChunkCache = this.buildLocalMapCache(voxelsChunkData);
-
             if (!this.greedyMeshing) {
-                for (const faceData of this.iterateOnVisibleFacesWithCache(voxelsChunkCache)) {
-                    const checkerboardCellId = computeCheckerboardCellId(faceData.voxelIsCheckerboard, faceData.voxelLocalPosition);
+                for (const faceData of facesData) {
+                    const checkerboardCellId = this.computeCheckerboardCellId(faceData.voxelIsCheckerboard, faceData.voxelLocalPosition);
                     registerFace(faceData, checkerboardCellId, 0);
                 }
             } else {
@@ -139,11 +181,12 @@ class VoxelsRenderableFactoryCpu extends VoxelsRenderableFactory {
                     front: null,
                     back: null,
                 };
-                for (const faceData of this.iterateOnVisibleFacesWithCache(voxelsChunkCache)) {
+                for (const faceData of facesData) {
                     const referenceFaceData = referenceFacesData[faceData.faceType];
                     if (referenceFaceData) {
                         let mergeWithPreviousFace =
                             referenceFaceData.faceData.voxelMaterialId === faceData.voxelMaterialId &&
+                            referenceFaceData.faceData.voxelFillShrink === faceData.voxelFillShrink &&
                             !referenceFaceData.faceData.voxelIsCheckerboard &&
                             !faceData.voxelIsCheckerboard &&
                             referenceFaceData.faceData.voxelLocalPosition.x + referenceFaceData.repeatX + 1 ===
@@ -154,6 +197,10 @@ class VoxelsRenderableFactoryCpu extends VoxelsRenderableFactory {
 
                         for (let iV = 0; iV < 4 && mergeWithPreviousFace; iV++) {
                             mergeWithPreviousFace &&= referenceFaceData.faceData.verticesData[iV]!.ao === faceData.verticesData[iV]!.ao;
+                            mergeWithPreviousFace &&=
+                                referenceFaceData.faceData.verticesData[iV]!.light === faceData.verticesData[iV]!.light;
+                            mergeWithPreviousFace &&=
+                                referenceFaceData.faceData.verticesData[iV]!.skylight === faceData.verticesData[iV]!.skylight;
                             mergeWithPreviousFace &&=
                                 referenceFaceData.faceData.verticesData[iV]!.roundnessX === faceData.verticesData[iV]!.roundnessX;
                             mergeWithPreviousFace &&=
@@ -166,14 +213,17 @@ class VoxelsRenderableFactoryCpu extends VoxelsRenderableFactory {
                             registerFace(referenceFaceData.faceData, referenceFaceData.checkerboardCellId, referenceFaceData.repeatX);
                             referenceFacesData[faceData.faceType] = {
                                 faceData,
-                                checkerboardCellId: computeCheckerboardCellId(faceData.voxelIsCheckerboard, faceData.voxelLocalPosition),
+                                checkerboardCellId: this.computeCheckerboardCellId(
+                                    faceData.voxelIsCheckerboard,
+                                    faceData.voxelLocalPosition
+                                ),
                                 repeatX: 0,
                             };
                         }
                     } else {
                         referenceFacesData[faceData.faceType] = {
                             faceData,
-                            checkerboardCellId: computeCheckerboardCellId(faceData.voxelIsCheckerboard, faceData.voxelLocalPosition),
+                            checkerboardCellId: this.computeCheckerboardCellId(faceData.voxelIsCheckerboard, faceData.voxelLocalPosition),
                             repeatX: 0,
                         };
                     }
@@ -189,6 +239,42 @@ class VoxelsRenderableFactoryCpu extends VoxelsRenderableFactory {
             return new Uint32Array(bufferData.buffer.subarray(0, uint32PerVertex * bufferData.verticesCount));
         },
 
+        /** The faces of the non-cubic voxels are not merged: they are much less common than the full cubes. */
+        buildShapesBuffer(facesData: Iterable<ShapeFaceData>): Uint32Array {
+            const buffer: number[] = [];
+
+            const verticesData1 = new Uint32Array(4);
+            for (const faceData of facesData) {
+                const cubeFace = this.cube.faces[faceData.shapeFace.cubeFaceType];
+                const vertexData2 = this.vertexData2Encoder.encode(
+                    faceData.voxelMaterialId,
+                    this.computeCheckerboardCellId(faceData.voxelIsCheckerboard, faceData.voxelLocalPosition),
+                    cubeFace.normal.id,
+                    cubeFace.uvRight.id,
+                    0,
+                    faceData.light,
+                    faceData.skylight
+                );
+
+                faceData.shapeFace.vertices.forEach((vertex: THREE.Vector3Like, faceVertexIndex: number) => {
+                    verticesData1[faceVertexIndex] = this.shapeVertexData1Encoder.encode(
+                        {
+                            x: 2 * faceData.voxelLocalPosition.x + vertex.x,
+                            y: 2 * faceData.voxelLocalPosition.y + vertex.y,
+                            z: 2 * faceData.voxelLocalPosition.z + vertex.z,
+                        },
+                        faceData.shapeFace.normalId
+                    );
+                });
+
+                for (const faceVertexIndex of this.cube.faceIndices) {
+                    buffer.push(verticesData1[faceVertexIndex]!, vertexData2);
+                }
+            }
+
+            return new Uint32Array(buffer);
+        },
+
         buildLocalMapCache(voxelsChunkData: VoxelsChunkDataNotEmpty): VoxelsChunkCache {
             type Component = 'x' | 'y' | 'z';
             const buildIndexFactorComponent = (component: Component): number => {
@@ -223,22 +309,200 @@ class VoxelsRenderableFactoryCpu extends VoxelsRenderableFactory {
                 return position.x * indexFactor.x + position.y * indexFactor.y + position.z * indexFactor.z;
             };
 
-            const neighbourIsSolid = (index: number, neighbour: THREE.Vector3Like) => {
+            const getNeighbourData = (index: number, neighbour: THREE.Vector3Like) => {
                 const deltaIndex = buildIndexUnsafe(neighbour);
                 const neighbourIndex = index + deltaIndex;
                 const neighbourData = voxelsChunkData.data[neighbourIndex];
                 if (typeof neighbourData === 'undefined') {
                     throw new Error();
                 }
-                return this.voxelEncoder.solidVoxel.isOfType(neighbourData);
+                return neighbourData;
+            };
+
+            const neighbourIsSolid = (index: number, neighbour: THREE.Vector3Like) => {
+                return this.voxelEncoder.solidVoxel.isOfType(getNeighbourData(index, neighbour));
+            };
+
+            const neighbourCoversFace = (index: number, faceType: Cube.FaceType) => {
+                const neighbourData = getNeighbourData(index, this.cube.faces[faceType].normal.vec);
+                if (!this.voxelEncoder.solidVoxel.isOfType(neighbourData)) {
+                    return false;
+                }
+                const neighbourShape = this.voxelEncoder.solidVoxel.getShape(neighbourData);
+                return this.shapes.geometries[neighbourShape].fullFaces.includes(this.shapes.oppositeFaces[faceType]);
+            };
+
+            const lightMap = this.buildLightMap(voxelsChunkData, buildIndexUnsafe);
+            const getNeighbourLight = (index: number, neighbour: THREE.Vector3Like) => {
+                if (!lightMap) {
+                    return 0;
+                }
+                return lightMap[index + buildIndexUnsafe(neighbour)] ?? 0;
+            };
+
+            const skylightMap = voxelsChunkData.skylight === false ? null : this.buildSkylightMap(voxelsChunkData, buildIndexUnsafe);
+            const getNeighbourSkylight = (index: number, neighbour: THREE.Vector3Like) => {
+                if (!skylightMap) {
+                    return this.vertexData2Encoder.skylight.maxValue;
+                }
+                return skylightMap[index + buildIndexUnsafe(neighbour)] ?? 0;
             };
 
             return Object.assign(voxelsChunkData, {
                 buildIndexUnsafe,
+                getNeighbourData,
                 neighbourIsSolid,
+                neighbourCoversFace,
+                getNeighbourLight,
+                getNeighbourSkylight,
             });
         },
 
+        /**
+         * Flood-fills the light emitted by the emissive voxels through the non-solid voxels, losing one level per voxel.
+         * The margins of the chunk data are included, so that light coming from the neighbouring chunks is taken into account.
+         * @returns The light level of each voxel of the chunk data, or null if there is no emissive voxel.
+         */
+        buildLightMap(
+            voxelsChunkData: VoxelsChunkDataNotEmpty,
+            buildIndexUnsafe: (position: THREE.Vector3Like) => number
+        ): Uint8Array | null {
+            if (this.materialsLightLevels.length === 0) {
+                return null;
+            }
+
+            const { solidVoxel, translucentVoxel } = this.voxelEncoder;
+            const size = voxelsChunkData.size;
+            const lightMap = new Uint8Array(voxelsChunkData.data.length);
+
+            // flattened list of [x, y, z] positions
+            const queue: number[] = [];
+            const position = { x: 0, y: 0, z: 0 };
+            for (position.z = 0; position.z < size.z; position.z++) {
+                for (position.y = 0; position.y < size.y; position.y++) {
+                    for (position.x = 0; position.x < size.x; position.x++) {
+                        const index = buildIndexUnsafe(position);
+                        const data = voxelsChunkData.data[index]!;
+                        let materialId: number | null = null;
+                        if (solidVoxel.isOfType(data)) {
+                            materialId = solidVoxel.getMaterialId(data);
+                        } else if (translucentVoxel.isOfType(data)) {
+                            materialId = translucentVoxel.getMaterialId(data);
+                        }
+                        const lightLevel = materialId !== null ? (this.materialsLightLevels[materialId] ?? 0) : 0;
+                        if (lightLevel > 0) {
+                            lightMap[index] = lightLevel;
+                            queue.push(position.x, position.y, position.z);
+                        }
+                    }
+                }
+            }
+
+            this.propagateLight(voxelsChunkData, buildIndexUnsafe, lightMap, queue);
+            return lightMap;
+        },
+
+        /**
+         * Computes how much sky each voxel sees: the sky goes straight down each column until it meets a solid voxel,
+         * and then spreads horizontally (and downwards), losing one level per voxel.
+         * The sky enters from the top of the chunk data, except for the columns occluded according to "skyOcclusion".
+         * @returns The skylight level of each voxel of the chunk data.
+         */
+        buildSkylightMap(voxelsChunkData: VoxelsChunkDataNotEmpty, buildIndexUnsafe: (position: THREE.Vector3Like) => number): Uint8Array {
+            const solidVoxel = this.voxelEncoder.solidVoxel;
+            const maxSkylight = this.vertexData2Encoder.skylight.maxValue;
+            const size = voxelsChunkData.size;
+            const skylightMap = new Uint8Array(voxelsChunkData.data.length);
+
+            // flattened list of [x, y, z] positions
+            const queue: number[] = [];
+            const position = { x: 0, y: 0, z: 0 };
+            for (position.z = 0; position.z < size.z; position.z++) {
+                for (position.x = 0; position.x < size.x; position.x++) {
+                    if (voxelsChunkData.skyOcclusion && voxelsChunkData.skyOcclusion[position.x + size.x * position.z]) {
+                        // the column only receives the skylight spreading from its neighbours
+                        continue;
+                    }
+                    for (position.y = size.y - 1; position.y >= 0; position.y--) {
+                        const index = buildIndexUnsafe(position);
+                        if (solidVoxel.isOfType(voxelsChunkData.data[index]!)) {
+                            break;
+                        }
+                        skylightMap[index] = maxSkylight;
+                        queue.push(position.x, position.y, position.z);
+                    }
+                }
+            }
+
+            this.propagateLight(voxelsChunkData, buildIndexUnsafe, skylightMap, queue);
+            return skylightMap;
+        },
+
+        /** Breadth-first flood-fill of the light from the queued positions through the non-solid voxels. */
+        propagateLight(
+            voxelsChunkData: VoxelsChunkDataNotEmpty,
+            buildIndexUnsafe: (position: THREE.Vector3Like) => number,
+            lightMap: Uint8Array,
+            queue: number[]
+        ): void {
+            const solidVoxel = this.voxelEncoder.solidVoxel;
+            const size = voxelsChunkData.size;
+
+            const position = { x: 0, y: 0, z: 0 };
+            const neighbour = { x: 0, y: 0, z: 0 };
+            for (let iQueue = 0; iQueue < queue.length; iQueue += 3) {
+                position.x = queue[iQueue]!;
+                position.y = queue[iQueue + 1]!;
+                position.z = queue[iQueue + 2]!;
+                const propagatedLight = lightMap[buildIndexUnsafe(position)]! - 1;
+                if (propagatedLight <= 0) {
+                    continue;
+                }
+
+                for (const face of Object.values(this.cube.faces)) {
+                    neighbour.x = position.x + face.normal.vec.x;
+                    neighbour.y = position.y + face.normal.vec.y;
+                    neighbour.z = position.z + face.normal.vec.z;
+                    if (
+                        neighbour.x < 0 ||
+                        neighbour.y < 0 ||
+                        neighbour.z < 0 ||
+                        neighbour.x >= size.x ||
+                        neighbour.y >= size.y ||
+                        neighbour.z >= size.z
+                    ) {
+                        continue;
+                    }
+
+                    const neighbourIndex = buildIndexUnsafe(neighbour);
+                    if (lightMap[neighbourIndex]! >= propagatedLight || solidVoxel.isOfType(voxelsChunkData.data[neighbourIndex]!)) {
+                        continue;
+                    }
+                    lightMap[neighbourIndex] = propagatedLight;
+                    queue.push(neighbour.x, neighbour.y, neighbour.z);
+                }
+            }
+        },
+
+        /** Smooth lighting: average of the light in the non-solid voxels touching the vertex, in front of the face. */
+        computeVertexLight(
+            voxelsChunkCache: VoxelsChunkCache,
+            voxelIndex: number,
+            faceNormal: THREE.Vector3Like,
+            faceVertex: Cube.FaceVertex,
+            getNeighbourLight: (voxelIndex: number, neighbourRelativePosition: THREE.Vector3Like) => number
+        ): number {
+            let totalLight = getNeighbourLight(voxelIndex, faceNormal);
+            let samplesCount = 1;
+            for (const neighbourVoxel of faceVertex.shadowingNeighbourVoxels) {
+                if (!voxelsChunkCache.neighbourIsSolid(voxelIndex, neighbourVoxel)) {
+                    totalLight += getNeighbourLight(voxelIndex, neighbourVoxel);
+                    samplesCount++;
+                }
+            }
+            return Math.round(totalLight / samplesCount);
+        },
+
         *iterateOnVisibleFacesWithCache(voxelsChunkCache: VoxelsChunkCache): Generator<FaceData> {
             if (voxelsChunkCache.isEmpty) {
                 return;
@@ -254,7 +518,10 @@ class VoxelsRenderableFactoryCpu extends VoxelsRenderableFactory {
                             throw new Error();
                         }
 
-                        if (this.voxelEncoder.solidVoxel.isOfType(cacheData)) {
+                        if (
+                            this.voxelEncoder.solidVoxel.isOfType(cacheData) &&
+                            this.voxelEncoder.solidVoxel.getShape(cacheData) === this.shapes.fullShape
+                        ) {
                             // if there is a voxel there
                             if (
                                 localPosition.x > 0 &&
@@ -269,7 +536,7 @@ class VoxelsRenderableFactoryCpu extends VoxelsRenderableFactory {
                                 const voxelIsCheckerboard = this.voxelEncoder.solidVoxel.isCheckerboard(cacheData);
 
                                 for (const face of Object.values(this.cube.faces)) {
-                                    if (voxelsChunkCache.neighbourIsSolid(cacheIndex, face.normal.vec)) {
+                                    if (voxelsChunkCache.neighbourCoversFace(cacheIndex, face.type)) {
                                         // this face will be hidden -> skip it
                                         continue;
                                     }
@@ -278,6 +545,7 @@ class VoxelsRenderableFactoryCpu extends VoxelsRenderableFactory {
                                         voxelLocalPosition,
                                         voxelMaterialId,
                                         voxelIsCheckerboard,
+                                        voxelFillShrink: 0,
                                         faceType: face.type,
                                         faceId: face.id,
                                         verticesData: face.vertices.map((faceVertex: Cube.FaceVertex): VertexData => {
@@ -303,6 +571,20 @@ class VoxelsRenderableFactoryCpu extends VoxelsRenderableFactory {
                                             return {
                                                 localPosition: faceVertex.vertex,
                                                 ao,
+                                                light: this.computeVertexLight(
+                                                    voxelsChunkCache,
+                                                    cacheIndex,
+                                                    face.normal.vec,
+                                                    faceVertex,
+                                                    voxelsChunkCache.getNeighbourLight
+                                                ),
+                                                skylight: this.computeVertexLight(
+                                                    voxelsChunkCache,
+                                                    cacheIndex,
+                                                    face.normal.vec,
+                                                    faceVertex,
+                                                    voxelsChunkCache.getNeighbourSkylight
+                                                ),
                                                 roundnessX,
                                                 roundnessY,
                                             };
@@ -315,6 +597,134 @@ class VoxelsRenderableFactoryCpu extends VoxelsRenderableFactory {
                 }
             }
         },
+
+        *iterateOnVisibleTranslucentFacesWithCache(voxelsChunkCache: VoxelsChunkCache): Generator<FaceData> {
+            if (voxelsChunkCache.isEmpty) {
+                return;
+            }
+
+            const translucentVoxel = this.voxelEncoder.translucentVoxel;
+            const localPosition = { x: 0, y: 0, z: 0 };
+            for (localPosition.z = 1; localPosition.z < voxelsChunkCache.size.z - 1; localPosition.z++) {
+                for (localPosition.y = 1; localPosition.y < voxelsChunkCache.size.y - 1; localPosition.y++) {
+                    for (localPosition.x = 1; localPosition.x < voxelsChunkCache.size.x - 1; localPosition.x++) {
+                        const cacheIndex = voxelsChunkCache.buildIndexUnsafe(localPosition);
+                        const cacheData = voxelsChunkCache.data[cacheIndex];
+                        if (typeof cacheData === 'undefined') {
+                            throw new Error();
+                        }
+
+                        if (!translucentVoxel.isOfType(cacheData)) {
+                            continue;
+                        }
+
+                        const voxelLocalPosition = { x: localPosition.x - 1, y: localPosition.y - 1, z: localPosition.z - 1 };
+                        const voxelMaterialId = translucentVoxel.getMaterialId(cacheData);
+                        const voxelFillLevel = translucentVoxel.getFillLevel(cacheData);
+                        const voxelIsFull = voxelFillLevel === translucentVoxel.maxFillLevel;
+
+                        for (const face of Object.values(this.cube.faces)) {
+                            const neighbourData = voxelsChunkCache.getNeighbourData(cacheIndex, face.normal.vec);
+                            if (voxelsChunkCache.neighbourCoversFace(cacheIndex, face.type)) {
+                                // the surface of a partially filled voxel stays visible below a solid voxel
+                                if (voxelIsFull || face.type !== 'up') {
+                                    continue;
+                                }
+                            } else if (
+                                translucentVoxel.isOfType(neighbourData) &&
+                                translucentVoxel.getMaterialId(neighbourData) === voxelMaterialId
+                            ) {
+                                // no inner faces inside of a volume of the same material
+                                const isVerticalFace = face.type === 'up' || face.type === 'down';
+                                if (isVerticalFace || translucentVoxel.getFillLevel(neighbourData) >= voxelFillLevel) {
+                                    continue;
+                                }
+                            }
+
+                            yield {
+                                voxelLocalPosition,
+                                voxelMaterialId,
+                                voxelIsCheckerboard: false,
+                                voxelFillShrink: translucentVoxel.maxFillLevel - voxelFillLevel,
+                                faceType: face.type,
+                                faceId: face.id,
+                                verticesData: face.vertices.map(
+                                    (faceVertex: Cube.FaceVertex): VertexData => ({
+                                        localPosition: faceVertex.vertex,
+                                        ao: 0,
+                                        light: this.computeVertexLight(
+                                            voxelsChunkCache,
+                                            cacheIndex,
+                                            face.normal.vec,
+                                            faceVertex,
+                                            voxelsChunkCache.getNeighbourLight
+                                        ),
+                                        skylight: this.computeVertexLight(
+                                            voxelsChunkCache,
+                                            cacheIndex,
+                                            face.normal.vec,
+                                            faceVertex,
+                                            voxelsChunkCache.getNeighbourSkylight
+                                        ),
+                                        roundnessX: false,
+                                        roundnessY: false,
+                                    })
+                                ) as [VertexData, VertexData, VertexData, VertexData],
+                            };
+                        }
+                    }
+                }
+            }
+        },
+
+        *iterateOnVisibleShapesFacesWithCache(voxelsChunkCache: VoxelsChunkCache): Generator<ShapeFaceData> {
+            if (voxelsChunkCache.isEmpty) {
+                return;
+            }
+
+            const solidVoxel = this.voxelEncoder.solidVoxel;
+            const localPosition = { x: 0, y: 0, z: 0 };
+            for (localPosition.z = 1; localPosition.z < voxelsChunkCache.size.z - 1; localPosition.z++) {
+                for (localPosition.y = 1; localPosition.y < voxelsChunkCache.size.y - 1; localPosition.y++) {
+                    for (localPosition.x = 1; localPosition.x < voxelsChunkCache.size.x - 1; localPosition.x++) {
+                        const cacheIndex = voxelsChunkCache.buildIndexUnsafe(localPosition);
+                        const cacheData = voxelsChunkCache.data[cacheIndex];
+                        if (typeof cacheData === 'undefined') {
+                            throw new Error();
+                        }
+
+                        if (!solidVoxel.isOfType(cacheData)) {
+                            continue;
+                        }
+                        const voxelShape = solidVoxel.getShape(cacheData);
+                        if (voxelShape === this.shapes.fullShape) {
+                            continue;
+                        }
+
+                        const voxelLocalPosition = { x: localPosition.x - 1, y: localPosition.y - 1, z: localPosition.z - 1 };
+                        const voxelMaterialId = solidVoxel.getMaterialId(cacheData);
+                        const voxelIsCheckerboard = solidVoxel.isCheckerboard(cacheData);
+
+                        for (const shapeFace of this.shapes.geometries[voxelShape].faces) {
+                            if (shapeFace.coveredFace && voxelsChunkCache.neighbourCoversFace(cacheIndex, shapeFace.coveredFace)) {
+                                continue;
+                            }
+
+                            // the light is sampled in the voxel the face looks at
+                            const lightDirection = this.cube.faces[shapeFace.cubeFaceType].normal.vec;
+                            yield {
+                                voxelLocalPosition,
+                                voxelMaterialId,
+                                voxelIsCheckerboard,
+                                shapeFace,
+                                light: voxelsChunkCache.getNeighbourLight(cacheIndex, lightDirection),
+                                skylight: voxelsChunkCache.getNeighbourSkylight(cacheIndex, lightDirection),
+                            };
+                        }
+                    }
+                }
+            }
+        },
     };
 
     public constructor(params: Parameters) {
@@ -322,6 +732,16 @@ class VoxelsRenderableFactoryCpu extends VoxelsRenderableFactory {
 
         this.serializableFactory.greedyMeshing = params.greedyMeshing ?? true;
         this.serializableFactory.voxelsChunkOrdering = params.voxelsChunkOrdering;
+
+        const maxLightLevel = this.serializableFactory.vertexData2Encoder.light.maxValue;
+        const materialsLightLevels: number[] = [];
+        for (let materialId = 0; materialId < params.voxelMaterialsStore.materialsCount; materialId++) {
+            const emissiveness = params.voxelMaterialsStore.getVoxelMaterial(materialId).emissiveness ?? 0;
+            materialsLightLevels.push(Math.round(maxLightLevel * Math.min(1, emissiveness)));
+        }
+        if (materialsLightLevels.some(lightLevel => lightLevel > 0)) {
+            this.serializableFactory.materialsLightLevels = materialsLightLevels;
+        }
     }
 
     public async buildGeometryAndMaterials(voxelsChunkData: VoxelsChunkDataNotEmpty): Promise<GeometryAndMaterial[]> {
@@ -331,26 +751,38 @@ class VoxelsRenderableFactoryCpu extends VoxelsRenderableFactory {
             );
         }
 
-        const buffer = await this.buildBuffer(voxelsChunkData);
-        return this.assembleGeometryAndMaterials(buffer);
+        const buffers = await this.buildBuffers(voxelsChunkData);
+        return this.assembleGeometryAndMaterials(buffers);
     }
 
-    protected async buildBuffer(voxelsChunkData: VoxelsChunkDataNotEmpty): Promise<Uint32Array> {
-        return this.serializableFactory.buildBuffer(voxelsChunkData);
+    protected async buildBuffers(voxelsChunkData: VoxelsChunkDataNotEmpty): Promise<VoxelsBuffers> {
+        return this.serializableFactory.buildBuffers(voxelsChunkData);
     }
 
     protected serialize(): string {
         return `{
     cube: ${JSON.stringify(this.serializableFactory.cube)},
+    shapes: ${JSON.stringify(this.serializableFactory.shapes)},
     vertexData1Encoder: ${this.serializableFactory.vertexData1Encoder.serialize()},
+    shapeVertexData1Encoder: ${this.serializableFactory.shapeVertexData1Encoder.serialize()},
     vertexData2Encoder: ${this.serializableFactory.vertexData2Encoder.serialize()},
     voxelEncoder: ${this.serializableFactory.voxelEncoder.serialize()},
     checkerboardPattern: ${JSON.stringify(this.serializableFactory.checkerboardPattern)},
     greedyMeshing: ${this.serializableFactory.greedyMeshing},
     voxelsChunkOrdering: "${this.serializableFactory.voxelsChunkOrdering}",
-    ${this.serializableFactory.buildBuffer},
+    materialsLightLevels: ${JSON.stringify(this.serializableFactory.materialsLightLevels)},
+    ${this.serializableFactory.buildBuffers},
+    ${this.serializableFactory.computeCheckerboardCellId},
+    ${this.serializableFactory.buildFacesBuffer},
+    ${this.serializableFactory.buildShapesBuffer},
     ${this.serializableFactory.buildLocalMapCache},
+    ${this.serializableFactory.buildLightMap},
+    ${this.serializableFactory.buildSkylightMap},
+    ${this.serializableFactory.propagateLight},
+    ${this.serializableFactory.computeVertexLight},
     ${this.serializableFactory.iterateOnVisibleFacesWithCache},
+    ${this.serializableFactory.iterateOnVisibleTranslucentFacesWithCache},
+    ${this.serializableFactory.iterateOnVisibleShapesFacesWithCache},
 }`;
     }
 }
@@ -1,5 +1,6 @@
+import { logger } from '../../../../../../helpers/logger';
 import { type MaterialsStore } from '../../../../../materials-store';
-import { type VoxelsChunkOrdering, type VoxelsChunkSize } from '../../../../i-voxelmap';
+import { voxelEncoder, type VoxelsChunkOrdering, type VoxelsChunkSize } from '../../../../i-voxelmap';
 import { type CheckerboardType, type GeometryAndMaterial, type VoxelsChunkDataNotEmpty } from '../../voxels-renderable-factory-base';
 import { VoxelsRenderableFactory } from '../voxels-renderable-factory';
 
@@ -12,8 +13,14 @@ type Parameters = {
     readonly checkerboardType?: CheckerboardType | undefined;
 };
 
+/**
+ * Meshes the voxels chunks on the GPU, with WebGPU.
+ * The voxels with a shape (slabs, stairs, slopes) are displayed as full cubes: use a CPU factory to display their actual shape.
+ * Translucent voxels (glass, water...) are not displayed at all: a warning is logged the first time some are met.
+ */
 class VoxelsRenderableFactoryGpu extends VoxelsRenderableFactory {
     private readonly voxelsComputerGpuPromise: Promise<VoxelsComputerGpu> | null = null;
+    private translucentVoxelsWarned = false;
 
     public constructor(params: Parameters) {
         super({
@@ -37,9 +44,14 @@ class VoxelsRenderableFactoryGpu extends VoxelsRenderableFactory {
     }
 
     public async buildGeometryAndMaterials(voxelsChunkData: VoxelsChunkDataNotEmpty): Promise<GeometryAndMaterial[]> {
+        if (!this.translucentVoxelsWarned && voxelsChunkData.data.some(voxelData => voxelEncoder.translucentVoxel.isOfType(voxelData))) {
+            logger.warn('The GPU voxels factory does not display translucent voxels: use a CPU factory to display them.');
+            this.translucentVoxelsWarned = true;
+        }
         const voxelsComputerGpu = await this.getVoxelsComputerGpu();
         const buffer = await voxelsComputerGpu.computeBuffer(voxelsChunkData);
-        return this.assembleGeometryAndMaterials(buffer);
+        // translucent voxels are only meshed by the CPU factories, and the GPU meshes all solid voxels as full cubes
+        return this.assembleGeometryAndMaterials({ opaque: buffer, translucent: new Uint32Array(), shapes: new Uint32Array() });
     }
 
     private async getVoxelsComputerGpu(): Promise<VoxelsComputerGpu> {
@@ -0,0 +1,42 @@
+import { PackedUintFactory, type PackedUintFragment } from '../../../../../helpers/uint-packing';
+import type * as THREE from '../../../../../libs/three-usage';
+import { type VoxelsChunkSize } from '../../../i-voxelmap';
+import { shapeNormalsById } from '../shapes';
+
+/** Counterpart of "VertexData1Encoder" for the voxels with a non-cubic shape, whose vertices lie on half voxels. */
+class ShapeVertexData1Encoder {
+    private readonly packedUintFactory = new PackedUintFactory(32);
+    public readonly positionX: PackedUintFragment;
+    public readonly positionY: PackedUintFragment;
+    public readonly positionZ: PackedUintFragment;
+    public readonly normalId: PackedUintFragment;
+
+    public constructor(maxVoxelsChunkSize: VoxelsChunkSize) {
+        this.positionX = this.packedUintFactory.encodeNValues(2 * maxVoxelsChunkSize.xz + 1);
+        this.positionY = this.packedUintFactory.encodeNValues(2 * maxVoxelsChunkSize.y + 1);
+        this.positionZ = this.packedUintFactory.encodeNValues(2 * maxVoxelsChunkSize.xz + 1);
+        this.normalId = this.packedUintFactory.encodeNValues(shapeNormalsById.length);
+    }
+
+    /** @param halfPosition Position of the vertex, in half voxels. */
+    public encode(halfPosition: THREE.Vector3Like, normalId: number): number {
+        return (
+            this.positionX.encode(halfPosition.x) +
+            this.positionY.encode(halfPosition.y) +
+            this.positionZ.encode(halfPosition.z) +
+            this.normalId.encode(normalId)
+        );
+    }
+
+    public serialize(): string {
+        return `{
+        positionX: ${this.positionX.serialize()},
+        positionY: ${this.positionY.serialize()},
+        positionZ: ${this.positionZ.serialize()},
+        normalId: ${this.normalId.serialize()},
+        ${this.encode.toString()},
+    }`;
+    }
+}
+
+export { ShapeVertexData1Encoder };
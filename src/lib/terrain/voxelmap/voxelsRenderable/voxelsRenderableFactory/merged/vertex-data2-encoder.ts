@@ -7,17 +7,34 @@ type CheckerboardCellId =
 
 class VertexData2Encoder {
     private readonly packedUintFactory = new PackedUintFactory(32);
-    public readonly voxelMaterialId = this.packedUintFactory.encodeNValues(1 << 15);
+    public readonly voxelMaterialId = this.packedUintFactory.encodeNValues(1 << 12);
     public readonly checkerboardCellId = this.packedUintFactory.encodeNValues(3);
     public readonly normalId = this.packedUintFactory.encodeNValues(6);
     public readonly uvRightId = this.packedUintFactory.encodeNValues(6);
+    /** Lowering of the vertex, in eighths of a voxel. Used for partially filled translucent voxels. */
+    public readonly verticalShrink = this.packedUintFactory.encodeNValues(8);
+    /** Light baked from the emissive voxels around. */
+    public readonly light = this.packedUintFactory.encodeNValues(16);
+    /** How much sky is visible from the vertex. */
+    public readonly skylight = this.packedUintFactory.encodeNValues(16);
 
-    public encode(voxelMaterialId: number, checkerboardCellId: CheckerboardCellId, normalId: number, uvRightId: number): number {
+    public encode(
+        voxelMaterialId: number,
+        checkerboardCellId: CheckerboardCellId,
+        normalId: number,
+        uvRightId: number,
+        verticalShrink: number = 0,
+        light: number = 0,
+        skylight: number = this.skylight.maxValue
+    ): number {
         return (
             this.voxelMaterialId.encode(voxelMaterialId) +
             this.checkerboardCellId.encode(checkerboardCellId) +
             this.normalId.encode(normalId) +
-            this.uvRightId.encode(uvRightId)
+            this.uvRightId.encode(uvRightId) +
+            this.verticalShrink.encode(verticalShrink) +
+            this.light.encode(light) +
+            this.skylight.encode(skylight)
         );
     }
 
@@ -27,8 +44,10 @@ class VertexData2Encoder {
         normalIdVarname: string,
         uvRightIdVarname: string
     ): string {
+        // there is no skylight pass on the GPU: vertices are considered fully exposed to the sky
         return `(${this.voxelMaterialId.wgslEncode(voxelMaterialIdVarname)} + ${this.checkerboardCellId.wgslEncode(checkerboardCellIdVarname)}
-        + ${this.normalId.wgslEncode(normalIdVarname)} + ${this.uvRightId.wgslEncode(uvRightIdVarname)})`;
+        + ${this.normalId.wgslEncode(normalIdVarname)} + ${this.uvRightId.wgslEncode(uvRightIdVarname)}
+        + ${this.skylight.wgslEncode(`${this.skylight.maxValue}u`)})`;
     }
 
     public serialize(): string {
@@ -37,6 +56,9 @@ class VertexData2Encoder {
         checkerboardCellId: ${this.checkerboardCellId.serialize()},
         normalId: ${this.normalId.serialize()},
         uvRightId: ${this.uvRightId.serialize()},
+        verticalShrink: ${this.verticalShrink.serialize()},
+        light: ${this.light.serialize()},
+        skylight: ${this.skylight.serialize()},
         ${this.encode.toString()},
     }`;
     }
@@ -4,8 +4,10 @@ import { type MaterialsStore } from '../../../../materials-store';
 import { type VoxelsChunkSize } from '../../../i-voxelmap';
 import { EVoxelsDisplayMode, type VoxelsMaterial, type VoxelsMaterialUniforms, type VoxelsMaterials } from '../../voxels-material';
 import * as Cube from '../cube';
+import { shapeNormalsById } from '../shapes';
 import { VoxelsRenderableFactoryBase, type CheckerboardType, type GeometryAndMaterial } from '../voxels-renderable-factory-base';
 
+import { ShapeVertexData1Encoder } from './shape-vertex-data1-encoder';
 import { VertexData1Encoder } from './vertex-data1-encoder';
 import { VertexData2Encoder } from './vertex-data2-encoder';
 
@@ -20,6 +22,19 @@ type VoxelsMaterialParameters = {
     readonly enableNoise: boolean;
     readonly enableRoundedCorners: boolean;
     readonly enableGrid: boolean;
+    readonly translucent: boolean;
+    /** For the voxels with a non-cubic shape, whose first vertex data is encoded with "ShapeVertexData1Encoder". */
+    readonly shapes: boolean;
+};
+
+/**
+ * Vertices of the opaque faces, and of the faces of the translucent voxels which are rendered in a separate pass.
+ * The faces of the non-cubic voxels are encoded differently, in their own buffer.
+ */
+type VoxelsBuffers = {
+    readonly opaque: Uint32Array;
+    readonly translucent: Uint32Array;
+    readonly shapes: Uint32Array;
 };
 
 type Parameters = {
@@ -37,6 +52,7 @@ abstract class VoxelsRenderableFactory extends VoxelsRenderableFactoryBase {
     private static readonly data2AttributeName = 'aData2';
 
     protected readonly vertexData1Encoder: VertexData1Encoder;
+    protected readonly shapeVertexData1Encoder: ShapeVertexData1Encoder;
     protected static readonly vertexData2Encoder = new VertexData2Encoder();
 
     public readonly maxVoxelsChunkSize: THREE.Vector3;
@@ -46,9 +62,15 @@ abstract class VoxelsRenderableFactory extends VoxelsRenderableFactoryBase {
         const cstVoxelNoise = 'VOXELS_NOISE';
         const cstVoxelRounded = 'VOXELS_ROUNDED';
         const cstVoxelGrid = 'VOXELS_GRID';
+        const cstVoxelShapes = 'VOXELS_SHAPES';
 
         const phongMaterial = new THREE.MeshPhongMaterial();
         phongMaterial.shininess = 0;
+        if (parameters.translucent) {
+            phongMaterial.transparent = true;
+            phongMaterial.depthWrite = false;
+            phongMaterial.side = THREE.DoubleSide;
+        }
         const material = phongMaterial as unknown as VoxelsMaterialTemp;
         material.userData.uniforms = this.buildDefaultUniforms();
         material.customProgramCacheKey = () => `voxels-factory-merged_${this.instanceId}`;
@@ -65,6 +87,9 @@ abstract class VoxelsRenderableFactory extends VoxelsRenderableFactoryBase {
         if (parameters.enableGrid) {
             material.defines[cstVoxelGrid] = 1;
         }
+        if (parameters.shapes) {
+            material.defines[cstVoxelShapes] = 1;
+        }
         material.onBeforeCompile = parameters => {
             parameters.uniforms = {
                 ...parameters.uniforms,
@@ -85,18 +110,27 @@ out vec2 vEdgeRoundness;
 #endif // ${cstVoxelRounded}
 
 flat out uint vData2;
+out float vLight;
+out float vSkylight;
 
 #ifdef ${cstVoxelAo}
 out float vAo;
 #endif // ${cstVoxelAo}
 
+#ifdef ${cstVoxelShapes}
+flat out vec3 vShapeNormal;
+#endif // ${cstVoxelShapes}
+
 void main() {`,
                 '#include <begin_vertex>': `
-    vec3 modelPosition = vec3(uvec3(
-        ${this.vertexData1Encoder.positionX.glslDecode(VoxelsRenderableFactory.data1AttributeName)},
-        ${this.vertexData1Encoder.positionY.glslDecode(VoxelsRenderableFactory.data1AttributeName)},
-        ${this.vertexData1Encoder.positionZ.glslDecode(VoxelsRenderableFactory.data1AttributeName)}
-    ));
+#ifdef ${cstVoxelShapes}
+    vec3 modelPosition = ${this.buildGlslModelPosition(true)};
+#else
+    vec3 modelPosition = ${this.buildGlslModelPosition(false)};
+    modelPosition.y -= float(${VoxelsRenderableFactory.vertexData2Encoder.verticalShrink.glslDecode(
+        VoxelsRenderableFactory.data2AttributeName
+    )}) / ${(VoxelsRenderableFactory.vertexData2Encoder.verticalShrink.maxValue + 1).toFixed(1)};
+#endif // ${cstVoxelShapes}
     vec3 transformed = modelPosition;
     
 #if defined(${cstVoxelRounded}) || defined(${cstVoxelNoise}) || defined(${cstVoxelGrid})
@@ -133,13 +167,31 @@ void main() {`,
 #endif // ${cstVoxelAo}
 
     vData2 = ${VoxelsRenderableFactory.data2AttributeName};
+    vLight = float(${VoxelsRenderableFactory.vertexData2Encoder.light.glslDecode(
+        VoxelsRenderableFactory.data2AttributeName
+    )}) / ${VoxelsRenderableFactory.vertexData2Encoder.light.maxValue.toFixed(1)};
+    vSkylight = float(${VoxelsRenderableFactory.vertexData2Encoder.skylight.glslDecode(
+        VoxelsRenderableFactory.data2AttributeName
+    )}) / ${VoxelsRenderableFactory.vertexData2Encoder.skylight.maxValue.toFixed(1)};
         `,
                 '#include <beginnormal_vertex>': `
+#ifdef ${cstVoxelShapes}
+    const vec3 shapeNormalById[] = vec3[](
+        ${shapeNormalsById.map(normal => `vec3(${vec3ToString(normal, ', ')})`).join(',\n')}
+    );
+    // the normal of the closest cube face, used for texturing
+    uint faceId = ${VoxelsRenderableFactory.vertexData2Encoder.normalId.glslDecode(VoxelsRenderableFactory.data2AttributeName)};
+    vec3 objectNormal = normalize(shapeNormalById[${this.shapeVertexData1Encoder.normalId.glslDecode(
+        VoxelsRenderableFactory.data1AttributeName
+    )}]);
+    vShapeNormal = objectNormal;
+#else
     const vec3 faceNormalById[] = vec3[](
         ${Cube.facesById.map(face => `vec3(${vec3ToString(face.normal.vec, ', ')})`).join(',\n')}
     );
     uint faceId = ${this.vertexData1Encoder.faceId.glslDecode(VoxelsRenderableFactory.data1AttributeName)};
     vec3 objectNormal = faceNormalById[faceId];
+#endif // ${cstVoxelShapes}
 `,
             });
 
@@ -172,6 +224,11 @@ uniform float uGridThickness;
 
 uniform float uShininessStrength;
 
+uniform float uLightStrength;
+uniform vec3 uLightColor;
+
+uniform float uSkylightStrength;
+
 uniform uint uDisplayMode;
 
 uniform mat3 normalMatrix; // from three.js
@@ -185,17 +242,27 @@ in vec2 vEdgeRoundness;
 #endif // ${cstVoxelRounded}
 
 flat in uint vData2;
+in float vLight;
+in float vSkylight;
 
 #ifdef ${cstVoxelAo}
 in float vAo;
 #endif // ${cstVoxelAo}
 
+#ifdef ${cstVoxelShapes}
+flat in vec3 vShapeNormal;
+#endif // ${cstVoxelShapes}
+
 vec3 computeModelNormal() {
     const vec3 modelNormalsById[] = vec3[](
         ${Cube.normalsById.map(value => `vec3(${vec3ToString(value, ', ')})`).join(',\n')}
     );
 
+#ifdef ${cstVoxelShapes}
+    vec3 modelNormal = vShapeNormal;
+#else
     vec3 modelNormal = modelNormalsById[${VoxelsRenderableFactory.vertexData2Encoder.normalId.glslDecode('vData2')}];
+#endif // ${cstVoxelShapes}
 #ifdef ${cstVoxelRounded}
     if (uSmoothEdgeRadius > 0.0) {
         vec2 uv = fract(vModelUv);
@@ -292,20 +359,39 @@ void main() {
     float ao = (1.0 - uAoStrength) + uAoStrength * (smoothstep(0.0, uAoSpread, 1.0 - vAo));
     diffuseColor.rgb *= ao;
 #endif // ${cstVoxelAo}
+
+    // the baked light of the emissive voxels is not occluded by the sky
+    vec3 voxelAlbedo = diffuseColor.rgb;
+    diffuseColor.rgb *= (1.0 - uSkylightStrength) + uSkylightStrength * vSkylight;
     `,
                 '#include <lights_phong_fragment>': `
     #include <lights_phong_fragment>
     material.specularShininess = voxelMaterial.shininess;
     `,
                 '#include <emissivemap_fragment>': `
-    totalEmissiveRadiance = voxelMaterial.emissive;
+    totalEmissiveRadiance = voxelMaterial.emissive + uLightStrength * vLight * uLightColor * voxelAlbedo;
     `,
             });
         };
         return material;
     }
 
-    private buildShadowMaterial(): THREE.Material {
+    private buildGlslModelPosition(shapes: boolean): string {
+        if (shapes) {
+            return `0.5 * vec3(uvec3(
+        ${this.shapeVertexData1Encoder.positionX.glslDecode(VoxelsRenderableFactory.data1AttributeName)},
+        ${this.shapeVertexData1Encoder.positionY.glslDecode(VoxelsRenderableFactory.data1AttributeName)},
+        ${this.shapeVertexData1Encoder.positionZ.glslDecode(VoxelsRenderableFactory.data1AttributeName)}
+    ))`;
+        }
+        return `vec3(uvec3(
+        ${this.vertexData1Encoder.positionX.glslDecode(VoxelsRenderableFactory.data1AttributeName)},
+        ${this.vertexData1Encoder.positionY.glslDecode(VoxelsRenderableFactory.data1AttributeName)},
+        ${this.vertexData1Encoder.positionZ.glslDecode(VoxelsRenderableFactory.data1AttributeName)}
+    ))`;
+    }
+
+    private buildShadowMaterial(shapes: boolean): THREE.Material {
         // Custom shadow material using RGBA depth packing.
         // A custom material for shadows is needed here, because the geometry is created inside the vertex shader,
         // so the builtin threejs shadow material will not work.
@@ -325,11 +411,7 @@ void main() {
             const uint vertexIds[] = uint[](${Cube.faceIndices.map(indice => `${indice}u`).join(', ')});
             uint vertexId = vertexIds[gl_VertexID % 6];
 
-            vec3 modelPosition = vec3(uvec3(
-                ${this.vertexData1Encoder.positionX.glslDecode(VoxelsRenderableFactory.data1AttributeName)},
-                ${this.vertexData1Encoder.positionY.glslDecode(VoxelsRenderableFactory.data1AttributeName)},
-                ${this.vertexData1Encoder.positionZ.glslDecode(VoxelsRenderableFactory.data1AttributeName)}
-            ));
+            vec3 modelPosition = ${this.buildGlslModelPosition(shapes)};
             gl_Position = projectionMatrix * modelViewMatrix * vec4(modelPosition, 1.0);
 
             vHighPrecisionZW = gl_Position.zw;
@@ -352,7 +434,7 @@ void main() {
         });
     }
 
-    private buildVoxelsMaterials(): VoxelsMaterials {
+    private buildVoxelsMaterials(translucent: boolean, shapes: boolean): VoxelsMaterials {
         return {
             materials: {
                 0: this.buildThreeJsVoxelsMaterial({
@@ -360,15 +442,19 @@ void main() {
                     enableNoise: false,
                     enableRoundedCorners: false,
                     enableGrid: false,
+                    translucent,
+                    shapes,
                 }),
                 1: this.buildThreeJsVoxelsMaterial({
-                    enableAo: true,
+                    enableAo: !translucent && !shapes,
                     enableNoise: true,
-                    enableRoundedCorners: true,
+                    enableRoundedCorners: !translucent && !shapes,
                     enableGrid: false,
+                    translucent,
+                    shapes,
                 }),
             },
-            shadowMaterial: this.buildShadowMaterial(),
+            shadowMaterial: this.buildShadowMaterial(shapes),
         };
     }
 
@@ -381,6 +467,7 @@ void main() {
         });
 
         this.vertexData1Encoder = new VertexData1Encoder(params.maxVoxelsChunkSize);
+        this.shapeVertexData1Encoder = new ShapeVertexData1Encoder(params.maxVoxelsChunkSize);
         this.maxVoxelsChunkSize = new THREE.Vector3(
             params.maxVoxelsChunkSize.xz,
             params.maxVoxelsChunkSize.y,
@@ -390,10 +477,32 @@ void main() {
         this.instanceId = VoxelsRenderableFactory.instancesCount++;
     }
 
-    protected assembleGeometryAndMaterials(buffer: Uint32Array): GeometryAndMaterial[] {
+    protected assembleGeometryAndMaterials(buffers: VoxelsBuffers): GeometryAndMaterial[] {
+        const result: GeometryAndMaterial[] = [];
+        const opaquePart = this.assembleGeometryAndMaterial('merged', buffers.opaque, false, false);
+        if (opaquePart) {
+            result.push(opaquePart);
+        }
+        const shapesPart = this.assembleGeometryAndMaterial('shapes', buffers.shapes, false, true);
+        if (shapesPart) {
+            result.push(shapesPart);
+        }
+        const translucentPart = this.assembleGeometryAndMaterial('translucent', buffers.translucent, true, false);
+        if (translucentPart) {
+            result.push(translucentPart);
+        }
+        return result;
+    }
+
+    private assembleGeometryAndMaterial(
+        id: string,
+        buffer: Uint32Array,
+        translucent: boolean,
+        shapes: boolean
+    ): GeometryAndMaterial | null {
         const verticesCount = buffer.length / 2;
         if (verticesCount === 0) {
-            return [];
+            return null;
         }
 
         const geometry = new THREE.BufferGeometry();
@@ -407,8 +516,8 @@ void main() {
 
         const trianglesCount = verticesCount / 3;
         const gpuMemoryBytes = interleavedBuffer.array.byteLength;
-        return [{ id: 'merged', materials: this.buildVoxelsMaterials(), geometry, trianglesCount, gpuMemoryBytes }];
+        return { id, materials: this.buildVoxelsMaterials(translucent, shapes), geometry, trianglesCount, gpuMemoryBytes };
     }
 }
 
-export { VoxelsRenderableFactory, type Parameters, type VoxelsMaterials };
+export { VoxelsRenderableFactory, type Parameters, type VoxelsBuffers, type VoxelsMaterials };
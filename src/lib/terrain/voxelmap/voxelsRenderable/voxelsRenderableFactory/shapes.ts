@@ -0,0 +1,198 @@
+import * as THREE from '../../../../libs/three-usage';
+import { EVoxelShape } from '../../i-voxelmap';
+
+import * as Cube from './cube';
+
+/*
+ * Geometry of the voxel shapes. Positions are expressed in half voxels, so that all the vertices have integer coordinates.
+ */
+
+type ShapeFace = {
+    /** Same layout as the cube faces: the triangles are (v00, v10, v01) and (v01, v10, v11). Triangles have v11 = v10. */
+    readonly vertices: [THREE.Vector3Like, THREE.Vector3Like, THREE.Vector3Like, THREE.Vector3Like];
+    /** ID in "shapeNormalsById". */
+    readonly normalId: number;
+    /** Cube face closest to this face, used for lighting and texturing. */
+    readonly cubeFaceType: Cube.FaceType;
+    /** Face of the voxel this face lies on, if any. Such a face is hidden when the neighbour covers it. */
+    readonly coveredFace: Cube.FaceType | null;
+};
+
+type ShapeGeometry = {
+    readonly faces: ShapeFace[];
+    /** Faces of the voxel entirely covered by the shape, which hide the faces of the neighbours against them. */
+    readonly fullFaces: Cube.FaceType[];
+};
+
+/** Every direction with components in {-1, 0, 1} and at most two non-null components. */
+const shapeNormalsById: THREE.Vector3[] = [];
+for (let x = -1; x <= 1; x++) {
+    for (let y = -1; y <= 1; y++) {
+        for (let z = -1; z <= 1; z++) {
+            const nonNullComponentsCount = +(x !== 0) + +(y !== 0) + +(z !== 0);
+            if (nonNullComponentsCount === 1 || nonNullComponentsCount === 2) {
+                shapeNormalsById.push(new THREE.Vector3(x, y, z));
+            }
+        }
+    }
+}
+
+const oppositeFaces: Record<Cube.FaceType, Cube.FaceType> = {
+    up: 'down',
+    down: 'up',
+    left: 'right',
+    right: 'left',
+    front: 'back',
+    back: 'front',
+};
+
+function getFaceTypeFromNormal(normal: THREE.Vector3Like): Cube.FaceType {
+    const face = Cube.facesById.find(face => new THREE.Vector3().copy(face.normal.vec).equals(normal));
+    if (!face) {
+        throw new Error(`Invalid face normal "${normal.x},${normal.y},${normal.z}".`);
+    }
+    return face.type;
+}
+
+/** @param polygon Triangle or quad, counter-clockwise when seen from the outside of the shape. */
+function buildShapeFace(polygon: THREE.Vector3Like[]): ShapeFace {
+    const [a, b, c, d] = polygon;
+    if (!a || !b || !c || polygon.length > 4) {
+        throw new Error(`Invalid polygon with "${polygon.length}" vertices.`);
+    }
+
+    const normal = new THREE.Vector3()
+        .subVectors(b, a)
+        .cross(new THREE.Vector3().subVectors(d ?? c, a))
+        .round();
+    normal.divideScalar(Math.max(Math.abs(normal.x), Math.abs(normal.y), Math.abs(normal.z)));
+    const normalId = shapeNormalsById.findIndex(shapeNormal => shapeNormal.equals(normal));
+    if (normalId < 0) {
+        throw new Error(`Unsupported shape normal "${normal.x},${normal.y},${normal.z}".`);
+    }
+
+    // the vertical direction prevails for the slopes, so that they are lit and textured like the ground
+    let cubeFaceType: Cube.FaceType;
+    if (normal.y !== 0) {
+        cubeFaceType = normal.y > 0 ? 'up' : 'down';
+    } else {
+        cubeFaceType = getFaceTypeFromNormal(normal);
+    }
+
+    let coveredFace: Cube.FaceType | null = null;
+    if (Math.abs(normal.x) + Math.abs(normal.y) + Math.abs(normal.z) === 1) {
+        const axis = normal.x !== 0 ? 'x' : normal.y !== 0 ? 'y' : 'z';
+        const boundary = normal[axis] > 0 ? 2 : 0;
+        if (polygon.every(vertex => vertex[axis] === boundary)) {
+            coveredFace = cubeFaceType;
+        }
+    }
+
+    return {
+        vertices: d ? [a, d, b, c] : [a, c, b, b],
+        normalId,
+        cubeFaceType,
+        coveredFace,
+    };
+}
+
+/** Faces of the given types of a box, given in half voxels. */
+function buildBoxFaces(min: THREE.Vector3Like, max: THREE.Vector3Like, faceTypes: ReadonlyArray<Cube.FaceType>): ShapeFace[] {
+    return faceTypes.map(faceType => {
+        const [v00, v01, v10, v11] = Cube.faces[faceType].vertices.map(faceVertex => ({
+            x: faceVertex.vertex.x > 0 ? max.x : min.x,
+            y: faceVertex.vertex.y > 0 ? max.y : min.y,
+            z: faceVertex.vertex.z > 0 ? max.z : min.z,
+        })) as [THREE.Vector3Like, THREE.Vector3Like, THREE.Vector3Like, THREE.Vector3Like];
+        return buildShapeFace([v00, v10, v11, v01]);
+    });
+}
+
+/** Rotates a geometry by a quarter turn around the vertical axis, turning the +X direction into +Z. */
+function rotateShapeGeometry(geometry: ShapeGeometry): ShapeGeometry {
+    const rotateFaceType = (faceType: Cube.FaceType): Cube.FaceType => {
+        const normal = Cube.faces[faceType].normal.vec;
+        return getFaceTypeFromNormal({ x: -normal.z, y: normal.y, z: normal.x });
+    };
+
+    return {
+        faces: geometry.faces.map(face => {
+            const [v00, v01, v10, v11] = face.vertices.map(vertex => ({ x: 2 - vertex.z, y: vertex.y, z: vertex.x })) as [
+                THREE.Vector3Like,
+                THREE.Vector3Like,
+                THREE.Vector3Like,
+                THREE.Vector3Like,
+            ];
+            const isTriangle = face.vertices[3] === face.vertices[2];
+            return buildShapeFace(isTriangle ? [v00, v10, v01] : [v00, v10, v11, v01]);
+        }),
+        fullFaces: geometry.fullFaces.map(rotateFaceType),
+    };
+}
+
+function buildRotations(geometry: ShapeGeometry): [ShapeGeometry, ShapeGeometry, ShapeGeometry, ShapeGeometry] {
+    const positiveX = geometry;
+    const positiveZ = rotateShapeGeometry(positiveX);
+    const negativeX = rotateShapeGeometry(positiveZ);
+    const negativeZ = rotateShapeGeometry(negativeX);
+    return [positiveX, positiveZ, negativeX, negativeZ];
+}
+
+const allFaceTypes: Cube.FaceType[] = ['up', 'down', 'left', 'right', 'front', 'back'];
+
+const [stairsPositiveX, stairsPositiveZ, stairsNegativeX, stairsNegativeZ] = buildRotations({
+    faces: [
+        ...buildBoxFaces({ x: 0, y: 0, z: 0 }, { x: 2, y: 1, z: 2 }, ['down', 'left', 'right', 'front', 'back']),
+        ...buildBoxFaces({ x: 0, y: 0, z: 0 }, { x: 1, y: 1, z: 2 }, ['up']),
+        ...buildBoxFaces({ x: 1, y: 1, z: 0 }, { x: 2, y: 2, z: 2 }, ['up', 'left', 'right', 'front', 'back']),
+    ],
+    fullFaces: ['down', 'right'],
+});
+
+const [slopePositiveX, slopePositiveZ, slopeNegativeX, slopeNegativeZ] = buildRotations({
+    faces: [
+        ...buildBoxFaces({ x: 0, y: 0, z: 0 }, { x: 2, y: 2, z: 2 }, ['down', 'right']),
+        buildShapeFace([
+            { x: 0, y: 0, z: 0 },
+            { x: 0, y: 0, z: 2 },
+            { x: 2, y: 2, z: 2 },
+            { x: 2, y: 2, z: 0 },
+        ]),
+        buildShapeFace([
+            { x: 0, y: 0, z: 2 },
+            { x: 2, y: 0, z: 2 },
+            { x: 2, y: 2, z: 2 },
+        ]),
+        buildShapeFace([
+            { x: 2, y: 0, z: 0 },
+            { x: 0, y: 0, z: 0 },
+            { x: 2, y: 2, z: 0 },
+        ]),
+    ],
+    fullFaces: ['down', 'right'],
+});
+
+const shapesGeometries: Record<EVoxelShape, ShapeGeometry> = {
+    [EVoxelShape.FULL]: {
+        faces: buildBoxFaces({ x: 0, y: 0, z: 0 }, { x: 2, y: 2, z: 2 }, allFaceTypes),
+        fullFaces: allFaceTypes,
+    },
+    [EVoxelShape.SLAB_BOTTOM]: {
+        faces: buildBoxFaces({ x: 0, y: 0, z: 0 }, { x: 2, y: 1, z: 2 }, allFaceTypes),
+        fullFaces: ['down'],
+    },
+    [EVoxelShape.SLAB_TOP]: {
+        faces: buildBoxFaces({ x: 0, y: 1, z: 0 }, { x: 2, y: 2, z: 2 }, allFaceTypes),
+        fullFaces: ['up'],
+    },
+    [EVoxelShape.STAIRS_POSITIVE_X]: stairsPositiveX,
+    [EVoxelShape.STAIRS_NEGATIVE_X]: stairsNegativeX,
+    [EVoxelShape.STAIRS_POSITIVE_Z]: stairsPositiveZ,
+    [EVoxelShape.STAIRS_NEGATIVE_Z]: stairsNegativeZ,
+    [EVoxelShape.SLOPE_POSITIVE_X]: slopePositiveX,
+    [EVoxelShape.SLOPE_NEGATIVE_X]: slopeNegativeX,
+    [EVoxelShape.SLOPE_POSITIVE_Z]: slopePositiveZ,
+    [EVoxelShape.SLOPE_NEGATIVE_Z]: slopeNegativeZ,
+};
+
+export { oppositeFaces, shapeNormalsById, shapesGeometries, type ShapeFace, type ShapeGeometry };
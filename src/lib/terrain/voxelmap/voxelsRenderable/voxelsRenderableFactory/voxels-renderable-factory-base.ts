@@ -18,6 +18,10 @@ type GeometryAndMaterial = {
 type VertexData = {
     readonly localPosition: THREE.Vector3Like;
     readonly ao: number;
+    /** Light received from the emissive voxels around. */
+    readonly light: number;
+    /** How much sky is visible from the vertex. */
+    readonly skylight: number;
     readonly roundnessX: boolean;
     readonly roundnessY: boolean;
 };
@@ -31,6 +35,15 @@ type VoxelsChunkDataNotEmpty = {
     readonly data: Uint16Array;
     readonly dataOrdering: VoxelsChunkOrdering;
     readonly isEmpty: false;
+    /**
+     * For each column of the data (at index x + size.x * z), 1 if the sky is hidden somewhere above the top of the data
+     * (for instance by the terrain, or by the chunks above), 0 otherwise. Used for the skylight.
+     * When not provided, the sky is considered visible from the top of the data.
+     * The "VoxelmapViewer" adds the occlusion of the chunks above that it received, so only what it cannot know has to be provided.
+     */
+    readonly skyOcclusion?: Uint8Array;
+    /** Whether to compute the skylight. When false, the sky is considered visible from everywhere. Defaults to true. */
+    readonly skylight?: boolean;
 };
 type VoxelsChunkData = VoxelsChunkDataEmpty | VoxelsChunkDataNotEmpty;
 
@@ -151,6 +164,9 @@ abstract class VoxelsRenderableFactoryBase {
             uGridThickness: { value: 0.02 },
             uGridColor: { value: new THREE.Vector3(-0.2, -0.2, -0.2) },
             uShininessStrength: { value: 1 },
+            uLightStrength: { value: 0 },
+            uLightColor: { value: new THREE.Vector3(1, 1, 1) },
+            uSkylightStrength: { value: 0 },
         };
     }
 }
@@ -7,6 +7,7 @@ export {
     CameraHelper,
     CylinderGeometry,
     DirectionalLight,
+    FogExp2,
     Frustum,
     GridHelper,
     LinearMipMapLinearFilter,
@@ -0,0 +1,85 @@
+import type * as THREE from 'three-usage-test';
+
+import { voxelEncoder, type IVoxelMap, type LocalMapData, type VoxelsChunkOrdering } from '../../lib';
+
+type ModifiedVoxel = {
+    readonly position: THREE.Vector3Like;
+    readonly data: number;
+};
+
+function buildIndexFactors(size: THREE.Vector3Like, ordering: VoxelsChunkOrdering): THREE.Vector3Like {
+    const [slowest, middle, fastest] = ordering.split('') as ['x' | 'y' | 'z', 'x' | 'y' | 'z', 'x' | 'y' | 'z'];
+    const indexFactors = { x: 0, y: 0, z: 0 };
+    indexFactors[fastest] = 1;
+    indexFactors[middle] = size[fastest];
+    indexFactors[slowest] = size[fastest] * size[middle];
+    return indexFactors;
+}
+
+/** Voxel map where some voxels of another map are replaced. */
+class EditableVoxelMap implements IVoxelMap {
+    public readonly altitude: IVoxelMap['altitude'];
+    public readonly voxelTypesDefininitions: IVoxelMap['voxelTypesDefininitions'];
+
+    private readonly map: IVoxelMap;
+    private readonly modifiedVoxels = new Map<string, ModifiedVoxel>();
+
+    public constructor(map: IVoxelMap) {
+        this.map = map;
+        this.altitude = map.altitude;
+        this.voxelTypesDefininitions = map.voxelTypesDefininitions;
+    }
+
+    public isVoxelModified(position: THREE.Vector3Like): boolean {
+        return this.modifiedVoxels.has(`${position.x}_${position.y}_${position.z}`);
+    }
+
+    /** @param data Encoded voxel (see "voxelEncoder"), or null to restore the voxel of the original map. */
+    public setVoxel(position: THREE.Vector3Like, data: number | null): void {
+        const id = `${position.x}_${position.y}_${position.z}`;
+        if (data === null) {
+            this.modifiedVoxels.delete(id);
+        } else {
+            this.modifiedVoxels.set(id, { position: { x: position.x, y: position.y, z: position.z }, data });
+        }
+    }
+
+    public async getLocalMapData(blockStart: THREE.Vector3Like, blockEnd: THREE.Vector3Like): Promise<LocalMapData> {
+        const localMapData = await this.map.getLocalMapData(blockStart, blockEnd);
+
+        const modifiedVoxelsInBlock = Array.from(this.modifiedVoxels.values()).filter(
+            ({ position }) =>
+                position.x >= blockStart.x &&
+                position.y >= blockStart.y &&
+                position.z >= blockStart.z &&
+                position.x < blockEnd.x &&
+                position.y < blockEnd.y &&
+                position.z < blockEnd.z
+        );
+        if (modifiedVoxelsInBlock.length === 0) {
+            return localMapData;
+        }
+
+        const blockSize = { x: blockEnd.x - blockStart.x, y: blockEnd.y - blockStart.y, z: blockEnd.z - blockStart.z };
+        const dataOrdering: VoxelsChunkOrdering = localMapData.isEmpty ? 'zyx' : localMapData.dataOrdering;
+        const data = localMapData.isEmpty
+            ? new Uint16Array(blockSize.x * blockSize.y * blockSize.z).fill(voxelEncoder.encodeEmpty())
+            : new Uint16Array(localMapData.data);
+
+        const indexFactors = buildIndexFactors(blockSize, dataOrdering);
+        for (const { position, data: voxelData } of modifiedVoxelsInBlock) {
+            const index =
+                (position.x - blockStart.x) * indexFactors.x +
+                (position.y - blockStart.y) * indexFactors.y +
+                (position.z - blockStart.z) * indexFactors.z;
+            data[index] = voxelData;
+        }
+
+        if (data.every(voxelData => voxelData === voxelEncoder.encodeEmpty())) {
+            return { isEmpty: true };
+        }
+        return { data, dataOrdering, isEmpty: false };
+    }
+}
+
+export { EditableVoxelMap };
@@ -2,16 +2,21 @@ import GUI from 'lil-gui';
 import * as THREE from 'three-usage-test';
 
 import {
+    BoardLineOfSight,
     BoardOverlaysHandler,
+    BoardPathFinder,
     BoardRenderableFactory,
     ClutterViewer,
     computeBoard,
     EBoardSquareType,
     EComputationMethod,
+    ESquareVisibility,
     HeightmapViewerCpu,
     MaterialsStore,
     PromisesQueue,
     TerrainViewer,
+    updateBoard,
+    voxelEncoder,
     VoxelmapViewer,
     VoxelmapVisibilityComputer,
     VoxelmapWrapper,
@@ -23,8 +28,7 @@ import {
 } from '../lib';
 import { range } from '../lib/helpers/misc';
 
-import { LineOfSight } from './board/line-of-sight';
-import { PathFinder } from './board/path-finder';
+import { EditableVoxelMap } from './map/editable-voxel-map';
 import { type HeightmapSample } from './map/voxel-map';
 import { TestBase } from './test-base';
 
@@ -114,9 +118,10 @@ class TestBoard extends TestBase {
         this.voxelmapVisibilityComputer = new VoxelmapVisibilityComputer(this.voxelmapViewer.chunkSizeVec3, minChunkIdY, maxChunkIdY);
         this.voxelmapVisibilityComputer.showMapAroundPosition({ x: 0, y: 0, z: 0 }, 200);
 
-        this.setupBoard(map);
+        const editableMap = new EditableVoxelMap(map);
+        this.setupBoard(editableMap, map);
 
-        this.map = new VoxelmapWrapper(map, chunkSize, minChunkIdY, maxChunkIdY, true);
+        this.map = new VoxelmapWrapper(editableMap, chunkSize, minChunkIdY, maxChunkIdY, true);
         this.map.onChange.push(modifiedChunksIdsList => {
             if (modifiedChunksIdsList.length > 0) {
                 this.promisesQueue.cancelAll();
@@ -169,7 +174,7 @@ class TestBoard extends TestBase {
         }
     }
 
-    private setupBoard(voxelMap: IVoxelMap & ITerrainMap): void {
+    private setupBoard(voxelMap: EditableVoxelMap, terrainMap: ITerrainMap): void {
         const factory = new BoardRenderableFactory({
             voxelMaterialsStore: this.voxelMaterialsStore,
         });
@@ -229,48 +234,36 @@ class TestBoard extends TestBase {
             boardOverlaysHandler.clearSquares();
 
             if (parameters.testLineOfSight) {
-                const lineOfSight = new LineOfSight({
-                    grid: {
-                        size: board.size,
-                        cells: board.squares.map(square => square.type === EBoardSquareType.OBSTACLE),
-                    },
-                });
-                const gridVisibility = lineOfSight.computeCellsVisibility({ x: parameters.boardRadius, z: parameters.boardRadius }, 10);
-                const cellsVisibilities = gridVisibility.cells.filter(cell => {
-                    return board.squares[cell.x + cell.z * board.size.x]!.type === EBoardSquareType.FLAT;
-                });
-                const visibleSquares = cellsVisibilities.filter(cell => cell.visibility === 'visible');
-                const obstructedSquares = cellsVisibilities.filter(cell => cell.visibility === 'hidden');
+                const lineOfSight = await BoardLineOfSight.create({ board, map: voxelMap });
+                const boardVisibility = lineOfSight.computeVisibility({ x: parameters.boardRadius, z: parameters.boardRadius }, 10);
+                const visibleSquares = boardVisibility.squares.filter(square => square.visibility === ESquareVisibility.VISIBLE);
+                const obstructedSquares = boardVisibility.squares.filter(square => square.visibility === ESquareVisibility.HIDDEN);
                 boardOverlaysHandler.displaySquares(visibleSquares, new THREE.Color(0x00ff00));
                 boardOverlaysHandler.displaySquares(obstructedSquares, new THREE.Color(0xff0000));
             } else if (parameters.testPathFinding) {
-                const pathFinder = new PathFinder({
-                    grid: {
-                        size: board.size,
-                        cells: board.squares.map(square => square.type === EBoardSquareType.FLAT),
-                    },
-                });
+                const pathFinder = new BoardPathFinder({ board, connectivity: 4 });
 
                 {
-                    pathFinder.setOrigin({ x: parameters.boardRadius, z: parameters.boardRadius });
-                    const reachableCells = pathFinder.getReachableCells(10);
-                    boardOverlaysHandler.displayBlob(0, reachableCells, new THREE.Color(0x88dd88), 0.5);
+                    pathFinder.setOrigin({ x: parameters.boardRadius, z: parameters.boardRadius }, 10);
+                    const reachableSquares = pathFinder.getReachableSquares();
+                    boardOverlaysHandler.displayBlob(0, reachableSquares, new THREE.Color(0x88dd88), 0.5);
                     const path = pathFinder.findPathTo({ x: 31, z: 35 });
                     if (path) {
-                        boardOverlaysHandler.displaySquares(path, new THREE.Color(0x88dd88), 1);
+                        boardOverlaysHandler.displaySquares(path.squares, new THREE.Color(0x88dd88), 1);
                     }
                 }
 
-                {
-                    pathFinder.setOrigin({ x: parameters.boardRadius - 5, z: parameters.boardRadius - 5 });
-                    const reachableCells = pathFinder.getReachableCells(7);
-                    boardOverlaysHandler.displayBlob(1, reachableCells, new THREE.Color(0xdd8888), 0.5);
+                const secondOrigin = { x: parameters.boardRadius - 5, z: parameters.boardRadius - 5 };
+                if (board.squares[secondOrigin.x + secondOrigin.z * board.size.x]!.type === EBoardSquareType.FLAT) {
+                    pathFinder.setOrigin(secondOrigin, 7);
+                    const reachableSquares = pathFinder.getReachableSquares();
+                    boardOverlaysHandler.displayBlob(1, reachableSquares, new THREE.Color(0xdd8888), 0.5);
                 }
             }
         };
 
         const updateAltitude = () => {
-            const terrainSample = voxelMap.sampleHeightmapBaseTerrain(
+            const terrainSample = terrainMap.sampleHeightmapBaseTerrain(
                 Math.floor(boardCenterContainer.position.x),
                 Math.floor(boardCenterContainer.position.z)
             );
@@ -288,6 +281,7 @@ class TestBoard extends TestBase {
         boardCenterControls.attach(boardCenterContainer);
 
         const rayCaster = new THREE.Raycaster();
+        let selectedSquare: { readonly x: number; readonly z: number } | null = null;
         window.addEventListener('click', event => {
             const mouse = new THREE.Vector2(
                 (event.clientX / this.renderer.domElement.clientWidth) * 2 - 1,
@@ -297,6 +291,62 @@ class TestBoard extends TestBase {
             const intersection = boardOverlaysHandler.rayIntersection(rayCaster.ray);
             if (intersection) {
                 boardOverlaysHandler.displaySquares([intersection.cellId], new THREE.Color(0x7777ff));
+                selectedSquare = intersection.cellId;
+            }
+        });
+
+        // the edits are applied one after the other, each one to the board updated by the previous one
+        let pendingEdit = Promise.resolve();
+        const togglePillar = async (square: { readonly x: number; readonly z: number }) => {
+            if (!currentBoard) {
+                return;
+            }
+            const { board } = currentBoard;
+            const boardSquare = board.squares[square.x + square.z * board.size.x];
+            if (!boardSquare || isNaN(boardSquare.floorY)) {
+                return;
+            }
+
+            const pillarVoxels = [1, 2, 3].map(dY => ({
+                x: board.origin.x + square.x,
+                y: boardSquare.floorY + dY,
+                z: board.origin.z + square.z,
+            }));
+            const removePillar = voxelMap.isVoxelModified(pillarVoxels[0]!);
+            if (!removePillar && boardSquare.type !== EBoardSquareType.FLAT) {
+                return;
+            }
+            for (const voxel of pillarVoxels) {
+                voxelMap.setVoxel(voxel, removePillar ? null : voxelEncoder.solidVoxel.encode(false, boardSquare.materialId));
+            }
+
+            const update = await updateBoard(voxelMap, board, pillarVoxels);
+            if (currentBoard?.board !== board) {
+                return; // the board was recomputed in the meantime
+            }
+            currentBoard.board = update.board;
+
+            this.map.updateBoard(update);
+            if (update.board.origin.y !== board.origin.y) {
+                boardOverlaysHandler.reset(update.board);
+            } else {
+                boardOverlaysHandler.applyBoardChanges(update.changes);
+            }
+            await currentBoard.renderable.applyBoardChanges(update);
+
+            // the pillar voxels that are not part of the board
+            for (const voxel of pillarVoxels) {
+                this.voxelmapViewer.invalidateChunk({
+                    x: Math.floor(voxel.x / this.voxelmapViewer.chunkSizeVec3.x),
+                    y: Math.floor(voxel.y / this.voxelmapViewer.chunkSizeVec3.y),
+                    z: Math.floor(voxel.z / this.voxelmapViewer.chunkSizeVec3.z),
+                });
+            }
+        };
+        window.addEventListener('keyup', event => {
+            if (event.code === 'KeyP' && selectedSquare) {
+                const square = selectedSquare;
+                pendingEdit = pendingEdit.then(() => togglePillar(square));
             }
         });
 
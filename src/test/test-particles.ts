@@ -1,6 +1,14 @@
 import * as THREE from 'three-usage-test';
 
-import { BuffAscendEffect, InstancedBillboard, Snow } from '../lib';
+import {
+    BuffAscendEffect,
+    GpuBurstParticles,
+    HeightmapAtlasAutonomous,
+    InstancedBillboard,
+    MaterialsStore,
+    Snow,
+    type IHeightmap,
+} from '../lib';
 
 import { Fountain } from './effects/fire-fountain';
 import { Puff } from './effects/puff';
@@ -14,6 +22,8 @@ class TestParticles extends TestBase {
     private readonly fountain: Fountain;
     private readonly snow: Snow;
     private readonly heal: BuffAscendEffect;
+    private readonly debris: GpuBurstParticles;
+    private readonly debrisGroundAtlas: HeightmapAtlasAutonomous;
 
     public constructor() {
         super();
@@ -73,6 +83,80 @@ class TestParticles extends TestBase {
                 healRunning = false;
             }
         });
+        // the debris bounce on a hilly ground, only known through its heightmap
+        const debrisPosition = new THREE.Vector3(-10, 200, -10);
+        const getGroundAltitude = (x: number, z: number) =>
+            debrisPosition.y - 8 + 2 * Math.sin(0.3 * (x - debrisPosition.x)) * Math.cos(0.3 * (z - debrisPosition.z));
+        const debrisGround: IHeightmap = {
+            altitude: { min: debrisPosition.y - 10, max: debrisPosition.y - 6 },
+            sampleHeightmap: (coords: Float32Array) => {
+                const samplesCount = coords.length / 2;
+                const altitudes = new Float32Array(samplesCount);
+                for (let iSample = 0; iSample < samplesCount; iSample++) {
+                    altitudes[iSample] = getGroundAltitude(coords[2 * iSample]!, coords[2 * iSample + 1]!);
+                }
+                return { altitudes, materialIds: new Uint32Array(samplesCount) };
+            },
+        };
+        this.debrisGroundAtlas = new HeightmapAtlasAutonomous({
+            heightmap: debrisGround,
+            heightmapQueries: {
+                interval: 200,
+                batchSize: 2,
+                maxParallelQueries: Infinity,
+            },
+            materialsStore: new MaterialsStore({
+                voxelMaterialsList: [{ color: { r: 0.4, g: 0.35, b: 0.3 } }],
+                maxShininess: 400,
+            }),
+            texelSizeInWorld: 1,
+            leafTileSizeInWorld: 64,
+        });
+
+        const debrisGroundGeometry = new THREE.PlaneGeometry(60, 60, 60, 60).rotateX(-Math.PI / 2);
+        const debrisGroundPositions = debrisGroundGeometry.getAttribute('position');
+        for (let iVertex = 0; iVertex < debrisGroundPositions.count; iVertex++) {
+            const x = debrisPosition.x + debrisGroundPositions.getX(iVertex);
+            const z = debrisPosition.z + debrisGroundPositions.getZ(iVertex);
+            debrisGroundPositions.setY(iVertex, getGroundAltitude(x, z) - debrisPosition.y);
+        }
+        debrisGroundGeometry.computeVertexNormals();
+        const debrisGroundMesh = new THREE.Mesh(debrisGroundGeometry, new THREE.MeshPhongMaterial({ color: 0x665544 }));
+        debrisGroundMesh.position.copy(debrisPosition);
+        this.scene.add(debrisGroundMesh);
+
+        this.debris = new GpuBurstParticles({
+            maxInstancesCount: 20000,
+            positionsRange: { x: 60, y: 60, z: 60 },
+            maxSpeed: 30,
+            gravity: 15,
+            lifetime: { min: 2, max: 4 },
+            size: { x: 0.2, y: 0.2 },
+            collisions: {
+                heightmapAtlas: this.debrisGroundAtlas,
+            },
+            rendering: {
+                material: 'Basic',
+                shadows: { receive: false },
+                uniforms: {},
+                fragmentCode: `
+return vec4(mix(vec3(1, 0.8, 0.2), vec3(0.3, 0.1, 0.1), life), 1);
+`,
+            },
+        });
+        this.debris.container.position.copy(debrisPosition);
+        this.scene.add(this.debris.container);
+        window.addEventListener('keydown', event => {
+            if (event.code === 'KeyB') {
+                this.debris.burst(this.renderer, {
+                    position: { x: 0, y: 0, z: 0 },
+                    count: 10000,
+                    speed: { min: 5, max: 20 },
+                    spreadAngle: Math.PI / 3,
+                });
+            }
+        });
+
         // setTimeout(() => {
         //     // this.heal.startSingle().then(() => healRunning = false);
         //     this.heal.start();
@@ -114,6 +198,8 @@ return vec4(sampled.rgb / sampled.a, 1);
         // this.heal.update();
 
         this.snow.update(this.renderer, this.camera);
+        this.debrisGroundAtlas.update(this.renderer);
+        this.debris.update(this.renderer);
     }
 }
 
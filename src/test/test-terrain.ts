@@ -2,12 +2,15 @@ import GUI from 'lil-gui';
 import * as THREE from 'three-usage-test';
 
 import {
+    BoardLineOfSight,
     BoardOverlaysHandler,
+    BoardPathFinder,
     BoardRenderableFactory,
     ClutterViewer,
     computeBoard,
     EBoardSquareType,
     EComputationMethod,
+    ESquareVisibility,
     EVoxelsDisplayMode,
     HeightmapAtlasAutonomous,
     HeightmapViewerCpu,
@@ -32,8 +35,6 @@ import {
 } from '../lib';
 import { range } from '../lib/helpers/misc';
 
-import { LineOfSight } from './board/line-of-sight';
-import { PathFinder } from './board/path-finder';
 import { type HeightmapSample, type VoxelMap } from './map/voxel-map';
 import { TestBase } from './test-base';
 
@@ -397,6 +398,7 @@ return vec4(sampled.rgb / sampled.a, 1);
                 },
                 edgeSmoothness: this.voxelmapViewer.parameters.smoothEdges.radius,
                 ao: { ...this.voxelmapViewer.parameters.ao },
+                skylight: { ...this.voxelmapViewer.parameters.skylight },
                 specular: { ...this.voxelmapViewer.parameters.specular },
             };
             voxelsFolder.add(this.voxelmapViewer.container, 'visible').name('Show voxels');
@@ -452,6 +454,19 @@ return vec4(sampled.rgb / sampled.a, 1);
                     this.voxelmapViewer.parameters.ao.strength = parameters.ao.strength;
                 });
 
+            voxelsFolder
+                .add(parameters.skylight, 'enabled')
+                .name('Skylight enabled')
+                .onChange(() => {
+                    this.voxelmapViewer.parameters.skylight.enabled = parameters.skylight.enabled;
+                });
+            voxelsFolder
+                .add(parameters.skylight, 'strength', 0, 1)
+                .name('Skylight strength')
+                .onChange(() => {
+                    this.voxelmapViewer.parameters.skylight.strength = parameters.skylight.strength;
+                });
+
             voxelsFolder
                 .add(parameters.specular, 'strength', 0, 1)
                 .name('Specular strength')
@@ -589,6 +604,7 @@ return vec4(sampled.rgb / sampled.a, 1);
                             const chunkMapData = await this.map.getLocalMapData(blockStart, blockEnd);
                             const voxelsChunkData = Object.assign(chunkMapData, {
                                 size: new THREE.Vector3().subVectors(blockEnd, blockStart),
+                                skyOcclusion: this.computeSkyOcclusion(blockStart, blockEnd),
                             });
                             // const computationStatus =
                             await this.voxelmapViewer.enqueueChunk(chunkId, voxelsChunkData);
@@ -604,6 +620,20 @@ return vec4(sampled.rgb / sampled.a, 1);
         }
     }
 
+    /** The columns under the surface of the terrain don't see the sky, even if the voxels above them are not loaded. */
+    private computeSkyOcclusion(blockStart: THREE.Vector3Like, blockEnd: THREE.Vector3Like): Uint8Array {
+        const sizeX = blockEnd.x - blockStart.x;
+        const sizeZ = blockEnd.z - blockStart.z;
+        const skyOcclusion = new Uint8Array(sizeX * sizeZ);
+        for (let iZ = 0; iZ < sizeZ; iZ++) {
+            for (let iX = 0; iX < sizeX; iX++) {
+                const terrainSample = this.map.sampleHeightmapBaseTerrain(blockStart.x + iX, blockStart.z + iZ);
+                skyOcclusion[iX + sizeX * iZ] = terrainSample.altitude > blockEnd.y ? 1 : 0;
+            }
+        }
+        return skyOcclusion;
+    }
+
     private setupBoard(voxelMap: IVoxelMap & ITerrainMap): void {
         const factory = new BoardRenderableFactory({
             voxelMaterialsStore: this.voxelMaterialsStore,
@@ -653,42 +683,30 @@ return vec4(sampled.rgb / sampled.a, 1);
             boardOverlaysHandler.clearSquares();
 
             if (testLineOfSight) {
-                const lineOfSight = new LineOfSight({
-                    grid: {
-                        size: board.size,
-                        cells: board.squares.map(square => square.type === EBoardSquareType.OBSTACLE),
-                    },
-                });
-                const gridVisibility = lineOfSight.computeCellsVisibility({ x: boardRadius, z: boardRadius }, 10);
-                const cellsVisibilities = gridVisibility.cells.filter(cell => {
-                    return board.squares[cell.x + cell.z * board.size.x]!.type === EBoardSquareType.FLAT;
-                });
-                const visibleSquares = cellsVisibilities.filter(cell => cell.visibility === 'visible');
-                const obstructedSquares = cellsVisibilities.filter(cell => cell.visibility === 'hidden');
+                const lineOfSight = await BoardLineOfSight.create({ board, map: voxelMap });
+                const boardVisibility = lineOfSight.computeVisibility({ x: boardRadius, z: boardRadius }, 10);
+                const visibleSquares = boardVisibility.squares.filter(square => square.visibility === ESquareVisibility.VISIBLE);
+                const obstructedSquares = boardVisibility.squares.filter(square => square.visibility === ESquareVisibility.HIDDEN);
                 boardOverlaysHandler.displaySquares(visibleSquares, new THREE.Color(0x00ff00));
                 boardOverlaysHandler.displaySquares(obstructedSquares, new THREE.Color(0xff0000));
             } else if (testPathFinding) {
-                const pathFinder = new PathFinder({
-                    grid: {
-                        size: board.size,
-                        cells: board.squares.map(square => square.type === EBoardSquareType.FLAT),
-                    },
-                });
+                const pathFinder = new BoardPathFinder({ board, connectivity: 4 });
 
                 {
-                    pathFinder.setOrigin({ x: boardRadius, z: boardRadius });
-                    const reachableCells = pathFinder.getReachableCells(10);
-                    boardOverlaysHandler.displayBlob(0, reachableCells, new THREE.Color(0x88dd88), 0.5);
+                    pathFinder.setOrigin({ x: boardRadius, z: boardRadius }, 10);
+                    const reachableSquares = pathFinder.getReachableSquares();
+                    boardOverlaysHandler.displayBlob(0, reachableSquares, new THREE.Color(0x88dd88), 0.5);
                     const path = pathFinder.findPathTo({ x: 31, z: 35 });
                     if (path) {
-                        boardOverlaysHandler.displaySquares(path, new THREE.Color(0x88dd88), 1);
+                        boardOverlaysHandler.displaySquares(path.squares, new THREE.Color(0x88dd88), 1);
                     }
                 }
 
-                {
-                    pathFinder.setOrigin({ x: boardRadius - 5, z: boardRadius - 5 });
-                    const reachableCells = pathFinder.getReachableCells(7);
-                    boardOverlaysHandler.displayBlob(1, reachableCells, new THREE.Color(0xdd8888), 0.5);
+                const secondOrigin = { x: boardRadius - 5, z: boardRadius - 5 };
+                if (board.squares[secondOrigin.x + secondOrigin.z * board.size.x]!.type === EBoardSquareType.FLAT) {
+                    pathFinder.setOrigin(secondOrigin, 7);
+                    const reachableSquares = pathFinder.getReachableSquares();
+                    boardOverlaysHandler.displayBlob(1, reachableSquares, new THREE.Color(0xdd8888), 0.5);
                 }
             }
         };
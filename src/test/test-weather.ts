@@ -1,26 +1,26 @@
 import { GUI } from 'lil-gui';
 import * as THREE from 'three-usage-test';
 
-import { Rain, Snow } from '../lib';
+import { EVoxelStatus, PrecipitationOcclusionMap, WeatherController, type IVoxelmapCollider, type WeatherType } from '../lib';
 
 import { TestBase } from './test-base';
 
-enum EType {
-    RAIN = 'rain',
-    SNOW = 'snow',
-}
+const weatherTypes: WeatherType[] = ['clear', 'drizzle', 'storm', 'snowfall', 'blizzard', 'sandstorm', 'falling-leaves'];
 
 class TestWeather extends TestBase {
     private readonly gui: GUI;
 
     private readonly parameters = {
-        type: EType.SNOW,
-        count: 10000,
+        weather: 'snowfall' as WeatherType,
+        intensity: 1,
+        transitionDuration: 5,
         clippingPlaneLevel: 0,
+        stormInNeighbourRegion: false,
     };
 
-    private readonly snow: Snow;
-    private readonly rain: Rain;
+    private readonly weatherController: WeatherController;
+    private readonly fog = new THREE.FogExp2(0xffffff, 0);
+    private readonly ambientLight = new THREE.AmbientLight();
 
     public constructor() {
         super();
@@ -36,52 +36,79 @@ class TestWeather extends TestBase {
         gridHelper.position.setY(-0.01);
         this.scene.add(gridHelper);
 
-        this.snow = new Snow(this.renderer);
-        this.scene.add(this.snow.container);
+        // a roof to shelter from the precipitation
+        const roof = { from: new THREE.Vector3(-5, 6, -5), to: new THREE.Vector3(5, 7, 5) };
+        const roofMesh = new THREE.Mesh(new THREE.BoxGeometry(1, 1, 1), new THREE.MeshPhongMaterial({ color: 0x885533 }));
+        roofMesh.name = 'roof';
+        roofMesh.position.addVectors(roof.from, roof.to).multiplyScalar(0.5);
+        roofMesh.scale.subVectors(roof.to, roof.from);
+        this.scene.add(roofMesh);
+
+        const voxelmapCollider: IVoxelmapCollider = {
+            getVoxel: (coords: THREE.Vector3Like) => {
+                const isGround = coords.y < 0;
+                const isRoof =
+                    coords.x >= roof.from.x &&
+                    coords.x < roof.to.x &&
+                    coords.y >= roof.from.y &&
+                    coords.y < roof.to.y &&
+                    coords.z >= roof.from.z &&
+                    coords.z < roof.to.z;
+                return isGround || isRoof ? EVoxelStatus.FULL : EVoxelStatus.EMPTY;
+            },
+        };
+        const occlusionMap = new PrecipitationOcclusionMap({
+            voxelmapCollider,
+            altitude: { min: -2, max: 32 },
+        });
 
-        this.rain = new Rain(this.renderer);
-        this.scene.add(this.rain.container);
+        this.weatherController = new WeatherController(this.renderer, {
+            weather: { type: this.parameters.weather },
+            transitionDuration: this.parameters.transitionDuration,
+            regionSize: 64,
+            occlusionMap,
+            splashes: true,
+        });
+        this.scene.add(this.weatherController.container);
+
+        this.scene.fog = this.fog;
+        this.scene.add(this.ambientLight);
 
         this.gui = new GUI();
         this.gui.add(ground, 'visible').name('Display ground');
-        this.gui.add(this.parameters, 'type', Object.values(EType)).onChange(() => {
-            this.enforceType();
-            this.enforceCount();
+        this.gui.add(this.parameters, 'weather', weatherTypes).onChange(() => {
+            this.enforceWeather();
+        });
+        this.gui.add(this.parameters, 'intensity', 0, 1, 0.05).onChange(() => {
+            this.enforceWeather();
         });
-        this.gui.add(this.parameters, 'count', 0, 65000, 1000).onChange(() => {
-            this.enforceCount();
+        this.gui.add(this.parameters, 'transitionDuration', 0, 30, 1).onChange(() => {
+            this.weatherController.transitionDuration = this.parameters.transitionDuration;
         });
         this.gui.add(this.parameters, 'clippingPlaneLevel', -100, 100).onChange(() => {
-            this.enforceClippingPlaneLevel();
+            this.weatherController.clippingPlaneLevel = this.parameters.clippingPlaneLevel;
         });
-        this.enforceCount();
-        this.enforceType();
-        this.enforceClippingPlaneLevel();
+        this.gui
+            .add(this.parameters, 'stormInNeighbourRegion')
+            .name('Storm in region x=1')
+            .onChange(() => {
+                const state = this.parameters.stormInNeighbourRegion ? { type: 'storm' as const } : null;
+                this.weatherController.setRegionWeather({ x: 1, z: 0 }, state);
+            });
+        this.weatherController.clippingPlaneLevel = this.parameters.clippingPlaneLevel;
     }
 
     protected override update(): void {
-        if (this.parameters.type === EType.SNOW) {
-            this.snow.update(this.renderer, this.camera);
-        } else if (this.parameters.type === EType.RAIN) {
-            this.rain.update(this.renderer, this.camera);
-        } else {
-            throw new Error(`Unknown type "${this.parameters.type}".`);
-        }
-    }
-
-    private enforceType(): void {
-        this.snow.container.visible = this.parameters.type === EType.SNOW;
-        this.rain.container.visible = this.parameters.type === EType.RAIN;
-    }
+        this.weatherController.update(this.renderer, this.camera);
 
-    private enforceCount(): void {
-        this.snow.setParticlesCount(this.parameters.type === EType.SNOW ? this.parameters.count : 0);
-        this.rain.setParticlesCount(this.parameters.type === EType.RAIN ? this.parameters.count : 0);
+        this.fog.color.copy(this.weatherController.fog.color);
+        this.fog.density = this.weatherController.fog.density;
+        this.ambientLight.color.copy(this.weatherController.ambientLight.color);
+        this.ambientLight.intensity = this.weatherController.ambientLight.intensity;
     }
 
-    private enforceClippingPlaneLevel(): void {
-        this.snow.clippingPlaneLevel = this.parameters.clippingPlaneLevel;
-        this.rain.clippingPlaneLevel = this.parameters.clippingPlaneLevel;
+    private enforceWeather(): void {
+        this.weatherController.setWeather({ type: this.parameters.weather, intensity: this.parameters.intensity });
     }
 
     private createGround(): THREE.Mesh {